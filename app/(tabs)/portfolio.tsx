@@ -1,12 +1,22 @@
+import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
-import { useWalletStore } from '../../lib/stores/wallet';
-import { useWalletData } from '../../lib/hooks/useWalletData';
+import { useWalletStore, useActiveWallet, useNetworkWallets } from '../../lib/stores/wallet';
+import { NETWORK_CONFIG } from '../../lib/cardano/network';
+import { useWalletData, useAllWalletsData } from '../../lib/hooks/useWalletData';
+import { usePortfolioValuation } from '../../lib/hooks/usePortfolioValuation';
+import { usePortfolioAssets } from '../../lib/hooks/usePortfolioAssets';
 import { WalletInput } from '../../components/portfolio/WalletInput';
 import { BalanceCard } from '../../components/portfolio/BalanceCard';
 import { TokenList } from '../../components/portfolio/TokenList';
+import { WalletSelector } from '../../components/portfolio/WalletSelector';
+import { WalletEditor } from '../../components/portfolio/WalletEditor';
+import { WalletBreakdown } from '../../components/portfolio/WalletBreakdown';
+import { NftGallery } from '../../components/portfolio/NftGallery';
+import { PortfolioHistory } from '../../components/portfolio/PortfolioHistory';
+import { OfflineBanner } from '../../components/ui/OfflineBanner';
 
 function formatAddress(addr: string): string {
   if (addr.length <= 20) return addr;
@@ -14,18 +24,49 @@ function formatAddress(addr: string): string {
 }
 
 export default function PortfolioScreen() {
-  const { address, stakeAddress, clearWallet } = useWalletStore();
-  const { data, isLoading, isError, error, refetch, isRefetching } = useWalletData();
+  const { wallet: activeWallet, network } = useActiveWallet();
+  const wallets = useNetworkWallets();
+  const showAllWallets = useWalletStore((state) => state.showAllWallets);
+  const setActiveWallet = useWalletStore((state) => state.setActiveWallet);
+  const setShowAllWallets = useWalletStore((state) => state.setShowAllWallets);
+  const [isAddingWallet, setIsAddingWallet] = useState(false);
+  const [editingWalletId, setEditingWalletId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
-  const hasWallet = !!(address || stakeAddress);
-  const displayAddress = address || stakeAddress || '';
+  const single = useWalletData();
+  const combined = useAllWalletsData(showAllWallets && wallets.length > 1);
 
-  if (!hasWallet) {
+  // The combined view only makes sense with more than one wallet
+  const isCombined = showAllWallets && wallets.length > 1;
+  const { isLoading, isError, error, isRefetching, dataUpdatedAt, isRefetchError } = isCombined
+    ? combined
+    : single;
+  const refetch = isCombined ? combined.refetch : single.refetch;
+  const data = isCombined ? combined.total : single.data;
+  // Cached balances stay on screen when a refresh fails
+  const hasData = isCombined ? dataUpdatedAt > 0 : !!single.data;
+  const { fungible, nfts } = usePortfolioAssets(data?.tokens);
+  // NFTs have no DEX price, so only fungible tokens are valued
+  const fungibleBalance = useMemo(() => data && { ...data, tokens: fungible }, [data, fungible]);
+  const valuation = usePortfolioValuation(fungibleBalance);
+
+  const editingWallet = wallets.find((w) => w.id === editingWalletId) ?? null;
+  const networkSuffix =
+    network !== 'mainnet' ? ` (${NETWORK_CONFIG[network].label.toUpperCase()})` : '';
+
+  if (!activeWallet || isAddingWallet) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
         <ScrollView contentContainerStyle={styles.content}>
-          <Text style={styles.title}>PORTFOLIO</Text>
-          <WalletInput />
+          <View style={styles.header}>
+            <Text style={styles.title}>PORTFOLIO</Text>
+            {activeWallet && (
+              <Pressable onPress={() => setIsAddingWallet(false)} style={styles.headerButton}>
+                <Text style={styles.cancelText}>CANCEL</Text>
+              </Pressable>
+            )}
+          </View>
+          <WalletInput onConnected={() => setIsAddingWallet(false)} />
         </ScrollView>
       </SafeAreaView>
     );
@@ -46,15 +87,43 @@ export default function PortfolioScreen() {
       >
         <View style={styles.header}>
           <Text style={styles.title}>PORTFOLIO</Text>
-          <Pressable onPress={clearWallet} style={styles.disconnectButton}>
-            <Text style={styles.disconnectText}>DISCONNECT</Text>
-          </Pressable>
+          {!isCombined && (
+            <Pressable
+              onPress={() => setEditingWalletId(activeWallet.id)}
+              style={styles.headerButton}
+            >
+              <Text style={styles.manageText}>EDIT</Text>
+            </Pressable>
+          )}
         </View>
 
-        <Text style={styles.addressLabel}>CONNECTED WALLET</Text>
-        <Text style={styles.address}>{formatAddress(displayAddress)}</Text>
+        <WalletSelector
+          wallets={wallets}
+          activeWalletId={activeWallet.id}
+          showAllWallets={isCombined}
+          onSelectWallet={(walletId) => setActiveWallet(network, walletId)}
+          onSelectAll={() => setShowAllWallets(true)}
+          onAddWallet={() => setIsAddingWallet(true)}
+          onEditWallet={setEditingWalletId}
+        />
 
-        {isError ? (
+        {isCombined ? (
+          <Text style={[styles.addressLabel, styles.combinedLabel]}>
+            ALL WALLETS ({wallets.length}){networkSuffix}
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.addressLabel}>
+              {activeWallet.label.toUpperCase()}
+              {networkSuffix}
+            </Text>
+            <Text style={styles.address}>
+              {formatAddress(activeWallet.address || activeWallet.stakeAddress || '')}
+            </Text>
+          </>
+        )}
+
+        {isError && !hasData ? (
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>
               {error?.message || 'Failed to fetch wallet data'}
@@ -65,16 +134,53 @@ export default function PortfolioScreen() {
           </View>
         ) : (
           <View style={styles.dataContainer}>
+            <OfflineBanner
+              updatedAt={hasData ? dataUpdatedAt : undefined}
+              refreshFailed={isRefetchError}
+            />
             <BalanceCard
               ada={data?.ada || 0}
               rewardsAda={data?.rewardsAda || 0}
+              valuation={valuation}
+              updatedAt={hasData ? dataUpdatedAt : undefined}
               isLoading={isLoading}
             />
+            {!isCombined && (
+              <Pressable
+                onPress={() => setShowHistory(true)}
+                style={styles.historyButton}
+                accessibilityRole="button"
+                accessibilityLabel="View balance history"
+              >
+                <Text style={styles.historyText}>VIEW HISTORY</Text>
+              </Pressable>
+            )}
+            {isCombined && (
+              <>
+                <View style={styles.spacer} />
+                <WalletBreakdown entries={combined.breakdown} totalAda={combined.total.ada} />
+              </>
+            )}
             <View style={styles.spacer} />
-            <TokenList tokens={data?.tokens || []} isLoading={isLoading} />
+            <TokenList tokens={fungible} valuation={valuation} isLoading={isLoading} />
+            {nfts.length > 0 && (
+              <>
+                <View style={styles.spacer} />
+                <NftGallery nfts={nfts} />
+              </>
+            )}
           </View>
         )}
       </ScrollView>
+
+      <WalletEditor wallet={editingWallet} onClose={() => setEditingWalletId(null)} />
+      <PortfolioHistory
+        visible={showHistory && !isCombined}
+        wallet={activeWallet}
+        network={network}
+        currentLovelace={single.data?.lovelace}
+        onClose={() => setShowHistory(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -102,14 +208,20 @@ const styles = StyleSheet.create({
     textShadowRadius: 10,
     letterSpacing: 4,
   },
-  disconnectButton: {
+  headerButton: {
     paddingVertical: 8,
     paddingHorizontal: 12,
   },
-  disconnectText: {
+  manageText: {
     fontFamily: typography.fonts.primary,
     fontSize: typography.sizes.xs,
-    color: cyberpunk.error,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 1,
+  },
+  cancelText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
     letterSpacing: 1,
   },
   addressLabel: {
@@ -119,6 +231,9 @@ const styles = StyleSheet.create({
     letterSpacing: 2,
     marginBottom: 4,
   },
+  combinedLabel: {
+    marginBottom: 24,
+  },
   address: {
     fontFamily: typography.fonts.mono,
     fontSize: typography.sizes.sm,
@@ -146,6 +261,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 16,
   },
+  historyButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    borderRadius: 4,
+  },
+  historyText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 1,
+  },
   retryButton: {
     borderWidth: 1,
     borderColor: cyberpunk.neonCyan,
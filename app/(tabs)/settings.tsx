@@ -6,15 +6,21 @@ import React from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Linking, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Constants from 'expo-constants';
+import { File } from 'expo-file-system';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { CyberCard } from '../../components/ui/CyberCard';
 import { usePrivacyStore } from '../../lib/stores/privacy';
 import {
   useSettingsStore,
+  IPFS_GATEWAYS,
   type RefreshIntervalKey,
   type CurrencyDisplay,
+  type IpfsGatewayKey,
 } from '../../lib/stores/settings';
+import { NETWORKS, NETWORK_CONFIG, type CardanoNetwork } from '../../lib/cardano/network';
+import { usePriceHistoryStore, type FiatCurrency } from '../../lib/stores/priceHistoryStore';
+import { parsePriceCsv } from '../../lib/utils/price-csv';
 
 /** Toggle switch component */
 function ToggleSwitch({
@@ -132,6 +138,64 @@ function LinkRow({ label, url }: { label: string; url: string }) {
   );
 }
 
+/** Import a daily ADA price CSV for the selected fiat currency */
+function PriceImportRow({ currency }: { currency: CurrencyDisplay }) {
+  const fiatCurrency = currency === 'ADA' ? null : (currency.toLowerCase() as FiatCurrency);
+  const storedDays = usePriceHistoryStore((state) =>
+    fiatCurrency ? Object.keys(state.closes[fiatCurrency]).length : 0
+  );
+  const addCloses = usePriceHistoryStore((state) => state.addCloses);
+
+  const handlePress = async () => {
+    if (!fiatCurrency) return;
+    try {
+      const picked = await File.pickFileAsync(undefined, 'text/*');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+
+      const { closes, skippedRows } = parsePriceCsv(await file.text());
+      const days = Object.keys(closes).length;
+      if (days === 0) {
+        Alert.alert(
+          'Import Failed',
+          'No dated prices found. Expected a date column and a price or close column.'
+        );
+        return;
+      }
+
+      addCloses(fiatCurrency, closes, 'import');
+      const skipped = skippedRows > 0 ? ` ${skippedRows} rows could not be read.` : '';
+      Alert.alert('Prices Imported', `Imported ${days} days of ADA/${currency} prices.${skipped}`);
+    } catch (error) {
+      if (error instanceof Error && /cancel/i.test(error.message)) return;
+      Alert.alert('Import Failed', 'Could not read the selected file. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <Pressable
+        onPress={handlePress}
+        style={styles.linkRow}
+        disabled={!fiatCurrency}
+        accessibilityRole="button"
+        accessibilityLabel="Import ADA price CSV"
+        accessibilityState={{ disabled: !fiatCurrency }}
+      >
+        <Text style={[styles.linkLabel, !fiatCurrency && styles.linkLabelDisabled]}>
+          Import Price CSV
+        </Text>
+        <Text style={styles.linkArrow}>&gt;</Text>
+      </Pressable>
+      <Text style={styles.settingDescription}>
+        {fiatCurrency
+          ? `${storedDays} days of ADA/${currency} prices stored for exports`
+          : 'Select a fiat currency to import historical prices'}
+      </Text>
+    </>
+  );
+}
+
 const CURRENCY_OPTIONS: { value: CurrencyDisplay; label: string }[] = [
   { value: 'ADA', label: 'ADA' },
   { value: 'USD', label: 'USD' },
@@ -146,6 +210,15 @@ const REFRESH_OPTIONS: { value: RefreshIntervalKey; label: string }[] = [
   { value: '15m', label: '15m' },
 ];
 
+const IPFS_GATEWAY_OPTIONS: { value: IpfsGatewayKey; label: string }[] = (
+  Object.keys(IPFS_GATEWAYS) as IpfsGatewayKey[]
+).map((gateway) => ({ value: gateway, label: gateway }));
+
+const NETWORK_OPTIONS: { value: CardanoNetwork; label: string }[] = NETWORKS.map((network) => ({
+  value: network,
+  label: NETWORK_CONFIG[network].label,
+}));
+
 export default function SettingsScreen() {
   // Privacy store
   const {
@@ -159,12 +232,16 @@ export default function SettingsScreen() {
   const {
     compactBalances,
     currencyDisplay,
+    ipfsGateway,
     hapticsEnabled,
     refreshInterval,
+    network,
     toggleCompactBalances,
     setCurrencyDisplay,
+    setIpfsGateway,
     toggleHapticsEnabled,
     setRefreshInterval,
+    setNetwork,
     resetToDefaults,
   } = useSettingsStore();
 
@@ -209,6 +286,16 @@ export default function SettingsScreen() {
             value={currencyDisplay}
             onChange={setCurrencyDisplay}
           />
+          <View style={styles.divider} />
+          <OptionSelector
+            label="IPFS Gateway"
+            options={IPFS_GATEWAY_OPTIONS}
+            value={ipfsGateway}
+            onChange={setIpfsGateway}
+          />
+          <Text style={styles.settingDescription}>
+            Used to load NFT images stored on IPFS
+          </Text>
         </CyberCard>
 
         {/* Data Section */}
@@ -220,6 +307,18 @@ export default function SettingsScreen() {
             value={refreshInterval}
             onChange={setRefreshInterval}
           />
+          <View style={styles.divider} />
+          <OptionSelector
+            label="Network"
+            options={NETWORK_OPTIONS}
+            value={network}
+            onChange={setNetwork}
+          />
+          <Text style={styles.settingDescription}>
+            Each network keeps its own saved wallets
+          </Text>
+          <View style={styles.divider} />
+          <PriceImportRow currency={currencyDisplay} />
         </CyberCard>
 
         {/* Game Section */}
@@ -406,6 +505,9 @@ const styles = StyleSheet.create({
     color: cyberpunk.textPrimary,
     letterSpacing: 1,
   },
+  linkLabelDisabled: {
+    color: cyberpunk.textMuted,
+  },
   linkArrow: {
     fontFamily: typography.fonts.mono,
     fontSize: typography.sizes.sm,
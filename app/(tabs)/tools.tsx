@@ -3,7 +3,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { StakingTool } from '../../components/staking';
+import { HistoryTool } from '../../components/history';
 import { ExportTool } from '../../components/tools/ExportTool';
+import { GainsReportTool } from '../../components/tools/GainsReportTool';
 import { DeFiTool } from '../../components/defi';
 
 export default function ToolsScreen() {
@@ -14,7 +16,9 @@ export default function ToolsScreen() {
         <View style={styles.toolsList}>
           <DeFiTool />
           <StakingTool />
+          <HistoryTool />
           <ExportTool />
+          <GainsReportTool />
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -4,18 +4,17 @@ import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { View } from 'react-native';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { cyberpunk } from '../lib/theme/colors';
+import {
+  createQueryClient,
+  queryPersistOptions,
+  setupOnlineManager,
+} from '../lib/api/query-persistence';
 import Constants from 'expo-constants';
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 2,
-      staleTime: 30 * 1000,
-    },
-  },
-});
+const queryClient = createQueryClient();
+setupOnlineManager();
 
 SplashScreen.preventAutoHideAsync();
 
@@ -58,7 +57,7 @@ export default function RootLayout() {
   }
 
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider client={queryClient} persistOptions={queryPersistOptions}>
       <View style={{ flex: 1, backgroundColor: cyberpunk.bgPrimary }}>
         <StatusBar style="light" />
         <Stack
@@ -71,6 +70,6 @@ export default function RootLayout() {
           <Stack.Screen name="(tabs)" />
         </Stack>
       </View>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
@@ -9,6 +9,7 @@ import { DEFI_CONFIG } from '../../lib/defi/constants';
 import type { Token, TokenPair } from '../../lib/defi/types';
 import { WatchlistPairRow } from './WatchlistPairRow';
 import { TokenSelector } from './TokenSelector';
+import { OfflineBanner } from '../ui/OfflineBanner';
 
 interface TokenWatchlistProps {
   onSelectPair: (tokenIn: Token, tokenOut: Token) => void;
@@ -178,6 +179,11 @@ export function TokenWatchlist({ onSelectPair }: TokenWatchlistProps) {
   }, []);
 
   const canAddMore = pairs.length < DEFI_CONFIG.MAX_WATCHLIST_PAIRS;
+  // Rates are persisted with the watchlist, so they are available offline
+  const rateTimes = pairs
+    .map((pair) => pair.lastUpdated)
+    .filter((time): time is number => time !== null);
+  const oldestRateUpdate = rateTimes.length > 0 ? Math.min(...rateTimes) : undefined;
 
   return (
     <View style={styles.container}>
@@ -206,6 +212,8 @@ export function TokenWatchlist({ onSelectPair }: TokenWatchlistProps) {
         )}
       </View>
 
+      <OfflineBanner updatedAt={oldestRateUpdate} style={styles.offlineBanner} />
+
       {/* Pair List */}
       {pairs.length === 0 ? (
         <View style={styles.emptyState}>
@@ -283,6 +291,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  offlineBanner: {
+    marginTop: 12,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
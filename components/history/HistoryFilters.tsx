@@ -0,0 +1,217 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, TextInput } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import {
+  TRANSACTION_TYPE_LABELS,
+  type HistoryAsset,
+  type HistoryFilter,
+} from '../../lib/utils/transaction-history';
+import type { TransactionType } from '../../lib/types/transaction';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Rolling date ranges; calendar years are added from the history itself */
+const RECENT_RANGES = [
+  { id: '30d', label: '30D', days: 30 },
+  { id: '90d', label: '90D', days: 90 },
+  { id: '1y', label: '1Y', days: 365 },
+] as const;
+
+export type DateRangeId = 'all' | (typeof RECENT_RANGES)[number]['id'] | `year:${number}`;
+
+/**
+ * Timestamp bounds (Unix seconds) for a date range.
+ */
+export function getDateRangeBounds(
+  rangeId: DateRangeId,
+  now: number = Date.now()
+): Pick<HistoryFilter, 'startTime' | 'endTime'> {
+  if (rangeId === 'all') return { startTime: null, endTime: null };
+  if (rangeId.startsWith('year:')) {
+    const year = Number(rangeId.slice('year:'.length));
+    return {
+      startTime: Date.UTC(year, 0, 1) / 1000,
+      endTime: Date.UTC(year + 1, 0, 1) / 1000 - 1,
+    };
+  }
+  const range = RECENT_RANGES.find((r) => r.id === rangeId);
+  return {
+    startTime: Math.floor(now / 1000) - (range?.days ?? 0) * DAY_SECONDS,
+    endTime: null,
+  };
+}
+
+interface HistoryFiltersProps {
+  filter: HistoryFilter;
+  rangeId: DateRangeId;
+  /** Types present in the history */
+  types: TransactionType[];
+  assets: HistoryAsset[];
+  /** Calendar years present in the history, newest first */
+  years: number[];
+  onFilterChange: (filter: HistoryFilter) => void;
+  onRangeChange: (rangeId: DateRangeId) => void;
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipActive]}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function ChipRow({ children }: { children: React.ReactNode }) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.chipRow}
+    >
+      {children}
+    </ScrollView>
+  );
+}
+
+export function HistoryFilters({
+  filter,
+  rangeId,
+  types,
+  assets,
+  years,
+  onFilterChange,
+  onRangeChange,
+}: HistoryFiltersProps) {
+  const toggleType = (type: TransactionType) => {
+    onFilterChange({
+      ...filter,
+      types: filter.types.includes(type)
+        ? filter.types.filter((t) => t !== type)
+        : [...filter.types, type],
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.searchInput}
+        value={filter.search}
+        onChangeText={(search) => onFilterChange({ ...filter, search })}
+        placeholder="Search hash, address or message"
+        placeholderTextColor={cyberpunk.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        accessibilityLabel="Search transactions"
+        accessibilityHint="Filters transactions by hash, address or message"
+      />
+
+      <ChipRow>
+        <Chip
+          label="ALL TYPES"
+          selected={filter.types.length === 0}
+          onPress={() => onFilterChange({ ...filter, types: [] })}
+        />
+        {types.map((type) => (
+          <Chip
+            key={type}
+            label={TRANSACTION_TYPE_LABELS[type].toUpperCase()}
+            selected={filter.types.includes(type)}
+            onPress={() => toggleType(type)}
+          />
+        ))}
+      </ChipRow>
+
+      {assets.length > 1 && (
+        <ChipRow>
+          <Chip
+            label="ALL ASSETS"
+            selected={filter.asset === null}
+            onPress={() => onFilterChange({ ...filter, asset: null })}
+          />
+          {assets.map((asset) => (
+            <Chip
+              key={asset.unit}
+              label={asset.ticker}
+              selected={filter.asset === asset.unit}
+              onPress={() => onFilterChange({ ...filter, asset: asset.unit })}
+            />
+          ))}
+        </ChipRow>
+      )}
+
+      <ChipRow>
+        <Chip label="ALL TIME" selected={rangeId === 'all'} onPress={() => onRangeChange('all')} />
+        {RECENT_RANGES.map((range) => (
+          <Chip
+            key={range.id}
+            label={range.label}
+            selected={rangeId === range.id}
+            onPress={() => onRangeChange(range.id)}
+          />
+        ))}
+        {years.map((year) => (
+          <Chip
+            key={year}
+            label={String(year)}
+            selected={rangeId === `year:${year}`}
+            onPress={() => onRangeChange(`year:${year}`)}
+          />
+        ))}
+      </ChipRow>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  searchInput: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    borderRadius: 4,
+    padding: 12,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.textMuted,
+    borderRadius: 4,
+  },
+  chipActive: {
+    borderColor: cyberpunk.neonCyan,
+    backgroundColor: 'rgba(0, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  chipTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+});
@@ -0,0 +1,291 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { useActiveWallet, type NetworkWallet } from '../../lib/stores/wallet';
+import { usePrivacyStore } from '../../lib/stores/privacy';
+import type { CardanoNetwork } from '../../lib/cardano/network';
+import { useTransactionHistory } from '../../lib/hooks/useTransactionHistory';
+import {
+  EMPTY_HISTORY_FILTER,
+  filterHistoryEntries,
+  getHistoryAssets,
+  type HistoryEntry,
+  type HistoryFilter,
+} from '../../lib/utils/transaction-history';
+import type { TransactionType } from '../../lib/types/transaction';
+import { CyberButton } from '../ui/CyberButton';
+import { HistoryFilters, getDateRangeBounds, type DateRangeId } from './HistoryFilters';
+import { TransactionDetail } from './TransactionDetail';
+import { TransactionRow } from './TransactionRow';
+
+function HistoryContent({ wallet, network }: { wallet: NetworkWallet; network: CardanoNetwork }) {
+  const { entries, warnings, isLoading, isFetching, error, progress, refetch } =
+    useTransactionHistory(wallet, network);
+  const hideBalances = usePrivacyStore((state) => state.hideBalances);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [rangeId, setRangeId] = useState<DateRangeId>('all');
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+
+  const { types, assets, years } = useMemo(
+    () => ({
+      types: Array.from(new Set(entries.map((entry) => entry.type))) as TransactionType[],
+      assets: getHistoryAssets(entries),
+      years: Array.from(new Set(entries.map((entry) => entry.timestamp.getUTCFullYear()))),
+    }),
+    [entries]
+  );
+
+  const filtered = useMemo(() => filterHistoryEntries(entries, filter), [entries, filter]);
+
+  const handleRangeChange = (nextRangeId: DateRangeId) => {
+    setRangeId(nextRangeId);
+    setFilter((current) => ({ ...current, ...getDateRangeBounds(nextRangeId) }));
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
+        <Text style={styles.statusText}>
+          {progress?.phase === 'processing' && progress.total > 0
+            ? `PROCESSING ${progress.current}/${progress.total} TRANSACTIONS`
+            : 'FETCHING TRANSACTIONS...'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (error && entries.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error.message || 'Failed to load transactions'}</Text>
+        <CyberButton title="RETRY" variant="secondary" onPress={() => refetch()} />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <FlatList
+        data={filtered}
+        keyExtractor={(entry) => entry.txHash}
+        renderItem={({ item }) => (
+          <TransactionRow entry={item} hideBalances={hideBalances} onPress={setSelected} />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.listHeader}>
+            <HistoryFilters
+              filter={filter}
+              rangeId={rangeId}
+              types={types}
+              assets={assets}
+              years={years}
+              onFilterChange={setFilter}
+              onRangeChange={handleRangeChange}
+            />
+            {warnings.map((warning) => (
+              <Text key={warning} style={styles.warningText}>
+                {warning}
+              </Text>
+            ))}
+            <Text style={styles.countText}>
+              {filtered.length} of {entries.length} transactions
+            </Text>
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {entries.length === 0 ? 'No transactions yet' : 'No transactions match the filters'}
+          </Text>
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={isFetching}
+            onRefresh={() => refetch()}
+            tintColor={cyberpunk.neonCyan}
+          />
+        }
+        keyboardShouldPersistTaps="handled"
+      />
+      <TransactionDetail entry={selected} onClose={() => setSelected(null)} />
+    </>
+  );
+}
+
+export function HistoryTool() {
+  const { address, stakeAddress, network } = useActiveWallet();
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const hasWallet = !!(address || stakeAddress);
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setModalVisible(true)}
+        style={[styles.toolCard, !hasWallet && styles.toolCardDisabled]}
+        disabled={!hasWallet}
+        accessibilityRole="button"
+        accessibilityLabel="View transaction history"
+        accessibilityHint="Opens a searchable list of your transactions"
+        accessibilityState={{ disabled: !hasWallet }}
+      >
+        <Text style={styles.toolIcon}>⇅</Text>
+        <View style={styles.toolInfo}>
+          <Text style={styles.toolTitle}>TRANSACTION HISTORY</Text>
+          <Text style={styles.toolDescription}>
+            {hasWallet ? 'Browse, filter and search transactions' : 'Connect wallet first'}
+          </Text>
+        </View>
+      </Pressable>
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={false}
+        onRequestClose={() => setModalVisible(false)}
+        accessibilityViewIsModal={true}
+        accessibilityLabel="Transaction history"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Pressable
+              onPress={() => setModalVisible(false)}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+            >
+              <Text style={styles.closeButtonText}>X</Text>
+            </Pressable>
+            <Text style={styles.modalTitle}>TRANSACTIONS</Text>
+          </View>
+
+          {hasWallet && <HistoryContent wallet={{ address, stakeAddress }} network={network} />}
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 16,
+    gap: 16,
+  },
+  toolCardDisabled: {
+    borderColor: cyberpunk.bgTertiary,
+    opacity: 0.5,
+  },
+  toolIcon: {
+    fontSize: 32,
+    color: cyberpunk.neonCyan,
+    fontFamily: typography.fonts.primary,
+  },
+  toolInfo: {
+    flex: 1,
+  },
+  toolTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginBottom: 4,
+  },
+  toolDescription: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  statusText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+  },
+  errorText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 20,
+    gap: 8,
+  },
+  listHeader: {
+    gap: 12,
+    marginBottom: 8,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+  },
+  countText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  emptyText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
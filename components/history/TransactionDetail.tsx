@@ -0,0 +1,296 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { usePrivacyStore } from '../../lib/stores/privacy';
+import { formatAmount } from '../../lib/utils/export-formats';
+import {
+  TRANSACTION_TYPE_LABELS,
+  type HistoryEntry,
+} from '../../lib/utils/transaction-history';
+import type { TransactionAmount } from '../../lib/types/transaction';
+import { CyberButton } from '../ui/CyberButton';
+import { formatEntryDate, formatLineAmount } from './TransactionRow';
+
+// Characters kept at each end of a truncated address
+const ADDRESS_EDGE_LENGTH = 12;
+
+interface TransactionDetailProps {
+  entry: HistoryEntry | null;
+  onClose: () => void;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue} selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+function formatAddress(address: string, hideAddresses: boolean): string {
+  if (hideAddresses) return '****';
+  if (address.length <= ADDRESS_EDGE_LENGTH * 2) return address;
+  return `${address.slice(0, ADDRESS_EDGE_LENGTH)}...${address.slice(-ADDRESS_EDGE_LENGTH)}`;
+}
+
+function UtxoList({ title, utxos }: { title: string; utxos: TransactionAmount[] }) {
+  const { hideBalances, hideAddresses } = usePrivacyStore();
+  if (utxos.length === 0) return null;
+
+  return (
+    <>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.section}>
+        {utxos.map((utxo, index) => (
+          <View key={`${utxo.address}-${index}`} style={styles.utxoRow}>
+            <Text style={styles.utxoAddress} selectable={!hideAddresses} numberOfLines={1}>
+              {formatAddress(utxo.address, hideAddresses)}
+            </Text>
+            <Text style={styles.utxoAmount}>
+              {hideBalances ? '****' : formatAmount(utxo.amount, 'lovelace')} ADA
+            </Text>
+          </View>
+        ))}
+      </View>
+    </>
+  );
+}
+
+/**
+ * Full-screen transaction view with amounts, UTxOs and metadata.
+ */
+export function TransactionDetail({ entry, onClose }: TransactionDetailProps) {
+  const { hideBalances, hideAddresses } = usePrivacyStore();
+  const adaLine = entry?.lines[0];
+  const isReward = entry?.type === 'stake_reward';
+
+  return (
+    <Modal
+      visible={!!entry}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Transaction details"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={styles.closeButtonText}>X</Text>
+          </Pressable>
+          <Text style={styles.modalTitle} numberOfLines={1}>
+            {entry ? TRANSACTION_TYPE_LABELS[entry.type].toUpperCase() : ''}
+          </Text>
+        </View>
+
+        {entry && adaLine && (
+          <ScrollView contentContainerStyle={styles.modalContentContainer}>
+            <Text style={styles.sectionTitle}>AMOUNTS</Text>
+            <View style={styles.section}>
+              {entry.lines
+                .filter((line) => line.netAmount !== '0' || line.asset === 'lovelace')
+                .map((line) => (
+                  <Text
+                    key={line.asset}
+                    style={[
+                      styles.amountText,
+                      line.netAmount.startsWith('-') ? styles.amountOut : styles.amountIn,
+                    ]}
+                  >
+                    {formatLineAmount(line, hideBalances)}
+                  </Text>
+                ))}
+            </View>
+
+            {adaLine.message && (
+              <>
+                <Text style={styles.sectionTitle}>MESSAGE</Text>
+                <View style={styles.section}>
+                  {adaLine.message.map((line, index) => (
+                    <Text key={index} style={styles.messageText} selectable>
+                      {line}
+                    </Text>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>DETAILS</Text>
+            <View style={styles.section}>
+              <DetailRow label="Date" value={formatEntryDate(entry)} />
+              {!isReward && <DetailRow label="Transaction" value={entry.txHash} />}
+              {!isReward && <DetailRow label="Block" value={String(adaLine.blockHeight)} />}
+              {adaLine.earnedEpoch !== undefined && (
+                <DetailRow label="Earned in epoch" value={String(adaLine.earnedEpoch)} />
+              )}
+              {adaLine.fee && (
+                <DetailRow
+                  label="Fee"
+                  value={`${hideBalances ? '****' : formatAmount(adaLine.fee, 'lovelace')} ADA`}
+                />
+              )}
+              {adaLine.deposit && (
+                <DetailRow
+                  label={adaLine.deposit.startsWith('-') ? 'Deposit refund' : 'Deposit'}
+                  value={`${hideBalances ? '****' : formatAmount(adaLine.deposit.replace('-', ''), 'lovelace')} ADA`}
+                />
+              )}
+              {adaLine.withdrawalAmount && (
+                <DetailRow
+                  label="Rewards withdrawn"
+                  value={`${hideBalances ? '****' : formatAmount(adaLine.withdrawalAmount, 'lovelace')} ADA`}
+                />
+              )}
+              {adaLine.poolId && <DetailRow label="Pool" value={adaLine.poolId} />}
+              {adaLine.stakeAddress && (
+                <DetailRow
+                  label="Stake address"
+                  value={formatAddress(adaLine.stakeAddress, hideAddresses)}
+                />
+              )}
+              {adaLine.contractFailed && (
+                <DetailRow label="Script" value="Failed - collateral consumed" />
+              )}
+            </View>
+
+            <UtxoList title="INPUTS" utxos={adaLine.inputs} />
+            <UtxoList title="OUTPUTS" utxos={adaLine.outputs} />
+
+            {adaLine.metadata && (
+              <>
+                <Text style={styles.sectionTitle}>METADATA</Text>
+                <View style={styles.section}>
+                  <Text style={styles.metadataText} selectable>
+                    {JSON.stringify(adaLine.metadata, null, 2)}
+                  </Text>
+                </View>
+              </>
+            )}
+          </ScrollView>
+        )}
+
+        <View style={styles.modalFooter}>
+          <CyberButton title="CLOSE" variant="secondary" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  modalContentContainer: {
+    padding: 20,
+    gap: 12,
+  },
+  modalFooter: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: cyberpunk.bgTertiary,
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgTertiary,
+    padding: 12,
+    gap: 8,
+  },
+  amountText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.md,
+  },
+  amountIn: {
+    color: cyberpunk.success,
+  },
+  amountOut: {
+    color: cyberpunk.error,
+  },
+  detailRow: {
+    gap: 2,
+  },
+  detailLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  detailValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  utxoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  utxoAddress: {
+    flex: 1,
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  utxoAmount: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textPrimary,
+  },
+  messageText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  metadataText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+});
@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { formatAmount } from '../../lib/utils/export-formats';
+import {
+  TRANSACTION_TYPE_LABELS,
+  type HistoryEntry,
+} from '../../lib/utils/transaction-history';
+import type { Transaction, TransactionType } from '../../lib/types/transaction';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// Token lines shown in a row before collapsing into "+N more"
+const MAX_ROW_TOKENS = 2;
+
+export const TRANSACTION_TYPE_ICONS: Record<TransactionType, IconName> = {
+  send: 'arrow-up-outline',
+  receive: 'arrow-down-outline',
+  stake_reward: 'gift-outline',
+  stake_delegate: 'git-branch-outline',
+  stake_registration: 'key-outline',
+  stake_deregistration: 'close-circle-outline',
+  withdrawal: 'download-outline',
+  self_transfer: 'swap-horizontal-outline',
+  contract: 'code-slash-outline',
+  mint: 'add-circle-outline',
+  burn: 'flame-outline',
+  unknown: 'help-circle-outline',
+};
+
+/**
+ * Signed amount of a line with its ticker, or a mask when balances are hidden.
+ */
+export function formatLineAmount(line: Transaction, hideBalances: boolean): string {
+  const ticker = line.assetTicker ?? 'tokens';
+  if (hideBalances) return `**** ${ticker}`;
+  const amount = formatAmount(line.netAmount, line.asset, line.assetDecimals);
+  return `${amount.startsWith('-') ? '' : '+'}${amount} ${ticker}`;
+}
+
+export function formatEntryDate(entry: HistoryEntry): string {
+  return entry.timestamp.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface TransactionRowProps {
+  entry: HistoryEntry;
+  hideBalances: boolean;
+  onPress: (entry: HistoryEntry) => void;
+}
+
+export function TransactionRow({ entry, hideBalances, onPress }: TransactionRowProps) {
+  const [adaLine, ...tokenLines] = entry.lines;
+  const movedTokens = tokenLines.filter((line) => line.netAmount !== '0');
+  const fee = adaLine.fee;
+
+  return (
+    <Pressable
+      onPress={() => onPress(entry)}
+      style={styles.row}
+      accessibilityRole="button"
+      accessibilityLabel={`${TRANSACTION_TYPE_LABELS[entry.type]}, ${formatEntryDate(entry)}`}
+      accessibilityHint="Shows transaction details"
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name={TRANSACTION_TYPE_ICONS[entry.type]} size={20} color={cyberpunk.neonCyan} />
+      </View>
+
+      <View style={styles.info}>
+        <Text style={styles.typeText}>{TRANSACTION_TYPE_LABELS[entry.type]}</Text>
+        <Text style={styles.dateText}>{formatEntryDate(entry)}</Text>
+        {adaLine.message && (
+          <Text style={styles.messageText} numberOfLines={1}>
+            {adaLine.message.join(' ')}
+          </Text>
+        )}
+        {fee && (
+          <Text style={styles.feeText}>
+            Fee {hideBalances ? '****' : formatAmount(fee, 'lovelace')} ADA
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.amounts}>
+        {(adaLine.netAmount !== '0' || movedTokens.length === 0) && (
+          <Text
+            style={[
+              styles.amountText,
+              adaLine.netAmount.startsWith('-') ? styles.amountOut : styles.amountIn,
+            ]}
+          >
+            {formatLineAmount(adaLine, hideBalances)}
+          </Text>
+        )}
+        {movedTokens.slice(0, MAX_ROW_TOKENS).map((line) => (
+          <Text key={line.asset} style={styles.tokenText} numberOfLines={1}>
+            {formatLineAmount(line, hideBalances)}
+          </Text>
+        ))}
+        {movedTokens.length > MAX_ROW_TOKENS && (
+          <Text style={styles.tokenText}>+{movedTokens.length - MAX_ROW_TOKENS} more</Text>
+        )}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgTertiary,
+    padding: 12,
+    gap: 12,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  typeText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  dateText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  messageText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.neonCyan,
+  },
+  feeText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  amounts: {
+    alignItems: 'flex-end',
+    maxWidth: '45%',
+    gap: 2,
+  },
+  amountText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+  },
+  amountIn: {
+    color: cyberpunk.success,
+  },
+  amountOut: {
+    color: cyberpunk.error,
+  },
+  tokenText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+});
@@ -0,0 +1,4 @@
+export { HistoryFilters } from './HistoryFilters';
+export { HistoryTool } from './HistoryTool';
+export { TransactionDetail } from './TransactionDetail';
+export { TransactionRow } from './TransactionRow';
@@ -5,14 +5,26 @@ import { CyberCard } from '../ui/CyberCard';
 import { usePrivacyStore } from '../../lib/stores/privacy';
 import { useSettingsStore } from '../../lib/stores/settings';
 import { useFiatPrice, formatFiatValue } from '../../lib/hooks/useFiatPrice';
+import { formatTimeAgo } from '../../lib/utils/time';
+import type { PortfolioValuation } from '../../lib/utils/valuation';
 
 interface BalanceCardProps {
   ada: number;
   rewardsAda: number;
+  /** Token valuation, adds a portfolio value section when tokens are priced */
+  valuation?: PortfolioValuation;
+  /** When the balance was fetched (ms), shown as "updated ... ago" */
+  updatedAt?: number;
   isLoading?: boolean;
 }
 
-export function BalanceCard({ ada, rewardsAda, isLoading }: BalanceCardProps) {
+export function BalanceCard({
+  ada,
+  rewardsAda,
+  valuation,
+  updatedAt,
+  isLoading,
+}: BalanceCardProps) {
   const { hideBalances } = usePrivacyStore();
   const currencyDisplay = useSettingsStore((state) => state.currencyDisplay);
   const { prices, isLoading: pricesLoading } = useFiatPrice();
@@ -31,10 +43,19 @@ export function BalanceCard({ ada, rewardsAda, isLoading }: BalanceCardProps) {
     return `(${rewardsStr} unclaimed rewards)`;
   };
 
+  const hasTokenValue = !!valuation && valuation.tokensValueAda > 0;
+
   const showFiat = currencyDisplay !== 'ADA';
   const fiatValue = showFiat
     ? formatFiatValue(ada, currencyDisplay, prices, hideBalances)
     : null;
+  const portfolioFiatValue =
+    showFiat && hasTokenValue
+      ? formatFiatValue(valuation.totalValueAda, currencyDisplay, prices, hideBalances)
+      : null;
+
+  const formatPercent = (percent: number): string =>
+    hideBalances ? '**%' : `${percent.toFixed(1)}%`;
 
   return (
     <CyberCard glowColor="cyan">
@@ -54,6 +75,34 @@ export function BalanceCard({ ada, rewardsAda, isLoading }: BalanceCardProps) {
       {!isLoading && rewardsAda > 0 && (
         <Text style={styles.breakdown}>{formatRewards(rewardsAda)}</Text>
       )}
+      {!isLoading && hasTokenValue && (
+        <View style={styles.portfolioSection}>
+          <Text style={styles.label}>PORTFOLIO VALUE</Text>
+          <Text style={styles.portfolioValue}>₳{formatAda(valuation.totalValueAda)}</Text>
+          {portfolioFiatValue && (
+            <Text style={styles.allocation}>{pricesLoading ? '...' : portfolioFiatValue}</Text>
+          )}
+          <Text style={styles.allocation}>
+            ADA {formatPercent(valuation.adaAllocationPercent)} · Tokens{' '}
+            {formatPercent(100 - valuation.adaAllocationPercent)}
+          </Text>
+        </View>
+      )}
+      {!isLoading && valuation && valuation.unpricedCount > 0 && (
+        <Text style={styles.unpriced}>
+          {valuation.unpricedCount} token{valuation.unpricedCount === 1 ? '' : 's'} without a
+          market price not included
+        </Text>
+      )}
+      {!isLoading && valuation && valuation.failedCount > 0 && (
+        <Text style={styles.unpriced}>
+          {valuation.failedCount} token{valuation.failedCount === 1 ? '' : 's'} could not be
+          priced and {valuation.failedCount === 1 ? 'is' : 'are'} not included
+        </Text>
+      )}
+      {!isLoading && !!updatedAt && (
+        <Text style={styles.updatedAt}>Updated {formatTimeAgo(updatedAt)}</Text>
+      )}
     </CyberCard>
   );
 }
@@ -104,4 +153,33 @@ const styles = StyleSheet.create({
     color: cyberpunk.neonCyan,
     marginTop: 8,
   },
+  portfolioSection: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: cyberpunk.bgTertiary,
+  },
+  portfolioValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.textPrimary,
+  },
+  allocation: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    marginTop: 4,
+  },
+  unpriced: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 8,
+  },
+  updatedAt: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 12,
+  },
 });
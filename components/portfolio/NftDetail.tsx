@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, Image } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { useSettingsStore, IPFS_GATEWAYS } from '../../lib/stores/settings';
+import { resolveMediaUri, type TokenMetadata } from '../../lib/cardano/token-metadata';
+import { CyberButton } from '../ui/CyberButton';
+
+interface NftDetailProps {
+  nft: TokenMetadata | null;
+  onClose: () => void;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue} selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Full-screen NFT view with image, attributes and on-chain identifiers.
+ */
+export function NftDetail({ nft, onClose }: NftDetailProps) {
+  const [failedUri, setFailedUri] = useState<string | null>(null);
+  const gateway = useSettingsStore((state) => IPFS_GATEWAYS[state.ipfsGateway]);
+  const uri = resolveMediaUri(nft?.image ?? null, gateway);
+
+  return (
+    <Modal
+      visible={!!nft}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="NFT details"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={styles.closeButtonText}>X</Text>
+          </Pressable>
+          <Text style={styles.modalTitle} numberOfLines={1}>
+            {nft?.name ?? ''}
+          </Text>
+        </View>
+
+        {nft && (
+          <ScrollView contentContainerStyle={styles.modalContentContainer}>
+            {uri && failedUri !== uri ? (
+              <Image
+                source={{ uri }}
+                style={styles.image}
+                resizeMode="contain"
+                onError={() => setFailedUri(uri)}
+                accessibilityIgnoresInvertColors
+              />
+            ) : (
+              <View style={[styles.image, styles.imagePlaceholder]}>
+                <Text style={styles.placeholderText}>IMAGE UNAVAILABLE</Text>
+              </View>
+            )}
+
+            {nft.description && <Text style={styles.description}>{nft.description}</Text>}
+
+            {nft.attributes.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>ATTRIBUTES</Text>
+                <View style={styles.attributes}>
+                  {nft.attributes.map((attribute, index) => (
+                    <View key={`${attribute.key}-${index}`} style={styles.attribute}>
+                      <Text style={styles.attributeKey}>{attribute.key.toUpperCase()}</Text>
+                      <Text style={styles.attributeValue} numberOfLines={3}>
+                        {attribute.value}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>ON-CHAIN</Text>
+            <DetailRow label="POLICY ID" value={nft.policyId} />
+            {nft.fingerprint && <DetailRow label="FINGERPRINT" value={nft.fingerprint} />}
+            {nft.mintTxHash && <DetailRow label="MINT TRANSACTION" value={nft.mintTxHash} />}
+            <DetailRow
+              label="STANDARD"
+              value={nft.cip68Label !== null ? `CIP-68 (${nft.cip68Label})` : 'CIP-25'}
+            />
+          </ScrollView>
+        )}
+
+        <View style={styles.modalFooter}>
+          <CyberButton title="CLOSE" variant="secondary" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  modalContentContainer: {
+    padding: 20,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: cyberpunk.bgSecondary,
+  },
+  imagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+  },
+  description: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 2,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  attributes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  attribute: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    borderRadius: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    maxWidth: '100%',
+  },
+  attributeKey: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    letterSpacing: 1,
+  },
+  attributeValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+    marginTop: 2,
+  },
+  detailRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+  },
+  detailLabel: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  detailValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.neonCyan,
+  },
+  modalFooter: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: cyberpunk.bgTertiary,
+  },
+});
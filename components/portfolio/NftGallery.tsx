@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Image } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { CyberCard } from '../ui/CyberCard';
+import { useSettingsStore, IPFS_GATEWAYS } from '../../lib/stores/settings';
+import { resolveMediaUri, type TokenMetadata } from '../../lib/cardano/token-metadata';
+import { NftDetail } from './NftDetail';
+
+interface NftGalleryProps {
+  nfts: TokenMetadata[];
+}
+
+interface PolicyGroup {
+  policyId: string;
+  nfts: TokenMetadata[];
+}
+
+const COLUMNS = 3;
+
+/**
+ * Group NFTs by policy ID, largest collections first.
+ */
+function groupByPolicy(nfts: TokenMetadata[]): PolicyGroup[] {
+  const groups = new Map<string, TokenMetadata[]>();
+  for (const nft of nfts) {
+    const group = groups.get(nft.policyId) ?? [];
+    group.push(nft);
+    groups.set(nft.policyId, group);
+  }
+  return Array.from(groups, ([policyId, items]) => ({
+    policyId,
+    nfts: items.sort((a, b) => a.name.localeCompare(b.name)),
+  })).sort((a, b) => b.nfts.length - a.nfts.length);
+}
+
+function NftThumbnail({ nft, onPress }: { nft: TokenMetadata; onPress: () => void }) {
+  const [failed, setFailed] = useState(false);
+  const gateway = useSettingsStore((state) => IPFS_GATEWAYS[state.ipfsGateway]);
+  const uri = resolveMediaUri(nft.image, gateway);
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={styles.thumbnail}
+      accessibilityRole="button"
+      accessibilityLabel={`NFT ${nft.name}`}
+      accessibilityHint="Opens NFT details"
+    >
+      {uri && !failed ? (
+        <Image
+          source={{ uri }}
+          style={styles.thumbnailImage}
+          onError={() => setFailed(true)}
+          accessibilityIgnoresInvertColors
+        />
+      ) : (
+        <View style={[styles.thumbnailImage, styles.thumbnailPlaceholder]}>
+          <Text style={styles.placeholderText}>NO IMAGE</Text>
+        </View>
+      )}
+      <Text style={styles.thumbnailName} numberOfLines={1}>
+        {nft.name}
+      </Text>
+    </Pressable>
+  );
+}
+
+export function NftGallery({ nfts }: NftGalleryProps) {
+  const [selected, setSelected] = useState<TokenMetadata | null>(null);
+  const groups = useMemo(() => groupByPolicy(nfts), [nfts]);
+
+  if (nfts.length === 0) {
+    return null;
+  }
+
+  return (
+    <CyberCard>
+      <Text style={styles.label}>NFTS ({nfts.length})</Text>
+      {groups.map((group) => (
+        <View key={group.policyId} style={styles.group}>
+          <Text style={styles.policyId} numberOfLines={1}>
+            {group.policyId.slice(0, 8)}...{group.policyId.slice(-8)} ({group.nfts.length})
+          </Text>
+          <View style={styles.grid}>
+            {group.nfts.map((nft) => (
+              <NftThumbnail key={nft.unit} nft={nft} onPress={() => setSelected(nft)} />
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <NftDetail nft={selected} onClose={() => setSelected(null)} />
+    </CyberCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 2,
+    marginBottom: 16,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  policyId: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.neonCyan,
+    marginBottom: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  thumbnail: {
+    width: `${100 / COLUMNS - 3}%`,
+  },
+  thumbnailImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 4,
+    backgroundColor: cyberpunk.bgTertiary,
+  },
+  thumbnailPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  thumbnailName: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,239 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, ActivityIndicator } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import type { CardanoNetwork } from '../../lib/cardano/network';
+import type { SavedWallet } from '../../lib/stores/wallet';
+import { usePortfolioHistory } from '../../lib/hooks/usePortfolioHistory';
+import { PortfolioHistoryChart } from './PortfolioHistoryChart';
+import { CyberButton } from '../ui/CyberButton';
+
+interface PortfolioHistoryProps {
+  visible: boolean;
+  wallet: SavedWallet;
+  network: CardanoNetwork;
+  /** Current total balance in lovelace, the anchor for reconstruction */
+  currentLovelace: string | undefined;
+  onClose: () => void;
+}
+
+function formatSyncedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function HistoryContent({
+  wallet,
+  network,
+  currentLovelace,
+}: Omit<PortfolioHistoryProps, 'visible' | 'onClose'>) {
+  const { snapshots, failedCount, syncedAt, isLoading, isFetching, error, progress, refetch } =
+    usePortfolioHistory(wallet, network, currentLovelace);
+
+  if (isLoading || (snapshots.length === 0 && isFetching)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
+        <Text style={styles.statusText}>
+          {progress?.phase === 'processing' && progress.total > 0
+            ? `PROCESSING ${progress.current}/${progress.total} TRANSACTIONS`
+            : 'FETCHING TRANSACTIONS...'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (error && snapshots.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{error.message || 'Failed to load history'}</Text>
+        <CyberButton title="RETRY" variant="secondary" onPress={() => refetch()} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.contentContainer}>
+      <PortfolioHistoryChart snapshots={snapshots} />
+
+      {failedCount > 0 && (
+        <Text style={styles.warningText}>
+          {failedCount} transaction{failedCount === 1 ? '' : 's'} could not be loaded. Older
+          balances may be inaccurate.
+        </Text>
+      )}
+
+      <View style={styles.syncRow}>
+        <Text style={styles.syncText}>
+          {isFetching
+            ? 'SYNCING...'
+            : syncedAt
+              ? `SYNCED ${formatSyncedAt(syncedAt)}`
+              : 'NOT SYNCED'}
+        </Text>
+        <Pressable
+          onPress={() => refetch()}
+          disabled={isFetching}
+          style={styles.refreshButton}
+          accessibilityRole="button"
+          accessibilityLabel="Rebuild balance history"
+          accessibilityState={{ disabled: isFetching }}
+        >
+          <Text style={[styles.refreshText, isFetching && styles.refreshTextDisabled]}>
+            REFRESH
+          </Text>
+        </Pressable>
+      </View>
+
+      <Text style={styles.footnote}>
+        History is rebuilt from on-chain transactions and staking rewards. Balances are
+        end-of-day in UTC and exclude native tokens.
+      </Text>
+    </ScrollView>
+  );
+}
+
+/**
+ * Full-screen balance history for the active wallet.
+ */
+export function PortfolioHistory({ visible, onClose, ...contentProps }: PortfolioHistoryProps) {
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Balance history"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={styles.closeButtonText}>X</Text>
+          </Pressable>
+          <Text style={styles.modalTitle} numberOfLines={1}>
+            {contentProps.wallet.label.toUpperCase()}
+          </Text>
+        </View>
+
+        {/* Only mounted while open so the history query doesn't run in the background */}
+        {visible && <HistoryContent {...contentProps} />}
+
+        <View style={styles.modalFooter}>
+          <CyberButton title="CLOSE" variant="secondary" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  statusText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+    letterSpacing: 1,
+  },
+  errorText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+    textAlign: 'center',
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+    marginTop: 12,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  syncText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  refreshButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    borderRadius: 4,
+  },
+  refreshText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 1,
+  },
+  refreshTextDisabled: {
+    color: cyberpunk.textMuted,
+  },
+  footnote: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 16,
+  },
+  modalFooter: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: cyberpunk.bgTertiary,
+  },
+});
@@ -0,0 +1,373 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import Svg, { Path, Line, Text as SvgText } from 'react-native-svg';
+import { useQuery } from '@tanstack/react-query';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { lovelaceToAda } from '../../lib/utils/lovelace';
+import {
+  fillDailySeries,
+  toDateKey,
+  type DailySnapshot,
+  type HistoryRange,
+} from '../../lib/utils/portfolio-history';
+import { usePrivacyStore } from '../../lib/stores/privacy';
+import { useSettingsStore } from '../../lib/stores/settings';
+import { usePortfolioHistoryStore } from '../../lib/stores/portfolioHistoryStore';
+import { usePriceHistoryStore } from '../../lib/stores/priceHistoryStore';
+import { getHistoricalAdaPrices } from '../../lib/api/price-history';
+import { useFiatPrice, getCurrencySymbol, type AdaPrices } from '../../lib/hooks/useFiatPrice';
+
+interface PortfolioHistoryChartProps {
+  snapshots: DailySnapshot[];
+}
+
+/** Chart dimension constants */
+const CHART_HEIGHT = 140;
+const LABEL_HEIGHT = 20;
+const Y_AXIS_WIDTH = 50;
+const CHART_WIDTH = 300;
+/** Longer ranges are downsampled to keep the path light */
+const MAX_POINTS = 120;
+/** Past closes never change; only today's is refreshed */
+const DAILY_CLOSES_STALE_MS = 60 * 60 * 1000;
+
+const RANGES: HistoryRange[] = ['7d', '30d', '1y', 'all'];
+
+type ValueMode = 'ada' | 'fiat';
+
+interface ChartPoint {
+  date: string;
+  value: number;
+}
+
+function downsample<T>(points: T[]): T[] {
+  if (points.length <= MAX_POINTS) return points;
+  const step = Math.ceil(points.length / MAX_POINTS);
+  const sampled = points.filter((_, index) => index % step === 0);
+  // Always end on today's value
+  if (sampled[sampled.length - 1] !== points[points.length - 1]) {
+    sampled.push(points[points.length - 1]);
+  }
+  return sampled;
+}
+
+function formatShort(value: number): string {
+  if (Math.abs(value) >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  if (Math.abs(value) >= 100) return value.toFixed(0);
+  return value.toFixed(2);
+}
+
+export function PortfolioHistoryChart({ snapshots }: PortfolioHistoryChartProps) {
+  const [range, setRange] = useState<HistoryRange>('30d');
+  const [mode, setMode] = useState<ValueMode>('ada');
+  const { hideBalances } = usePrivacyStore();
+  const currencyDisplay = useSettingsStore((state) => state.currencyDisplay);
+  const dailyPrices = usePortfolioHistoryStore((state) => state.dailyPrices);
+  const { prices: currentPrices } = useFiatPrice();
+
+  const fiatAvailable = currencyDisplay !== 'ADA';
+  const activeMode: ValueMode = fiatAvailable ? mode : 'ada';
+  const priceKey = currencyDisplay.toLowerCase() as keyof AdaPrices;
+  const dailyCloses = usePriceHistoryStore((state) => state.closes[priceKey]);
+
+  const series = useMemo(() => downsample(fillDailySeries(snapshots, range)), [snapshots, range]);
+
+  // Fetches the closes the store is missing; the chart reads them from the store
+  const { isFetching: closesFetching } = useQuery({
+    queryKey: [
+      'ada-daily-closes',
+      priceKey,
+      range,
+      series[0]?.date,
+      series[series.length - 1]?.date,
+    ],
+    queryFn: () => getHistoricalAdaPrices(priceKey, series.map((snapshot) => snapshot.date)),
+    enabled: activeMode === 'fiat' && series.length > 0,
+    staleTime: DAILY_CLOSES_STALE_MS,
+  });
+
+  // Memoize chart data and calculations to prevent re-computation on every render
+  const { points, usedCurrentPrice } = useMemo(() => {
+    const today = toDateKey(Math.floor(Date.now() / 1000));
+    let fallbackUsed = false;
+
+    const chartPoints: ChartPoint[] = series.map((snapshot) => {
+      // Incomplete history can dip below zero; a balance cannot
+      const ada = Math.max(0, lovelaceToAda(snapshot.lovelace));
+      if (activeMode === 'ada') {
+        return { date: snapshot.date, value: ada };
+      }
+      // Daily close first, then the price the app saw that day
+      const historical = dailyCloses[snapshot.date] || dailyPrices[snapshot.date]?.[priceKey];
+      if (!historical && snapshot.date !== today) fallbackUsed = true;
+      const rate = historical || currentPrices?.[priceKey] || 0;
+      return { date: snapshot.date, value: ada * rate };
+    });
+
+    return { points: chartPoints, usedCurrentPrice: fallbackUsed };
+  }, [series, activeMode, dailyCloses, dailyPrices, priceKey, currentPrices]);
+
+  const symbol = activeMode === 'ada' ? '₳' : getCurrencySymbol(currencyDisplay);
+  const maxValue = Math.max(...points.map((p) => p.value), 0);
+  const first = points[0]?.value ?? 0;
+  const last = points[points.length - 1]?.value ?? 0;
+  const change = last - first;
+  const changePercent = first > 0 ? (change / first) * 100 : null;
+
+  const plotWidth = CHART_WIDTH - Y_AXIS_WIDTH;
+  const path = points
+    .map((point, index) => {
+      const x = Y_AXIS_WIDTH + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : 0);
+      const y = maxValue > 0 ? CHART_HEIGHT - (point.value / maxValue) * (CHART_HEIGHT - 4) : CHART_HEIGHT;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  const formatValue = (value: number): string =>
+    hideBalances ? '****' : `${symbol}${formatShort(value)}`;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>BALANCE HISTORY</Text>
+
+      <View style={styles.controlsRow}>
+        <View style={styles.segment}>
+          {RANGES.map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => setRange(option)}
+              style={[styles.segmentButton, range === option && styles.segmentButtonActive]}
+              accessibilityRole="radio"
+              accessibilityLabel={`Show ${option} range`}
+              accessibilityState={{ selected: range === option }}
+            >
+              <Text style={[styles.segmentText, range === option && styles.segmentTextActive]}>
+                {option.toUpperCase()}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        {fiatAvailable && (
+          <View style={styles.segment}>
+            {(['ada', 'fiat'] as ValueMode[]).map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setMode(option)}
+                style={[styles.segmentButton, mode === option && styles.segmentButtonActive]}
+                accessibilityRole="radio"
+                accessibilityLabel={option === 'ada' ? 'Show in ADA' : `Show in ${currencyDisplay}`}
+                accessibilityState={{ selected: mode === option }}
+              >
+                <Text style={[styles.segmentText, mode === option && styles.segmentTextActive]}>
+                  {option === 'ada' ? 'ADA' : currencyDisplay}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {points.length < 2 ? (
+        <Text style={styles.emptyText}>Not enough history for this range</Text>
+      ) : (
+        <View style={styles.chartContainer}>
+          <Svg
+            width={CHART_WIDTH}
+            height={CHART_HEIGHT + LABEL_HEIGHT}
+            accessibilityLabel={`Balance history chart over ${range}. Current value ${formatValue(last)}`}
+            accessible={true}
+            accessibilityRole="image"
+          >
+            {/* Y-axis labels */}
+            <SvgText
+              x={Y_AXIS_WIDTH - 8}
+              y={12}
+              fill={cyberpunk.textMuted}
+              fontSize={10}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              {formatValue(maxValue)}
+            </SvgText>
+            <SvgText
+              x={Y_AXIS_WIDTH - 8}
+              y={CHART_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={10}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              0
+            </SvgText>
+
+            {/* Horizontal grid lines */}
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={0}
+              x2={CHART_WIDTH}
+              y2={0}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+            />
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={CHART_HEIGHT / 2}
+              x2={CHART_WIDTH}
+              y2={CHART_HEIGHT / 2}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+              strokeDasharray="4,4"
+            />
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={CHART_HEIGHT}
+              x2={CHART_WIDTH}
+              y2={CHART_HEIGHT}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+            />
+
+            {/* Balance line */}
+            <Path d={path} stroke={cyberpunk.neonCyan} strokeWidth={2} fill="none" />
+
+            {/* Date labels (first and last) */}
+            <SvgText
+              x={Y_AXIS_WIDTH}
+              y={CHART_HEIGHT + LABEL_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={9}
+              fontFamily={typography.fonts.mono}
+            >
+              {points[0].date}
+            </SvgText>
+            <SvgText
+              x={CHART_WIDTH}
+              y={CHART_HEIGHT + LABEL_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={9}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              {points[points.length - 1].date}
+            </SvgText>
+          </Svg>
+        </View>
+      )}
+
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Current</Text>
+          <Text style={styles.statValue}>{formatValue(last)}</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Change ({range})</Text>
+          <Text style={[styles.statValue, change < 0 ? styles.negative : styles.positive]}>
+            {hideBalances
+              ? '****'
+              : `${change >= 0 ? '+' : '-'}${symbol}${formatShort(Math.abs(change))}`}
+            {changePercent !== null && !hideBalances && ` (${changePercent.toFixed(1)}%)`}
+          </Text>
+        </View>
+      </View>
+
+      {activeMode === 'fiat' && usedCurrentPrice && !closesFetching && (
+        <Text style={styles.note}>
+          Days without a historical price are valued at today&apos;s {currencyDisplay} rate
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginBottom: 16,
+  },
+  controlsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segmentButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+  },
+  segmentButtonActive: {
+    borderColor: cyberpunk.neonCyan,
+    backgroundColor: cyberpunk.bgTertiary,
+  },
+  segmentText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  segmentTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+  emptyText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  chartContainer: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  statItem: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderRadius: 4,
+    padding: 12,
+  },
+  statLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.base,
+    color: cyberpunk.textPrimary,
+  },
+  positive: {
+    color: cyberpunk.success,
+  },
+  negative: {
+    color: cyberpunk.error,
+  },
+  note: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 12,
+  },
+});
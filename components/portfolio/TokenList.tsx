@@ -1,47 +1,134 @@
-import React from 'react';
-import { View, Text, StyleSheet, FlatList } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, Image } from 'react-native';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { CyberCard } from '../ui/CyberCard';
 import { TokenBalance } from '../../lib/hooks/useWalletData';
 import { usePrivacyStore } from '../../lib/stores/privacy';
+import { useSettingsStore, IPFS_GATEWAYS } from '../../lib/stores/settings';
+import { useFiatPrice, formatFiatValue } from '../../lib/hooks/useFiatPrice';
+import { useTokenMetadata } from '../../lib/hooks/useTokenMetadata';
+import { resolveMediaUri, type TokenMetadata } from '../../lib/cardano/token-metadata';
+import { formatFingerprint, formatTokenQuantityShort } from '../../lib/utils/token';
+import type { PortfolioValuation, TokenValuation } from '../../lib/utils/valuation';
 
 interface TokenListProps {
   tokens: TokenBalance[];
+  /** Token values; when present tokens are sorted by value */
+  valuation?: PortfolioValuation;
   isLoading?: boolean;
 }
 
-function TokenItem({ token }: { token: TokenBalance }) {
+const LOGO_SIZE = 32;
+
+function TokenLogo({ metadata, fallbackName }: { metadata?: TokenMetadata; fallbackName: string }) {
+  const [failed, setFailed] = useState(false);
+  const gateway = useSettingsStore((state) => IPFS_GATEWAYS[state.ipfsGateway]);
+  const uri = resolveMediaUri(metadata?.logo ?? null, gateway);
+
+  if (!uri || failed) {
+    return (
+      <View style={[styles.logo, styles.logoPlaceholder]}>
+        <Text style={styles.logoInitial}>{fallbackName.charAt(0).toUpperCase()}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <Image
+      source={{ uri }}
+      style={styles.logo}
+      onError={() => setFailed(true)}
+      accessibilityIgnoresInvertColors
+    />
+  );
+}
+
+interface TokenItemProps {
+  token: TokenBalance;
+  metadata?: TokenMetadata;
+  valuation?: TokenValuation;
+}
+
+function TokenValue({ valuation }: { valuation: TokenValuation }) {
+  const { hideBalances } = usePrivacyStore();
+  const currencyDisplay = useSettingsStore((state) => state.currencyDisplay);
+  const { prices } = useFiatPrice();
+
+  if (valuation.status === 'pending') {
+    return <Text style={styles.tokenValue}>...</Text>;
+  }
+  if (valuation.status === 'failed') {
+    return <Text style={styles.unpriced}>PRICE ERROR</Text>;
+  }
+  if (valuation.status === 'unpriced' || valuation.valueAda === null) {
+    return <Text style={styles.unpriced}>UNPRICED</Text>;
+  }
+
+  const value =
+    currencyDisplay === 'ADA'
+      ? hideBalances
+        ? '****'
+        : `₳${valuation.valueAda.toLocaleString(undefined, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`
+      : formatFiatValue(valuation.valueAda, currencyDisplay, prices, hideBalances);
+  const allocation =
+    valuation.allocationPercent !== null && !hideBalances
+      ? ` · ${valuation.allocationPercent.toFixed(1)}%`
+      : '';
+
+  return (
+    <Text style={styles.tokenValue}>
+      {value}
+      {allocation}
+    </Text>
+  );
+}
+
+function TokenItem({ token, metadata, valuation }: TokenItemProps) {
   const { hideBalances } = usePrivacyStore();
 
-  const formatQuantity = (qty: string): string => {
-    if (hideBalances) return '****';
-    const num = BigInt(qty);
-    if (num >= BigInt(1_000_000)) {
-      return (Number(num) / 1_000_000).toFixed(2) + 'M';
-    }
-    if (num >= BigInt(1_000)) {
-      return (Number(num) / 1_000).toFixed(2) + 'K';
-    }
-    return qty;
-  };
+  const decimals = metadata?.decimals ?? 0;
+  const name = metadata?.name ?? token.displayName;
+  const ticker = metadata?.ticker;
+  const quantity = hideBalances ? '****' : formatTokenQuantityShort(token.quantity, decimals);
+  const identifier = metadata?.fingerprint
+    ? formatFingerprint(metadata.fingerprint)
+    : `${token.policyId.slice(0, 8)}...${token.policyId.slice(-8)}`;
 
   return (
     <View style={styles.tokenItem}>
+      <TokenLogo metadata={metadata} fallbackName={ticker || name} />
       <View style={styles.tokenInfo}>
         <Text style={styles.tokenName} numberOfLines={1}>
-          {token.displayName}
+          {ticker && ticker !== name ? `${ticker} · ${name}` : name}
         </Text>
         <Text style={styles.policyId} numberOfLines={1}>
-          {token.policyId.slice(0, 8)}...{token.policyId.slice(-8)}
+          {identifier}
         </Text>
       </View>
-      <Text style={styles.tokenQuantity}>{formatQuantity(token.quantity)}</Text>
+      <View style={styles.tokenAmounts}>
+        <Text style={styles.tokenQuantity}>{quantity}</Text>
+        {valuation && <TokenValue valuation={valuation} />}
+      </View>
     </View>
   );
 }
 
-export function TokenList({ tokens, isLoading }: TokenListProps) {
+export function TokenList({ tokens, valuation, isLoading }: TokenListProps) {
+  const { metadata } = useTokenMetadata(tokens.map((t) => t.unit));
+
+  // Highest value first; unpriced and pending tokens keep their order at the end
+  const sortedTokens = useMemo(() => {
+    if (!valuation) return tokens;
+    return [...tokens].sort(
+      (a, b) =>
+        (valuation.tokens[b.unit]?.valueAda ?? -1) - (valuation.tokens[a.unit]?.valueAda ?? -1)
+    );
+  }, [tokens, valuation]);
+
   if (isLoading) {
     return (
       <CyberCard>
@@ -64,9 +151,15 @@ export function TokenList({ tokens, isLoading }: TokenListProps) {
     <CyberCard>
       <Text style={styles.label}>TOKENS ({tokens.length})</Text>
       <FlatList
-        data={tokens}
+        data={sortedTokens}
         keyExtractor={(item) => item.unit}
-        renderItem={({ item }) => <TokenItem token={item} />}
+        renderItem={({ item }) => (
+          <TokenItem
+            token={item}
+            metadata={metadata[item.unit]}
+            valuation={valuation?.tokens[item.unit]}
+          />
+        )}
         scrollEnabled={false}
         ItemSeparatorComponent={() => <View style={styles.separator} />}
       />
@@ -95,6 +188,22 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 12,
   },
+  logo: {
+    width: LOGO_SIZE,
+    height: LOGO_SIZE,
+    borderRadius: LOGO_SIZE / 2,
+    marginRight: 12,
+  },
+  logoPlaceholder: {
+    backgroundColor: cyberpunk.bgTertiary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  logoInitial: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+  },
   tokenInfo: {
     flex: 1,
     marginRight: 16,
@@ -116,6 +225,22 @@ const styles = StyleSheet.create({
     color: cyberpunk.neonCyan,
     fontWeight: typography.weights.semibold,
   },
+  tokenAmounts: {
+    alignItems: 'flex-end',
+  },
+  tokenValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    marginTop: 2,
+  },
+  unpriced: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    letterSpacing: 1,
+    marginTop: 2,
+  },
   separator: {
     height: 1,
     backgroundColor: cyberpunk.bgTertiary,
@@ -0,0 +1,114 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { CyberCard } from '../ui/CyberCard';
+import { usePrivacyStore } from '../../lib/stores/privacy';
+import type { WalletBreakdownEntry } from '../../lib/hooks/useWalletData';
+
+interface WalletBreakdownProps {
+  entries: WalletBreakdownEntry[];
+  totalAda: number;
+}
+
+export function WalletBreakdown({ entries, totalAda }: WalletBreakdownProps) {
+  const { hideBalances } = usePrivacyStore();
+
+  const formatAda = (amount: number): string => {
+    if (hideBalances) return '****';
+    return amount.toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  return (
+    <CyberCard>
+      <Text style={styles.label}>BY WALLET</Text>
+      {entries.map(({ wallet, balance, isLoading, error, isDuplicate }) => {
+        const ada = balance?.ada ?? 0;
+        const share = totalAda > 0 && !isDuplicate ? (ada / totalAda) * 100 : 0;
+
+        let status: string;
+        if (isLoading) {
+          status = '...';
+        } else if (error) {
+          status = 'ERROR';
+        } else {
+          status = `₳${formatAda(ada)}`;
+        }
+
+        return (
+          <View key={wallet.id} style={styles.row}>
+            <View style={[styles.colorDot, { backgroundColor: wallet.color }]} />
+            <View style={styles.info}>
+              <Text style={styles.walletLabel} numberOfLines={1}>
+                {wallet.label}
+              </Text>
+              {isDuplicate && <Text style={styles.note}>Same account as another wallet</Text>}
+            </View>
+            <View style={styles.amounts}>
+              <Text style={[styles.amount, error ? styles.error : null]}>{status}</Text>
+              {!isLoading && !error && !isDuplicate && (
+                <Text style={styles.share}>{share.toFixed(1)}%</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </CyberCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 2,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 10,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  info: {
+    flex: 1,
+  },
+  walletLabel: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  note: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 2,
+  },
+  amounts: {
+    alignItems: 'flex-end',
+  },
+  amount: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  error: {
+    color: cyberpunk.error,
+  },
+  share: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import {
+  useWalletStore,
+  WALLET_COLORS,
+  WALLET_LABEL_MAX_LENGTH,
+  type SavedWallet,
+} from '../../lib/stores/wallet';
+import { CyberButton } from '../ui/CyberButton';
+
+interface WalletEditorProps {
+  wallet: SavedWallet | null;
+  onClose: () => void;
+}
+
+function formatAddress(addr: string): string {
+  if (addr.length <= 20) return addr;
+  return addr.slice(0, 12) + '...' + addr.slice(-8);
+}
+
+/**
+ * Modal for renaming, recoloring and removing a saved wallet.
+ */
+export function WalletEditor({ wallet, onClose }: WalletEditorProps) {
+  const updateWallet = useWalletStore((state) => state.updateWallet);
+  const removeWallet = useWalletStore((state) => state.removeWallet);
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState<string>(WALLET_COLORS[0]);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+
+  // Reset the form whenever a different wallet is opened
+  useEffect(() => {
+    if (wallet) {
+      setLabel(wallet.label);
+      setColor(wallet.color);
+      setConfirmRemove(false);
+    }
+  }, [wallet]);
+
+  const handleSave = () => {
+    if (!wallet) return;
+    updateWallet(wallet.id, { label, color });
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!wallet) return;
+    if (!confirmRemove) {
+      setConfirmRemove(true);
+      return;
+    }
+    removeWallet(wallet.id);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={!!wallet}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Edit wallet"
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.sheet}>
+          <Text style={styles.title}>EDIT WALLET</Text>
+          {wallet && (
+            <Text style={styles.address}>
+              {formatAddress(wallet.address || wallet.stakeAddress || '')}
+            </Text>
+          )}
+
+          <Text style={styles.label}>LABEL</Text>
+          <TextInput
+            style={styles.input}
+            value={label}
+            onChangeText={setLabel}
+            placeholderTextColor={cyberpunk.textMuted}
+            maxLength={WALLET_LABEL_MAX_LENGTH}
+            autoCorrect={false}
+            accessibilityLabel="Wallet label"
+          />
+
+          <Text style={styles.label}>COLOR</Text>
+          <View style={styles.colorRow}>
+            {WALLET_COLORS.map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setColor(option)}
+                style={[
+                  styles.colorSwatch,
+                  { backgroundColor: option },
+                  color === option && styles.colorSwatchSelected,
+                ]}
+                accessibilityRole="radio"
+                accessibilityLabel={`Color ${option}`}
+                accessibilityState={{ checked: color === option }}
+              />
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            <CyberButton title="SAVE" onPress={handleSave} disabled={!label.trim()} />
+            <CyberButton title="CANCEL" variant="secondary" onPress={onClose} />
+          </View>
+
+          <Pressable
+            onPress={handleRemove}
+            style={styles.removeButton}
+            accessibilityRole="button"
+            accessibilityLabel={confirmRemove ? 'Confirm remove wallet' : 'Remove wallet'}
+          >
+            <Text style={styles.removeText}>
+              {confirmRemove ? 'TAP AGAIN TO REMOVE' : 'REMOVE WALLET'}
+            </Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 20,
+  },
+  title: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.lg,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 3,
+    marginBottom: 4,
+  },
+  address: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginBottom: 16,
+  },
+  label: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.electricBlue,
+    letterSpacing: 2,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    borderRadius: 4,
+    padding: 12,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: cyberpunk.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  removeText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.error,
+    letterSpacing: 1,
+  },
+});
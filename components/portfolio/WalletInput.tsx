@@ -10,7 +10,14 @@ import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { CyberCard } from '../ui/CyberCard';
 import { CyberButton } from '../ui/CyberButton';
-import { useWalletStore } from '../../lib/stores/wallet';
+import {
+  useWalletStore,
+  WALLET_LABEL_MAX_LENGTH,
+  type NetworkWallet,
+} from '../../lib/stores/wallet';
+import { useSettingsStore } from '../../lib/stores/settings';
+import { NETWORK_CONFIG } from '../../lib/cardano/network';
+import { validateAddress, deriveStakeAddress } from '../../lib/cardano/address';
 import {
   isHandle,
   resolveHandle,
@@ -23,9 +30,23 @@ interface WalletInputProps {
 
 export function WalletInput({ onConnected }: WalletInputProps) {
   const [inputValue, setInputValue] = useState('');
+  const [label, setLabel] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
-  const { setAddress, setStakeAddress } = useWalletStore();
+  const addWallet = useWalletStore((state) => state.addWallet);
+  const network = useSettingsStore((state) => state.network);
+  const { addressPrefix, stakeAddressPrefix } = NETWORK_CONFIG[network];
+
+  const saveWallet = (wallet: NetworkWallet, walletLabel: string) => {
+    const walletId = addWallet(network, { ...wallet, label: walletLabel });
+    if (!walletId) {
+      setError('Wallet limit reached for this network. Remove a wallet first.');
+      return;
+    }
+    setInputValue('');
+    setLabel('');
+    onConnected?.();
+  };
 
   const validateAndSaveAddress = async () => {
     const trimmed = inputValue.trim();
@@ -41,33 +62,29 @@ export function WalletInput({ onConnected }: WalletInputProps) {
     try {
       // Check if input is an ADA Handle
       if (isHandle(trimmed)) {
-        const resolution = await resolveHandle(trimmed);
-        setAddress(resolution.address);
-        setStakeAddress(resolution.stakeAddress);
-        onConnected?.();
+        const resolution = await resolveHandle(trimmed, network);
+        saveWallet(
+          { address: resolution.address, stakeAddress: resolution.stakeAddress },
+          // Default the label to the handle itself
+          label || trimmed
+        );
         return;
       }
 
-      // Basic Cardano address validation
-      const isValidFormat =
-        (trimmed.startsWith('addr1') && trimmed.length >= 58) ||
-        (trimmed.startsWith('stake1') && trimmed.length >= 54);
-
-      if (!isValidFormat) {
-        setError('Invalid Cardano address format');
+      // Decode and checksum-verify the address for the selected network
+      const validation = validateAddress(trimmed, network);
+      if (!validation.valid || !validation.decoded) {
+        setError(validation.error ?? 'Invalid Cardano address format');
         return;
       }
 
-      // Determine if it's a stake address or regular address
-      if (trimmed.startsWith('stake1')) {
-        setStakeAddress(trimmed);
-        setAddress(null);
+      // Stake addresses connect directly; payment addresses also get their
+      // stake address derived locally so staking tools work without a lookup
+      if (validation.decoded.kind === 'reward') {
+        saveWallet({ address: null, stakeAddress: trimmed }, label);
       } else {
-        setAddress(trimmed);
-        setStakeAddress(null);
+        saveWallet({ address: trimmed, stakeAddress: deriveStakeAddress(trimmed) }, label);
       }
-
-      onConnected?.();
     } catch (err) {
       if (err instanceof HandleResolutionError) {
         setError(err.message);
@@ -84,7 +101,7 @@ export function WalletInput({ onConnected }: WalletInputProps) {
     <CyberCard glowColor="cyan">
       <Text style={styles.label}>WALLET ADDRESS</Text>
       <Text style={styles.hint}>
-        Enter address (addr1...), stake address (stake1...), or $handle
+        Enter address ({addressPrefix}1...), stake address ({stakeAddressPrefix}1...), or $handle
       </Text>
 
       <TextInput
@@ -94,7 +111,7 @@ export function WalletInput({ onConnected }: WalletInputProps) {
           setInputValue(text);
           setError(null);
         }}
-        placeholder="addr1q... or $handle"
+        placeholder={`${addressPrefix}1q... or $handle`}
         placeholderTextColor={cyberpunk.textMuted}
         autoCapitalize="none"
         autoCorrect={false}
@@ -104,6 +121,19 @@ export function WalletInput({ onConnected }: WalletInputProps) {
         accessibilityHint="Enter a Cardano wallet address, stake address, or ADA Handle"
       />
 
+      <Text style={[styles.label, styles.labelSpacing]}>LABEL (OPTIONAL)</Text>
+      <TextInput
+        style={styles.labelInput}
+        value={label}
+        onChangeText={setLabel}
+        placeholder="e.g. Personal, Treasury, Cold storage"
+        placeholderTextColor={cyberpunk.textMuted}
+        autoCorrect={false}
+        maxLength={WALLET_LABEL_MAX_LENGTH}
+        accessibilityLabel="Wallet label input"
+        accessibilityHint="Optional name shown in the wallet list"
+      />
+
       {error && <Text style={styles.error}>{error}</Text>}
 
       <View style={styles.buttonContainer}>
@@ -147,6 +177,19 @@ const styles = StyleSheet.create({
     minHeight: 60,
     textAlignVertical: 'top',
   },
+  labelSpacing: {
+    marginTop: 16,
+  },
+  labelInput: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    borderRadius: 4,
+    padding: 12,
+  },
   error: {
     fontFamily: typography.fonts.primary,
     fontSize: typography.sizes.xs,
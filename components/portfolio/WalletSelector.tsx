@@ -0,0 +1,120 @@
+import { ScrollView, Pressable, Text, View, StyleSheet } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import type { SavedWallet } from '../../lib/stores/wallet';
+
+interface WalletSelectorProps {
+  wallets: SavedWallet[];
+  activeWalletId: string | null;
+  showAllWallets: boolean;
+  onSelectWallet: (walletId: string) => void;
+  onSelectAll: () => void;
+  onAddWallet: () => void;
+  /** Long-press opens the wallet editor */
+  onEditWallet: (walletId: string) => void;
+}
+
+export function WalletSelector({
+  wallets,
+  activeWalletId,
+  showAllWallets,
+  onSelectWallet,
+  onSelectAll,
+  onAddWallet,
+  onEditWallet,
+}: WalletSelectorProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {wallets.length > 1 && (
+        <Pressable
+          onPress={onSelectAll}
+          style={[styles.chip, showAllWallets && styles.chipActive]}
+          accessibilityRole="button"
+          accessibilityLabel="Show all wallets combined"
+          accessibilityState={{ selected: showAllWallets }}
+        >
+          <Text style={[styles.chipText, showAllWallets && styles.chipTextActive]}>ALL</Text>
+        </Pressable>
+      )}
+
+      {wallets.map((wallet) => {
+        const isActive = !showAllWallets && wallet.id === activeWalletId;
+        return (
+          <Pressable
+            key={wallet.id}
+            onPress={() => onSelectWallet(wallet.id)}
+            onLongPress={() => onEditWallet(wallet.id)}
+            style={[styles.chip, isActive && { borderColor: wallet.color }]}
+            accessibilityRole="button"
+            accessibilityLabel={`Wallet ${wallet.label}`}
+            accessibilityHint="Long press to rename, recolor or remove"
+            accessibilityState={{ selected: isActive }}
+          >
+            <View style={[styles.colorDot, { backgroundColor: wallet.color }]} />
+            <Text
+              style={[styles.chipText, isActive && { color: wallet.color }]}
+              numberOfLines={1}
+            >
+              {wallet.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+
+      <Pressable
+        onPress={onAddWallet}
+        style={[styles.chip, styles.addChip]}
+        accessibilityRole="button"
+        accessibilityLabel="Add wallet"
+      >
+        <Text style={[styles.chipText, styles.addChipText]}>+ ADD</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    backgroundColor: cyberpunk.bgSecondary,
+    maxWidth: 180,
+  },
+  chipActive: {
+    borderColor: cyberpunk.neonCyan,
+  },
+  chipText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    letterSpacing: 1,
+  },
+  chipTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+  colorDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  addChip: {
+    borderStyle: 'dashed',
+  },
+  addChipText: {
+    color: cyberpunk.electricBlue,
+  },
+});
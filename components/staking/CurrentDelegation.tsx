@@ -6,6 +6,8 @@ import { typography } from '../../lib/theme/typography';
 import { formatAda } from '../../lib/utils/lovelace';
 import { stakingApi, STAKING_CONFIG, getSaturationColor, getPoolStatus } from '../../lib/staking';
 import { usePoolAlerts } from '../../lib/hooks/usePoolAlerts';
+import { useSettingsStore } from '../../lib/stores/settings';
+import { formatTimeAgo } from '../../lib/utils/time';
 import { AlertBanner } from './AlertBanner';
 import type { DelegationInfo } from '../../lib/staking';
 
@@ -17,6 +19,8 @@ interface CurrentDelegationProps {
   isLoading?: boolean;
   /** Error state when delegation is passed from parent */
   error?: Error | null;
+  /** When delegation was fetched (ms), passed from parent with the data */
+  updatedAt?: number;
 }
 
 export function CurrentDelegation({
@@ -24,19 +28,23 @@ export function CurrentDelegation({
   delegation,
   isLoading: delegationLoading = false,
   error: delegationError = null,
+  updatedAt: delegationUpdatedAt,
 }: CurrentDelegationProps) {
 
   // Dependent query: only runs when delegation has a poolId
-  // queryKey includes poolId so it refetches when pool changes
+  // queryKey includes poolId so it refetches when pool changes, and network
+  // because pool IDs use the same bech32 prefix on every network
+  const network = useSettingsStore((state) => state.network);
   const poolId = delegation?.poolId;
   const {
     data: pool,
     isLoading: poolLoading,
     error: poolError,
+    dataUpdatedAt: poolUpdatedAt,
   } = useQuery({
-    queryKey: ['pool', poolId],
+    queryKey: ['pool', network, poolId],
     queryFn: ({ queryKey }) => {
-      const [, id] = queryKey;
+      const [, , id] = queryKey;
       if (!id) throw new Error('No pool ID');
       return stakingApi.getPoolDetails(id as string);
     },
@@ -45,7 +53,11 @@ export function CurrentDelegation({
   });
 
   const isLoading = delegationLoading || poolLoading;
-  const error = delegationError || poolError;
+  // A failed refresh keeps showing cached data rather than an error
+  const error = (delegation ? null : delegationError) || (pool ? null : poolError);
+  // Report the older of the two fetches so the label never overstates freshness
+  const updatedAt =
+    delegationUpdatedAt && pool ? Math.min(delegationUpdatedAt, poolUpdatedAt) : delegationUpdatedAt;
 
   // Hook must be called unconditionally before any early returns
   const { alerts, hasAny: hasAlerts } = usePoolAlerts(pool);
@@ -190,6 +202,8 @@ export function CurrentDelegation({
           {formatAda(delegation.totalRewardsEarned)} ADA
         </Text>
       </View>
+
+      {!!updatedAt && <Text style={styles.updatedAt}>Updated {formatTimeAgo(updatedAt)}</Text>}
     </View>
   );
 }
@@ -360,4 +374,11 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.lg,
     color: cyberpunk.success,
   },
+  updatedAt: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    marginTop: 12,
+  },
 });
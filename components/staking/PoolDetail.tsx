@@ -0,0 +1,464 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Linking,
+  Alert,
+} from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { formatAda } from '../../lib/utils/lovelace';
+import {
+  stakingApi,
+  STAKING_CONFIG,
+  getSaturationColor,
+  getPoolStatus,
+  type MetadataHashStatus,
+} from '../../lib/staking';
+import { usePoolAlerts } from '../../lib/hooks/usePoolAlerts';
+import { useSettingsStore } from '../../lib/stores/settings';
+import { CyberButton } from '../ui/CyberButton';
+import { AlertBanner } from './AlertBanner';
+import { PoolHistoryChart } from './PoolHistoryChart';
+
+interface PoolDetailProps {
+  /** Pool to show; null hides the modal */
+  poolId: string | null;
+  onClose: () => void;
+}
+
+const METADATA_STATUS: Record<MetadataHashStatus, { text: string; color: string }> = {
+  valid: { text: 'HASH VALID', color: cyberpunk.success },
+  mismatch: { text: 'HASH MISMATCH', color: cyberpunk.error },
+  unreachable: { text: 'UNVERIFIED', color: cyberpunk.warning },
+  none: { text: 'NO METADATA', color: cyberpunk.textMuted },
+};
+
+function Stat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={[styles.statValue, color ? { color } : null]}>{value}</Text>
+    </View>
+  );
+}
+
+function ListRow({ label, value }: { label?: string; value: string }) {
+  return (
+    <View style={styles.listRow}>
+      {label && <Text style={styles.statLabel}>{label}</Text>}
+      <Text style={styles.listValue} numberOfLines={1} ellipsizeMode="middle" selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+function formatBlockDate(blockTime: number | null): string {
+  return blockTime === null ? 'Date unavailable' : new Date(blockTime * 1000).toLocaleDateString();
+}
+
+async function openHomepage(url: string) {
+  try {
+    const canOpen = await Linking.canOpenURL(url);
+    if (canOpen) {
+      await Linking.openURL(url);
+    } else {
+      Alert.alert('Unable to Open', 'Could not open the link. Please try again.');
+    }
+  } catch {
+    Alert.alert('Unable to Open', 'Could not open the link. Please try again.');
+  }
+}
+
+/**
+ * Full-screen stake pool view opened from the pool explorer: current stats,
+ * per-epoch history charts, owners, relays, certificates and whether the
+ * off-chain metadata still matches its registered hash.
+ */
+export function PoolDetail({ poolId, onClose }: PoolDetailProps) {
+  // Shares the ['pool', network, poolId] cache with CurrentDelegation
+  const network = useSettingsStore((state) => state.network);
+  const {
+    data: pool,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['pool', network, poolId],
+    queryFn: ({ queryKey }) => {
+      const [, , id] = queryKey;
+      if (!id) throw new Error('No pool ID');
+      return stakingApi.getPoolDetails(id as string);
+    },
+    enabled: !!poolId,
+    staleTime: STAKING_CONFIG.POOL_DETAILS_CACHE_TTL_MS,
+  });
+
+  // Full history and registration details are slower and change once per epoch
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: ['pool-profile', network, poolId],
+    queryFn: ({ queryKey }) => {
+      const [, , id] = queryKey;
+      if (!id) throw new Error('No pool ID');
+      return stakingApi.getPoolProfile(id as string);
+    },
+    enabled: !!poolId,
+    staleTime: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS,
+  });
+
+  const { alerts, hasAny: hasAlerts } = usePoolAlerts(pool);
+  const status = pool ? getPoolStatus(pool) : null;
+
+  return (
+    <Modal
+      visible={!!poolId}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Pool details"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={styles.closeButtonText}>X</Text>
+          </Pressable>
+          <Text style={styles.modalTitle} numberOfLines={1}>
+            {pool ? `[${pool.ticker}]` : 'POOL'}
+          </Text>
+        </View>
+
+        {isLoading && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
+            <Text style={styles.statusText}>LOADING POOL...</Text>
+          </View>
+        )}
+
+        {!pool && error && (
+          <View style={styles.centered}>
+            <Text style={styles.errorText}>
+              {error instanceof Error ? error.message : 'Failed to load pool'}
+            </Text>
+            <CyberButton title="RETRY" variant="secondary" onPress={() => refetch()} />
+          </View>
+        )}
+
+        {pool && status && (
+          <ScrollView contentContainerStyle={styles.modalContentContainer}>
+            <View style={styles.identity}>
+              <Text style={styles.poolName}>{pool.name}</Text>
+              <View style={[styles.statusBadge, { borderColor: status.color }]}>
+                <Text style={[styles.statusBadgeText, { color: status.color }]}>
+                  {status.text}
+                </Text>
+              </View>
+            </View>
+
+            {hasAlerts && <AlertBanner alerts={alerts} />}
+
+            {pool.description !== '' && (
+              <Text style={styles.description}>{pool.description}</Text>
+            )}
+            {pool.homepage !== '' && (
+              <Pressable
+                onPress={() => openHomepage(pool.homepage)}
+                accessibilityRole="link"
+                accessibilityLabel={`Open pool homepage ${pool.homepage}`}
+              >
+                <Text style={styles.link}>{pool.homepage}</Text>
+              </Pressable>
+            )}
+
+            <Text style={styles.sectionTitle}>STATS</Text>
+            <View style={[styles.section, styles.statsGrid]}>
+              <Stat
+                label="Saturation"
+                value={`${pool.saturation.toFixed(1)}%`}
+                color={getSaturationColor(pool.saturation)}
+              />
+              <Stat label="Live Stake" value={`${formatAda(pool.liveStake, 0)} ADA`} />
+              <Stat label="Margin" value={`${(pool.margin * 100).toFixed(2)}%`} />
+              <Stat label="Fixed Cost" value={`${formatAda(pool.fixedCost, 0)} ADA`} />
+              <Stat label="Pledge" value={`${formatAda(pool.pledge, 0)} ADA`} />
+              <Stat label="Blocks" value={pool.lifetimeBlocks.toLocaleString()} />
+              <Stat
+                label="ROA (10 epochs)"
+                value={pool.isHistoryComplete ? `${pool.last10EpochsROA.toFixed(2)}%` : 'N/A'}
+              />
+              <Stat
+                label="ROA (5 epochs)"
+                value={pool.isHistoryComplete ? `${pool.last5EpochsROA.toFixed(2)}%` : 'N/A'}
+              />
+            </View>
+            {pool.retireEpoch !== null && (
+              <Text style={styles.warningText}>Retiring in epoch {pool.retireEpoch}</Text>
+            )}
+
+            <Text style={styles.sectionTitle}>POOL ID</Text>
+            <View style={styles.section}>
+              <Text style={styles.poolId} selectable>
+                {pool.poolId}
+              </Text>
+            </View>
+
+            {profileLoading && (
+              <View style={styles.profileLoading}>
+                <ActivityIndicator size="small" color={cyberpunk.neonCyan} />
+                <Text style={styles.statusText}>Loading pool history...</Text>
+              </View>
+            )}
+
+            {profile && (
+              <>
+                {profile.history ? (
+                  <PoolHistoryChart history={profile.history} />
+                ) : (
+                  <Text style={styles.warningText}>Pool history unavailable</Text>
+                )}
+                {profile.isHistoryTruncated && (
+                  <Text style={styles.warningText}>Showing the most recent epochs only</Text>
+                )}
+
+                <Text style={styles.sectionTitle}>METADATA</Text>
+                <View style={styles.section}>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      styles.metadataBadge,
+                      { borderColor: METADATA_STATUS[profile.metadataHashStatus].color },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.statusBadgeText,
+                        { color: METADATA_STATUS[profile.metadataHashStatus].color },
+                      ]}
+                    >
+                      {METADATA_STATUS[profile.metadataHashStatus].text}
+                    </Text>
+                  </View>
+                  {profile.metadataUrl && <ListRow label="URL" value={profile.metadataUrl} />}
+                  {profile.metadataHash && <ListRow label="Hash" value={profile.metadataHash} />}
+                </View>
+
+                <Text style={styles.sectionTitle}>OWNERS</Text>
+                <View style={styles.section}>
+                  <ListRow label="Reward account" value={profile.rewardAccount} />
+                  {profile.owners.map((owner) => (
+                    <ListRow key={owner} label="Owner" value={owner} />
+                  ))}
+                  <ListRow label="VRF key" value={profile.vrfKey} />
+                </View>
+
+                <Text style={styles.sectionTitle}>RELAYS</Text>
+                <View style={styles.section}>
+                  {profile.relays === null && (
+                    <Text style={styles.warningText}>Relays unavailable</Text>
+                  )}
+                  {profile.relays?.length === 0 && (
+                    <Text style={styles.statusText}>No relays registered</Text>
+                  )}
+                  {profile.relays?.map((relay, index) => (
+                    <ListRow
+                      key={`${relay.address}-${index}`}
+                      value={relay.port === null ? `${relay.address} (SRV)` : `${relay.address}:${relay.port}`}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.sectionTitle}>CERTIFICATES</Text>
+                <View style={styles.section}>
+                  {profile.certificates === null && (
+                    <Text style={styles.warningText}>Certificates unavailable</Text>
+                  )}
+                  {profile.certificates?.map((certificate) => (
+                    <ListRow
+                      key={`${certificate.txHash}-${certificate.certIndex}`}
+                      label={`${certificate.action === 'registered' ? 'Registration' : 'Retirement'} · ${formatBlockDate(certificate.blockTime)}`}
+                      value={certificate.txHash}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        )}
+
+        <View style={styles.modalFooter}>
+          <CyberButton title="CLOSE" variant="secondary" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  modalContentContainer: {
+    padding: 20,
+    gap: 12,
+  },
+  modalFooter: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: cyberpunk.bgTertiary,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  statusText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+  },
+  errorText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+    textAlign: 'center',
+  },
+  identity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  poolName: {
+    flex: 1,
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.lg,
+    color: cyberpunk.textPrimary,
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  statusBadgeText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+  },
+  description: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+  },
+  link: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.electricBlue,
+    textDecorationLine: 'underline',
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgTertiary,
+    padding: 12,
+    gap: 8,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  stat: {
+    width: '46%',
+    gap: 2,
+  },
+  statLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  statValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+  },
+  poolId: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  profileLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  metadataBadge: {
+    alignSelf: 'flex-start',
+  },
+  listRow: {
+    gap: 2,
+  },
+  listValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+});
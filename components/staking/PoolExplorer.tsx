@@ -0,0 +1,529 @@
+import React, { memo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { formatAdaShort } from '../../lib/utils/lovelace';
+import {
+  POOL_SORT_LABELS,
+  POOL_FILTER_PRESETS,
+  getSaturationColor,
+  type PoolFilter,
+  type PoolSortKey,
+  type PoolSummary,
+} from '../../lib/staking';
+import { usePoolExplorer } from '../../lib/hooks/usePoolExplorer';
+import { CyberButton } from '../ui/CyberButton';
+import { PoolDetail } from './PoolDetail';
+
+// Characters kept at each end of a pool ID shown in place of a missing ticker
+const POOL_ID_EDGE_LENGTH = 10;
+
+type PresetKey = keyof typeof POOL_FILTER_PRESETS;
+
+const FILTER_ROWS: { key: PresetKey; label: string }[] = [
+  { key: 'maxSaturation', label: 'SATURATION' },
+  { key: 'maxMargin', label: 'MARGIN' },
+  { key: 'maxFixedCost', label: 'FIXED COST' },
+  { key: 'minPledge', label: 'PLEDGE' },
+  { key: 'minRoa', label: 'ROA' },
+  { key: 'minBlocks', label: 'BLOCKS' },
+];
+
+interface PoolExplorerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipActive]}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function PoolFilters({
+  filter,
+  sortKey,
+  descending,
+  onFilterChange,
+  onSortChange,
+}: {
+  filter: PoolFilter;
+  sortKey: PoolSortKey;
+  descending: boolean;
+  onFilterChange: (filter: PoolFilter) => void;
+  onSortChange: (key: PoolSortKey) => void;
+}) {
+  return (
+    <View style={styles.filters}>
+      <TextInput
+        style={styles.searchInput}
+        value={filter.search}
+        onChangeText={(search) => onFilterChange({ ...filter, search })}
+        placeholder="Search ticker, name or pool ID"
+        placeholderTextColor={cyberpunk.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        accessibilityLabel="Search pools"
+        accessibilityHint="Filters pools by ticker, name or pool ID"
+      />
+
+      {FILTER_ROWS.map(({ key, label }) => (
+        <View key={key} style={styles.filterRow}>
+          <Text style={styles.filterLabel}>{label}</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chipRow}
+          >
+            {POOL_FILTER_PRESETS[key].map((preset) => (
+              <Chip
+                key={preset.label}
+                label={preset.label}
+                selected={filter[key] === preset.value}
+                onPress={() => onFilterChange({ ...filter, [key]: preset.value })}
+              />
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+
+      <View style={styles.filterRow}>
+        <Text style={styles.filterLabel}>RETIRING</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label="HIDE"
+            selected={!filter.includeRetiring}
+            onPress={() => onFilterChange({ ...filter, includeRetiring: false })}
+          />
+          <Chip
+            label="SHOW"
+            selected={filter.includeRetiring}
+            onPress={() => onFilterChange({ ...filter, includeRetiring: true })}
+          />
+        </View>
+      </View>
+
+      <View style={styles.filterRow}>
+        <Text style={styles.filterLabel}>SORT</Text>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {(Object.keys(POOL_SORT_LABELS) as PoolSortKey[]).map((key) => (
+            <Chip
+              key={key}
+              label={
+                key === sortKey
+                  ? `${POOL_SORT_LABELS[key].toUpperCase()} ${descending ? '↓' : '↑'}`
+                  : POOL_SORT_LABELS[key].toUpperCase()
+              }
+              selected={key === sortKey}
+              onPress={() => onSortChange(key)}
+            />
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+function formatPoolLabel(pool: PoolSummary): string {
+  if (pool.ticker) return `[${pool.ticker}]`;
+  return `${pool.poolId.slice(0, POOL_ID_EDGE_LENGTH)}...${pool.poolId.slice(-POOL_ID_EDGE_LENGTH)}`;
+}
+
+function formatRoa(roa: number | null | undefined): string {
+  return typeof roa === 'number' ? `${roa.toFixed(2)}%` : '—';
+}
+
+function PoolRowComponent({
+  pool,
+  roa,
+  onPress,
+}: {
+  pool: PoolSummary;
+  roa: number | null | undefined;
+  onPress: (poolId: string) => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => onPress(pool.poolId)}
+      style={styles.row}
+      accessibilityRole="button"
+      accessibilityLabel={`Pool ${pool.ticker ?? pool.poolId}${pool.name ? `, ${pool.name}` : ''}. Saturation ${pool.saturation.toFixed(0)}%, Margin ${(pool.margin * 100).toFixed(1)}%, ROA ${formatRoa(roa)}`}
+      accessibilityHint="Shows pool details"
+    >
+      <View style={styles.rowHeader}>
+        <Text style={styles.ticker} numberOfLines={1}>
+          {formatPoolLabel(pool)}
+        </Text>
+        {!!pool.name && (
+          <Text style={styles.name} numberOfLines={1}>
+            {pool.name}
+          </Text>
+        )}
+        {pool.retiring && <Text style={styles.retiringText}>RETIRING</Text>}
+      </View>
+
+      <View style={styles.rowStats}>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Sat.</Text>
+          <Text style={[styles.statValue, { color: getSaturationColor(pool.saturation) }]}>
+            {pool.saturation.toFixed(0)}%
+          </Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Margin</Text>
+          <Text style={styles.statValue}>{(pool.margin * 100).toFixed(1)}%</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Fixed</Text>
+          <Text style={styles.statValue}>{formatAdaShort(pool.fixedCost)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Pledge</Text>
+          <Text style={styles.statValue}>{formatAdaShort(pool.pledge)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>ROA</Text>
+          <Text style={styles.statValue}>{formatRoa(roa)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Blocks</Text>
+          <Text style={styles.statValue}>{pool.lifetimeBlocks.toLocaleString()}</Text>
+        </View>
+      </View>
+    </Pressable>
+  );
+}
+
+const PoolRow = memo(PoolRowComponent);
+
+function ExplorerContent() {
+  const {
+    results,
+    totalCount,
+    isTruncated,
+    roaByPool,
+    filter,
+    setFilter,
+    sortKey,
+    descending,
+    changeSort,
+    isLoading,
+    isFetching,
+    isLoadingROA,
+    error,
+    progress,
+    refetch,
+  } = usePoolExplorer();
+  const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
+        <Text style={styles.statusText}>
+          {progress?.phase === 'pools'
+            ? `LOADING POOLS... ${progress.current.toLocaleString()}`
+            : 'LOADING POOLS...'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (error && totalCount === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>
+          {error instanceof Error ? error.message : 'Failed to load pools'}
+        </Text>
+        <CyberButton title="RETRY" variant="secondary" onPress={() => refetch()} />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <FlatList
+        data={results}
+        keyExtractor={(pool) => pool.poolId}
+        renderItem={({ item }) => (
+          <PoolRow pool={item} roa={roaByPool[item.poolId]} onPress={setSelectedPoolId} />
+        )}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.listHeader}>
+            <PoolFilters
+              filter={filter}
+              sortKey={sortKey}
+              descending={descending}
+              onFilterChange={setFilter}
+              onSortChange={changeSort}
+            />
+            {isLoadingROA && (
+              <Text style={styles.warningText}>
+                {progress?.phase === 'roa'
+                  ? `LOADING ROA ${progress.current}/${progress.total}...`
+                  : 'LOADING ROA...'}
+              </Text>
+            )}
+            {isTruncated && (
+              <Text style={styles.warningText}>
+                Showing the first {totalCount.toLocaleString()} pools only
+              </Text>
+            )}
+            <Text style={styles.countText}>
+              {results.length.toLocaleString()} of {totalCount.toLocaleString()} pools
+            </Text>
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>No pools match the filters</Text>}
+        refreshControl={
+          <RefreshControl
+            refreshing={isFetching}
+            onRefresh={() => refetch()}
+            tintColor={cyberpunk.neonCyan}
+          />
+        }
+        keyboardShouldPersistTaps="handled"
+        initialNumToRender={15}
+      />
+      <PoolDetail poolId={selectedPoolId} onClose={() => setSelectedPoolId(null)} />
+    </>
+  );
+}
+
+/**
+ * Full-screen list of every registered pool with search, filters and sorting.
+ */
+export function PoolExplorer({ visible, onClose }: PoolExplorerProps) {
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+      accessibilityLabel="Pool explorer"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={styles.closeButtonText}>X</Text>
+          </Pressable>
+          <Text style={styles.modalTitle}>POOL EXPLORER</Text>
+        </View>
+
+        {visible && <ExplorerContent />}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgPrimary,
+  },
+  modalHeader: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 12,
+  },
+  modalTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xl,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: cyberpunk.electricBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.electricBlue,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  statusText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+  },
+  errorText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 20,
+    gap: 10,
+  },
+  listHeader: {
+    gap: 10,
+    marginBottom: 4,
+  },
+  filters: {
+    gap: 10,
+  },
+  searchInput: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+    borderRadius: 4,
+    padding: 12,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  filterLabel: {
+    width: 80,
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.textMuted,
+    borderRadius: 4,
+  },
+  chipActive: {
+    borderColor: cyberpunk.neonCyan,
+    backgroundColor: 'rgba(0, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  chipTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+  },
+  countText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  emptyText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  row: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgTertiary,
+    padding: 12,
+    gap: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ticker: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+  },
+  name: {
+    flex: 1,
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  retiringText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.error,
+  },
+  rowStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  statValue: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textPrimary,
+  },
+});
@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import Svg, { Path, Line, Text as SvgText } from 'react-native-svg';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { lovelaceToAda } from '../../lib/utils/lovelace';
+import type { PoolEpochStats } from '../../lib/staking';
+
+interface PoolHistoryChartProps {
+  /** Oldest epoch first */
+  history: PoolEpochStats[];
+}
+
+/** Chart dimension constants */
+const CHART_HEIGHT = 120;
+const LABEL_HEIGHT = 20;
+const Y_AXIS_WIDTH = 50;
+const CHART_WIDTH = 300;
+/** Longer histories are averaged into buckets to keep the path light */
+const MAX_POINTS = 120;
+
+type Metric = 'blocks' | 'stake' | 'delegators' | 'roa';
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: 'blocks', label: 'BLOCKS' },
+  { id: 'stake', label: 'STAKE' },
+  { id: 'delegators', label: 'DELEG.' },
+  { id: 'roa', label: 'ROA' },
+];
+
+interface ChartPoint {
+  epoch: number;
+  value: number;
+}
+
+function getMetricValue(stats: PoolEpochStats, metric: Metric): number {
+  switch (metric) {
+    case 'blocks':
+      return stats.blocks;
+    case 'stake':
+      return lovelaceToAda(stats.activeStake);
+    case 'delegators':
+      return stats.delegators;
+    case 'roa':
+      return stats.roa;
+  }
+}
+
+/** Average consecutive epochs so spiky series like blocks keep their trend */
+function bucketAverage(points: ChartPoint[]): ChartPoint[] {
+  if (points.length <= MAX_POINTS) return points;
+  const size = Math.ceil(points.length / MAX_POINTS);
+  const buckets: ChartPoint[] = [];
+  for (let i = 0; i < points.length; i += size) {
+    const bucket = points.slice(i, i + size);
+    const total = bucket.reduce((sum, point) => sum + point.value, 0);
+    buckets.push({ epoch: bucket[0].epoch, value: total / bucket.length });
+  }
+  return buckets;
+}
+
+function formatShort(value: number): string {
+  if (Math.abs(value) >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  if (Math.abs(value) >= 100) return value.toFixed(0);
+  return value.toFixed(2);
+}
+
+function formatMetric(value: number, metric: Metric): string {
+  switch (metric) {
+    case 'stake':
+      return `₳${formatShort(value)}`;
+    case 'roa':
+      return `${value.toFixed(2)}%`;
+    default:
+      return Math.round(value).toLocaleString();
+  }
+}
+
+export function PoolHistoryChart({ history }: PoolHistoryChartProps) {
+  const [metric, setMetric] = useState<Metric>('blocks');
+
+  const { points, latest, peak } = useMemo(() => {
+    const series = history.map((stats) => ({
+      epoch: stats.epoch,
+      value: getMetricValue(stats, metric),
+    }));
+    return {
+      points: bucketAverage(series),
+      latest: series[series.length - 1]?.value ?? 0,
+      peak: Math.max(...series.map((point) => point.value), 0),
+    };
+  }, [history, metric]);
+
+  const maxValue = Math.max(...points.map((p) => p.value), 0);
+  const plotWidth = CHART_WIDTH - Y_AXIS_WIDTH;
+  const path = points
+    .map((point, index) => {
+      const x = Y_AXIS_WIDTH + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : 0);
+      const y = maxValue > 0 ? CHART_HEIGHT - (point.value / maxValue) * (CHART_HEIGHT - 4) : CHART_HEIGHT;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const metricLabel = METRICS.find((m) => m.id === metric)?.label ?? '';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>POOL HISTORY</Text>
+
+      <View style={styles.segment}>
+        {METRICS.map((option) => (
+          <Pressable
+            key={option.id}
+            onPress={() => setMetric(option.id)}
+            style={[styles.segmentButton, metric === option.id && styles.segmentButtonActive]}
+            accessibilityRole="radio"
+            accessibilityLabel={`Show ${option.label.toLowerCase()} per epoch`}
+            accessibilityState={{ selected: metric === option.id }}
+          >
+            <Text style={[styles.segmentText, metric === option.id && styles.segmentTextActive]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {points.length < 2 ? (
+        <Text style={styles.emptyText}>Not enough history yet</Text>
+      ) : (
+        <View style={styles.chartContainer}>
+          <Svg
+            width={CHART_WIDTH}
+            height={CHART_HEIGHT + LABEL_HEIGHT}
+            accessibilityLabel={`Pool ${metricLabel.toLowerCase()} per epoch from epoch ${points[0].epoch}. Latest ${formatMetric(latest, metric)}`}
+            accessible={true}
+            accessibilityRole="image"
+          >
+            {/* Y-axis labels */}
+            <SvgText
+              x={Y_AXIS_WIDTH - 8}
+              y={12}
+              fill={cyberpunk.textMuted}
+              fontSize={10}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              {formatMetric(maxValue, metric)}
+            </SvgText>
+            <SvgText
+              x={Y_AXIS_WIDTH - 8}
+              y={CHART_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={10}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              0
+            </SvgText>
+
+            {/* Horizontal grid lines */}
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={0}
+              x2={CHART_WIDTH}
+              y2={0}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+            />
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={CHART_HEIGHT / 2}
+              x2={CHART_WIDTH}
+              y2={CHART_HEIGHT / 2}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+              strokeDasharray="4,4"
+            />
+            <Line
+              x1={Y_AXIS_WIDTH}
+              y1={CHART_HEIGHT}
+              x2={CHART_WIDTH}
+              y2={CHART_HEIGHT}
+              stroke={cyberpunk.bgTertiary}
+              strokeWidth={1}
+            />
+
+            <Path d={path} stroke={cyberpunk.neonCyan} strokeWidth={2} fill="none" />
+
+            {/* Epoch labels (first and last) */}
+            <SvgText
+              x={Y_AXIS_WIDTH}
+              y={CHART_HEIGHT + LABEL_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={9}
+              fontFamily={typography.fonts.mono}
+            >
+              {`E${points[0].epoch}`}
+            </SvgText>
+            <SvgText
+              x={CHART_WIDTH}
+              y={CHART_HEIGHT + LABEL_HEIGHT - 4}
+              fill={cyberpunk.textMuted}
+              fontSize={9}
+              fontFamily={typography.fonts.mono}
+              textAnchor="end"
+            >
+              {`E${history[history.length - 1].epoch}`}
+            </SvgText>
+          </Svg>
+        </View>
+      )}
+
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Latest epoch</Text>
+          <Text style={styles.statValue}>{formatMetric(latest, metric)}</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Peak</Text>
+          <Text style={styles.statValue}>{formatMetric(peak, metric)}</Text>
+        </View>
+      </View>
+
+      {points.length < history.length && (
+        <Text style={styles.note}>
+          Each point averages {Math.ceil(history.length / MAX_POINTS)} epochs
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginBottom: 16,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 16,
+  },
+  segmentButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgElevated,
+  },
+  segmentButtonActive: {
+    borderColor: cyberpunk.neonCyan,
+    backgroundColor: cyberpunk.bgTertiary,
+  },
+  segmentText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  segmentTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+  emptyText: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  chartContainer: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  statItem: {
+    flex: 1,
+    backgroundColor: cyberpunk.bgTertiary,
+    borderRadius: 4,
+    padding: 12,
+  },
+  statLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.base,
+    color: cyberpunk.textPrimary,
+  },
+  note: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginTop: 12,
+  },
+});
@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { getPoolRecommendations, STAKING_CONFIG } from '../../lib/staking';
+import { useSettingsStore } from '../../lib/stores/settings';
 import { PoolCard } from './PoolCard';
 
 interface RecommendationListProps {
@@ -11,12 +12,13 @@ interface RecommendationListProps {
 }
 
 export function RecommendationList({ currentPoolId }: RecommendationListProps) {
+  const network = useSettingsStore((state) => state.network);
   const {
     data: recommendations,
     isLoading,
     error,
   } = useQuery({
-    queryKey: ['poolRecommendations', currentPoolId],
+    queryKey: ['poolRecommendations', network, currentPoolId],
     queryFn: () => getPoolRecommendations(currentPoolId),
     staleTime: STAKING_CONFIG.POOL_LIST_CACHE_TTL_MS,
   });
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, ActivityIndicator } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { lovelaceToAda } from '../../lib/utils/lovelace';
+import { useRewardProjections } from '../../lib/hooks/useRewardProjections';
+import { STAKING_CONFIG } from '../../lib/staking';
+import type { RewardProjection, RewardRange } from '../../lib/staking';
+
+interface RewardCalculatorProps {
+  currentPoolId: string | null;
+  /** Stake the wallet delegates in lovelace; the default amount */
+  delegatedStake: string | undefined;
+}
+
+function formatAdaAmount(ada: number): string {
+  return `₳${ada.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatRange(range: RewardRange): string {
+  return `${formatAdaAmount(range.low)} – ${formatAdaAmount(range.high)}`;
+}
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? '+' : '-'}${formatAdaAmount(Math.abs(change))}`;
+}
+
+/** Parse an ADA amount, allowing thousand separators; null if invalid */
+function parseStake(input: string): number | null {
+  const value = Number(input.replace(/,/g, '').trim());
+  return input.trim() !== '' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function ProjectionDetails({ projection }: { projection: RewardProjection }) {
+  const performanceText =
+    projection.performance === null
+      ? 'Too few blocks to measure'
+      : `${(projection.performance * 100).toFixed(0)}%`;
+
+  return (
+    <>
+      <View style={styles.statsGrid}>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Per epoch</Text>
+          <Text style={styles.statValue}>{formatAdaAmount(projection.perEpoch.expected)}</Text>
+          <Text style={styles.rangeText}>{formatRange(projection.perEpoch)}</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Per year</Text>
+          <Text style={styles.statValue}>{formatAdaAmount(projection.perYear.expected)}</Text>
+          <Text style={styles.rangeText}>{formatRange(projection.perYear)}</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Yield</Text>
+          <Text style={styles.statValue}>{projection.annualYield.toFixed(2)}%</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statLabel}>Blocks / epoch</Text>
+          <Text style={styles.statValue}>{projection.expectedBlocks.toFixed(2)}</Text>
+        </View>
+      </View>
+      <Text style={styles.detailText}>Performance: {performanceText}</Text>
+      {!projection.pledgeMet && (
+        <Text style={styles.warningText}>
+          Owners hold less than the declared pledge, so the pool earns no rewards
+        </Text>
+      )}
+    </>
+  );
+}
+
+export function RewardCalculator({ currentPoolId, delegatedStake }: RewardCalculatorProps) {
+  const delegatedAda = delegatedStake ? lovelaceToAda(delegatedStake) : 0;
+  // Null until edited, so the amount follows the delegation once it loads
+  const [stakeInput, setStakeInput] = useState<string | null>(null);
+  const inputValue = stakeInput ?? (delegatedAda > 0 ? delegatedAda.toFixed(0) : '');
+  const stake = parseStake(inputValue);
+
+  const { parameters, currentPool, current, comparisons, isLoading, error } =
+    useRewardProjections(currentPoolId, stake ?? 0, delegatedAda);
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color={cyberpunk.neonCyan} />
+          <Text style={styles.loadingText}>Modeling rewards...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return <Text style={styles.errorText}>{error.message}</Text>;
+    }
+
+    if (stake === null || stake === 0) {
+      return <Text style={styles.emptyText}>Enter a stake amount to project rewards</Text>;
+    }
+
+    return (
+      <>
+        {current && currentPool && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>CURRENT POOL [{currentPool.ticker}]</Text>
+            <ProjectionDetails projection={current} />
+          </View>
+        )}
+
+        {comparisons.length > 0 && (
+          <View style={styles.comparisonList}>
+            <Text style={styles.sectionLabel}>
+              {current ? 'IF YOU SWITCH' : 'RECOMMENDED POOLS'}
+            </Text>
+            {comparisons.map(({ pool, projection, changePerYear }) => (
+              <View
+                key={pool.poolId}
+                style={styles.comparisonRow}
+                accessible={true}
+                accessibilityLabel={`Pool ${pool.ticker}, expected ${formatAdaAmount(projection.perYear.expected)} per year${changePerYear !== null ? `, ${formatChange(changePerYear)} versus current` : ''}`}
+              >
+                <View style={styles.comparisonInfo}>
+                  <Text style={styles.ticker}>[{pool.ticker}]</Text>
+                  <Text style={styles.rangeText}>{formatRange(projection.perYear)}</Text>
+                  {!projection.pledgeMet && (
+                    <Text style={styles.warningText}>Pledge not met</Text>
+                  )}
+                </View>
+                <View style={styles.comparisonValues}>
+                  <Text style={styles.statValue}>
+                    {formatAdaAmount(projection.perYear.expected)}/yr
+                  </Text>
+                  {changePerYear !== null && (
+                    <Text
+                      style={[
+                        styles.changeText,
+                        { color: changePerYear > 0 ? cyberpunk.success : cyberpunk.textMuted },
+                      ]}
+                    >
+                      {formatChange(changePerYear)}/yr
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {parameters && (
+          <Text style={styles.note}>
+            Ranges span the {STAKING_CONFIG.LUCK_RANGE_PERCENTILE * 100}th to{' '}
+            {(1 - STAKING_CONFIG.LUCK_RANGE_PERCENTILE) * 100}th percentile of block luck. Epoch{' '}
+            {parameters.epoch} parameters: k={parameters.nOpt}, a0={parameters.a0}, ρ=
+            {parameters.rho}, τ={parameters.tau}.
+          </Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>REWARD CALCULATOR</Text>
+      <Text style={styles.subtitle}>Expected rewards from protocol and pool parameters</Text>
+
+      <Text style={styles.sectionLabel}>STAKE (ADA)</Text>
+      <TextInput
+        style={styles.input}
+        value={inputValue}
+        onChangeText={setStakeInput}
+        placeholder="0"
+        placeholderTextColor={cyberpunk.textMuted}
+        keyboardType="decimal-pad"
+        accessibilityLabel="Stake amount in ADA"
+        accessibilityHint="Enter the amount of ADA to project rewards for"
+      />
+      {stake === null && inputValue.trim() !== '' && (
+        <Text style={styles.errorText}>Enter a valid ADA amount</Text>
+      )}
+
+      {renderBody()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+  },
+  subtitle: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  sectionLabel: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    letterSpacing: 1,
+  },
+  input: {
+    backgroundColor: cyberpunk.bgPrimary,
+    borderWidth: 1,
+    borderColor: cyberpunk.bgTertiary,
+    borderRadius: 8,
+    padding: 12,
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.lg,
+    color: cyberpunk.textPrimary,
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 24,
+    gap: 12,
+  },
+  loadingText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textSecondary,
+  },
+  errorText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+  },
+  emptyText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textMuted,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  card: {
+    backgroundColor: cyberpunk.bgTertiary,
+    borderRadius: 4,
+    padding: 12,
+    gap: 8,
+  },
+  cardTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.textPrimary,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  statItem: {
+    width: '48%',
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 4,
+    padding: 8,
+  },
+  statLabel: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.base,
+    color: cyberpunk.textPrimary,
+  },
+  rangeText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+    marginTop: 2,
+  },
+  detailText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+  },
+  comparisonList: {
+    gap: 8,
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: cyberpunk.bgTertiary,
+    borderRadius: 4,
+    padding: 12,
+    gap: 12,
+  },
+  comparisonInfo: {
+    flex: 1,
+  },
+  comparisonValues: {
+    alignItems: 'flex-end',
+  },
+  ticker: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+  },
+  changeText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    marginTop: 2,
+  },
+  note: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+});
@@ -2,22 +2,28 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
-import { useWalletStore } from '../../lib/stores/wallet';
+import { useActiveWallet } from '../../lib/stores/wallet';
 import { useUserDelegation } from '../../lib/hooks/useUserDelegation';
 import { CyberButton } from '../ui/CyberButton';
+import { OfflineBanner } from '../ui/OfflineBanner';
 import { CurrentDelegation } from './CurrentDelegation';
 import { RewardsChart } from './RewardsChart';
 import { RecommendationList } from './RecommendationList';
+import { RewardCalculator } from './RewardCalculator';
+import { PoolExplorer } from './PoolExplorer';
 
 export function StakingTool() {
-  const { stakeAddress } = useWalletStore();
+  const { stakeAddress } = useActiveWallet();
   const [modalVisible, setModalVisible] = useState(false);
+  const [explorerVisible, setExplorerVisible] = useState(false);
 
   // Centralized delegation data - passed to children to avoid duplicate queries
   const {
     data: delegation,
     isLoading: delegationLoading,
     error: delegationError,
+    isRefetchError: delegationRefetchFailed,
+    dataUpdatedAt: delegationUpdatedAt,
   } = useUserDelegation(modalVisible ? stakeAddress : null);
 
   const hasWallet = !!stakeAddress;
@@ -79,14 +85,28 @@ export function StakingTool() {
           >
             {stakeAddress && (
               <>
+                <OfflineBanner
+                  updatedAt={delegation ? delegationUpdatedAt : undefined}
+                  refreshFailed={delegationRefetchFailed}
+                />
                 <CurrentDelegation
                   stakeAddress={stakeAddress}
                   delegation={delegation}
                   isLoading={delegationLoading}
                   error={delegationError instanceof Error ? delegationError : null}
+                  updatedAt={delegation ? delegationUpdatedAt : undefined}
                 />
                 <RewardsChart stakeAddress={stakeAddress} />
                 <RecommendationList currentPoolId={delegation?.poolId ?? null} />
+                <RewardCalculator
+                  currentPoolId={delegation?.poolId ?? null}
+                  delegatedStake={delegation?.activeStake}
+                />
+                <CyberButton
+                  title="EXPLORE ALL POOLS"
+                  variant="secondary"
+                  onPress={() => setExplorerVisible(true)}
+                />
               </>
             )}
           </ScrollView>
@@ -95,6 +115,8 @@ export function StakingTool() {
             <CyberButton title="CLOSE" variant="secondary" onPress={handleCloseModal} />
           </View>
         </View>
+
+        <PoolExplorer visible={explorerVisible} onClose={() => setExplorerVisible(false)} />
       </Modal>
     </>
   );
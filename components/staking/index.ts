@@ -3,4 +3,8 @@ export { CurrentDelegation } from './CurrentDelegation';
 export { PoolCard } from './PoolCard';
 export { RecommendationList } from './RecommendationList';
 export { RewardsChart } from './RewardsChart';
+export { RewardCalculator } from './RewardCalculator';
 export { StakingTool } from './StakingTool';
+export { PoolDetail } from './PoolDetail';
+export { PoolExplorer } from './PoolExplorer';
+export { PoolHistoryChart } from './PoolHistoryChart';
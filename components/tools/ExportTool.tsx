@@ -11,18 +11,34 @@ import {
 import { cyberpunk } from '../../lib/theme/colors';
 import { typography } from '../../lib/theme/typography';
 import { useExportTransactions } from '../../lib/hooks/useExportTransactions';
-import { useWalletStore } from '../../lib/stores/wallet';
+import { useActiveWallet } from '../../lib/stores/wallet';
+import { useSettingsStore } from '../../lib/stores/settings';
 import { CyberButton } from '../ui/CyberButton';
-import { AssetFilter } from '../../lib/types/transaction';
+import { AssetFilter, ExportFormatId } from '../../lib/types/transaction';
+import { EXPORT_FORMATS, EXPORT_FORMAT_IDS } from '../../lib/utils/export-formats';
 
 export function ExportTool() {
-  const { address, stakeAddress } = useWalletStore();
+  const { address, stakeAddress } = useActiveWallet();
   const [modalVisible, setModalVisible] = useState(false);
   const [includeRewards, setIncludeRewards] = useState(true);
   const [assetFilter, setAssetFilter] = useState<AssetFilter>('all');
+  const [format, setFormat] = useState<ExportFormatId>('generic');
+  const currencyDisplay = useSettingsStore((state) => state.currencyDisplay);
+  const fiatCurrency = currencyDisplay === 'ADA' ? null : currencyDisplay;
 
-  const { exportData, isLoading, progress, error, warning, result, reset } =
-    useExportTransactions();
+  const {
+    exportData,
+    cancel,
+    retry,
+    isLoading,
+    progress,
+    error,
+    warning,
+    result,
+    cancelled,
+    failedCount,
+    reset,
+  } = useExportTransactions();
 
   const hasWallet = !!(address || stakeAddress);
 
@@ -42,6 +58,8 @@ export function ExportTool() {
     await exportData(address, stakeAddress, {
       includeStakingRewards: includeRewards,
       assetFilter,
+      format,
+      fiatCurrency,
     });
   };
 
@@ -51,6 +69,8 @@ export function ExportTool() {
         return `Fetching transactions... ${progress.current}`;
       case 'processing':
         return `Processing ${progress.current}/${progress.total}`;
+      case 'pricing':
+        return 'Fetching historical prices...';
       case 'exporting':
         return 'Generating CSV...';
       default:
@@ -96,8 +116,41 @@ export function ExportTool() {
           <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
             <Text style={styles.title}>EXPORT TRANSACTIONS</Text>
 
-            {!isLoading && !result && (
+            {!isLoading && !result && !error && !cancelled && (
               <>
+                <View style={styles.formatSection}>
+                  <Text style={styles.optionLabel}>Format</Text>
+                  <View style={styles.formatButtons} accessibilityRole="radiogroup">
+                    {EXPORT_FORMAT_IDS.map((id) => (
+                      <Pressable
+                        key={id}
+                        onPress={() => setFormat(id)}
+                        style={[styles.filterButton, format === id && styles.filterButtonActive]}
+                        accessibilityRole="radio"
+                        accessibilityLabel={`${EXPORT_FORMATS[id].label} format`}
+                        accessibilityState={{ selected: format === id }}
+                      >
+                        <Text
+                          style={[
+                            styles.filterButtonText,
+                            format === id && styles.filterButtonTextActive,
+                          ]}
+                        >
+                          {EXPORT_FORMATS[id].label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <Text style={styles.formatDescription}>
+                    {EXPORT_FORMATS[format].description}
+                  </Text>
+                  <Text style={styles.formatDescription}>
+                    {fiatCurrency
+                      ? `Values in ${fiatCurrency} at daily close`
+                      : 'Select a fiat currency in Settings to include fiat values'}
+                  </Text>
+                </View>
+
                 <View style={styles.optionRow}>
                   <Text style={styles.optionLabel}>Include Staking Rewards</Text>
                   <Switch
@@ -173,12 +226,22 @@ export function ExportTool() {
               <View style={styles.progressContainer}>
                 <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
                 <Text style={styles.progressText}>{progressText}</Text>
+                <View style={styles.actions}>
+                  <CyberButton title="CANCEL" variant="ghost" onPress={cancel} />
+                </View>
               </View>
             )}
 
-            {error && !isLoading && (
+            {(error || cancelled) && !isLoading && (
               <View style={styles.resultContainer}>
-                <Text style={styles.errorText}>{error}</Text>
+                {error ? (
+                  <Text style={styles.errorText}>{error}</Text>
+                ) : (
+                  <Text style={styles.resultDetail}>EXPORT CANCELLED</Text>
+                )}
+                <Text style={styles.resultDetail}>
+                  Fetched transactions are saved; resuming continues where it stopped.
+                </Text>
                 {warning && (
                   <Text style={styles.warningText}>{warning}</Text>
                 )}
@@ -188,6 +251,10 @@ export function ExportTool() {
                     variant="secondary"
                     onPress={handleCloseModal}
                   />
+                  <CyberButton
+                    title={cancelled ? 'RESUME' : 'RETRY'}
+                    onPress={retry}
+                  />
                 </View>
               </View>
             )}
@@ -203,6 +270,13 @@ export function ExportTool() {
                   <Text style={styles.warningText}>{warning}</Text>
                 )}
                 <View style={styles.actions}>
+                  {failedCount > 0 && (
+                    <CyberButton
+                      title="RETRY FAILED"
+                      variant="secondary"
+                      onPress={retry}
+                    />
+                  )}
                   <CyberButton
                     title="DONE"
                     variant="primary"
@@ -290,6 +364,20 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  formatSection: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  formatButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  formatDescription: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
   filterButton: {
     paddingVertical: 6,
     paddingHorizontal: 12,
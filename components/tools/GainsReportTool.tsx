@@ -0,0 +1,446 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { useCostBasisReport } from '../../lib/hooks/useCostBasisReport';
+import { useActiveWallet } from '../../lib/stores/wallet';
+import { useSettingsStore } from '../../lib/stores/settings';
+import { usePrivacyStore } from '../../lib/stores/privacy';
+import { CyberButton } from '../ui/CyberButton';
+import {
+  COST_BASIS_METHODS,
+  type AnnualSummary,
+  type CostBasisMethod,
+} from '../../lib/utils/cost-basis';
+
+function formatGain(value: number, currency: string, hidden: boolean): string {
+  if (hidden) return '****';
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)} ${currency}`;
+}
+
+function YearRow({
+  summary,
+  currency,
+  hidden,
+}: {
+  summary: AnnualSummary;
+  currency: string;
+  hidden: boolean;
+}) {
+  const gainColor = summary.gain < 0 ? cyberpunk.error : cyberpunk.success;
+  return (
+    <View style={styles.yearRow}>
+      <View style={styles.yearHeader}>
+        <Text style={styles.yearLabel}>{summary.year}</Text>
+        <Text style={[styles.yearGain, { color: gainColor }]}>
+          {formatGain(summary.gain, currency, hidden)}
+        </Text>
+      </View>
+      <Text style={styles.yearDetail}>
+        Short {formatGain(summary.shortTermGain, currency, hidden)} · Long{' '}
+        {formatGain(summary.longTermGain, currency, hidden)}
+      </Text>
+      {summary.unknownTermGain !== 0 && (
+        <Text style={styles.yearDetail}>
+          No cost basis {formatGain(summary.unknownTermGain, currency, hidden)}
+        </Text>
+      )}
+      <Text style={styles.yearDetail}>
+        {summary.disposalCount} disposals · Staking income{' '}
+        {hidden ? '****' : `${summary.stakingIncome.toFixed(2)} ${currency}`}
+      </Text>
+    </View>
+  );
+}
+
+export function GainsReportTool() {
+  const { address, stakeAddress } = useActiveWallet();
+  const currencyDisplay = useSettingsStore((state) => state.currencyDisplay);
+  const hideBalances = usePrivacyStore((state) => state.hideBalances);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [method, setMethod] = useState<CostBasisMethod>('fifo');
+
+  const {
+    generate,
+    changeMethod,
+    exportReport,
+    isLoading,
+    progress,
+    error,
+    warning,
+    report,
+    reset,
+  } = useCostBasisReport();
+
+  const hasWallet = !!(address || stakeAddress);
+  const fiatCurrency = currencyDisplay === 'ADA' ? null : currencyDisplay;
+
+  const handleOpenModal = () => {
+    reset();
+    setModalVisible(true);
+  };
+
+  const handleCloseModal = () => {
+    if (!isLoading) {
+      setModalVisible(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!address || !fiatCurrency) return;
+    await generate(address, stakeAddress, method, fiatCurrency);
+  };
+
+  const handleMethodChange = (next: CostBasisMethod) => {
+    setMethod(next);
+    changeMethod(next);
+  };
+
+  const progressText = useMemo(() => {
+    switch (progress.phase) {
+      case 'fetching':
+        return `Fetching transactions... ${progress.current}`;
+      case 'processing':
+        return `Processing ${progress.current}/${progress.total}`;
+      case 'pricing':
+        return 'Fetching historical prices...';
+      default:
+        return 'Calculating...';
+    }
+  }, [progress.phase, progress.current, progress.total]);
+
+  const methodInfo = COST_BASIS_METHODS.find((m) => m.id === method);
+
+  return (
+    <>
+      <Pressable
+        onPress={handleOpenModal}
+        style={[styles.toolCard, !hasWallet && styles.toolCardDisabled]}
+        disabled={!hasWallet}
+        accessibilityRole="button"
+        accessibilityLabel="Open realized gains report"
+        accessibilityHint="Calculates cost basis and realized gains for your transaction history"
+      >
+        <Text style={styles.toolIcon}>🧾</Text>
+        <View style={styles.toolInfo}>
+          <Text style={styles.toolTitle}>GAINS REPORT</Text>
+          <Text style={styles.toolDescription}>
+            {hasWallet
+              ? 'Cost basis and realized gains by year'
+              : 'Connect wallet first'}
+          </Text>
+        </View>
+      </Pressable>
+
+      <Modal
+        visible={modalVisible}
+        animationType="fade"
+        transparent
+        onRequestClose={handleCloseModal}
+        accessibilityViewIsModal={true}
+        accessibilityLabel="Realized gains report dialog"
+      >
+        <Pressable
+          style={styles.overlay}
+          onPress={handleCloseModal}
+          accessibilityRole="button"
+          accessibilityLabel="Close gains report"
+        >
+          <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.title}>REALIZED GAINS</Text>
+
+            {!isLoading && (
+              <View style={styles.methodSection}>
+                <View style={styles.methodButtons} accessibilityRole="radiogroup">
+                  {COST_BASIS_METHODS.map(({ id, label }) => (
+                    <Pressable
+                      key={id}
+                      onPress={() => handleMethodChange(id)}
+                      style={[styles.filterButton, method === id && styles.filterButtonActive]}
+                      accessibilityRole="radio"
+                      accessibilityLabel={`${label} lot matching`}
+                      accessibilityState={{ selected: method === id }}
+                    >
+                      <Text
+                        style={[
+                          styles.filterButtonText,
+                          method === id && styles.filterButtonTextActive,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.methodDescription}>{methodInfo?.description}</Text>
+              </View>
+            )}
+
+            {!isLoading && !report && !error && (
+              <>
+                <Text style={styles.infoText}>
+                  {fiatCurrency
+                    ? `Gains are calculated in ${fiatCurrency} from your full transaction history and staking rewards.`
+                    : 'Select a fiat currency in Settings to calculate gains.'}
+                </Text>
+                <View style={styles.actions}>
+                  <CyberButton title="CANCEL" variant="ghost" onPress={handleCloseModal} />
+                  <CyberButton
+                    title="GENERATE"
+                    onPress={handleGenerate}
+                    disabled={!fiatCurrency}
+                  />
+                </View>
+              </>
+            )}
+
+            {isLoading && (
+              <View style={styles.progressContainer}>
+                <ActivityIndicator size="large" color={cyberpunk.neonCyan} />
+                <Text style={styles.progressText}>{progressText}</Text>
+              </View>
+            )}
+
+            {error && !isLoading && (
+              <View style={styles.resultContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+                {warning && <Text style={styles.warningText}>{warning}</Text>}
+                <View style={styles.actions}>
+                  <CyberButton title="CLOSE" variant="secondary" onPress={handleCloseModal} />
+                </View>
+              </View>
+            )}
+
+            {report && !isLoading && !error && (
+              <>
+                {report.years.length === 0 ? (
+                  <Text style={styles.infoText}>No disposals or staking income found</Text>
+                ) : (
+                  <ScrollView style={styles.yearList}>
+                    {report.years.map((summary) => (
+                      <YearRow
+                        key={summary.year}
+                        summary={summary}
+                        currency={report.fiatCurrency}
+                        hidden={hideBalances}
+                      />
+                    ))}
+                  </ScrollView>
+                )}
+                {report.unmatchedCount > 0 && (
+                  <Text style={styles.warningText}>
+                    {report.unmatchedCount} disposals exceed known holdings and have no cost basis
+                  </Text>
+                )}
+                {report.unpricedCount > 0 && (
+                  <Text style={styles.warningText}>
+                    {report.unpricedCount} transactions have no historical price and are valued at 0
+                  </Text>
+                )}
+                {report.splitValueCount > 0 && (
+                  <Text style={styles.warningText}>
+                    {report.splitValueCount} transactions traded several tokens for the same ADA,
+                    which is split equally between them
+                  </Text>
+                )}
+                {warning && <Text style={styles.warningText}>{warning}</Text>}
+                <View style={styles.actions}>
+                  <CyberButton
+                    title="GAINS CSV"
+                    variant="secondary"
+                    onPress={() => exportReport('gains')}
+                    disabled={report.gains.length === 0}
+                  />
+                  <CyberButton
+                    title="SUMMARY CSV"
+                    variant="secondary"
+                    onPress={() => exportReport('summary')}
+                    disabled={report.years.length === 0}
+                  />
+                </View>
+                <View style={styles.doneRow}>
+                  <CyberButton title="DONE" variant="ghost" onPress={handleCloseModal} />
+                </View>
+              </>
+            )}
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 16,
+    gap: 16,
+  },
+  toolCardDisabled: {
+    borderColor: cyberpunk.bgTertiary,
+    opacity: 0.5,
+  },
+  toolIcon: {
+    fontSize: 32,
+  },
+  toolInfo: {
+    flex: 1,
+  },
+  toolTitle: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.neonCyan,
+    letterSpacing: 2,
+    marginBottom: 4,
+  },
+  toolDescription: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: cyberpunk.bgSecondary,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: cyberpunk.neonCyan,
+    padding: 24,
+    width: '100%',
+    maxWidth: 360,
+    maxHeight: '85%',
+  },
+  title: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.lg,
+    color: cyberpunk.neonCyan,
+    textAlign: 'center',
+    marginBottom: 24,
+    letterSpacing: 2,
+  },
+  methodSection: {
+    marginBottom: 16,
+    gap: 8,
+  },
+  methodButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  methodDescription: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  filterButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.textMuted,
+    borderRadius: 4,
+  },
+  filterButtonActive: {
+    borderColor: cyberpunk.neonCyan,
+    backgroundColor: 'rgba(0, 255, 255, 0.1)',
+  },
+  filterButtonText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  filterButtonTextActive: {
+    color: cyberpunk.neonCyan,
+  },
+  infoText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+  yearList: {
+    maxHeight: 280,
+  },
+  yearRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: cyberpunk.bgTertiary,
+    gap: 2,
+  },
+  yearHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  yearLabel: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.md,
+    color: cyberpunk.textPrimary,
+    letterSpacing: 1,
+  },
+  yearGain: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+  },
+  yearDetail: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textMuted,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 24,
+    gap: 16,
+  },
+  doneRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  progressContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  progressText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.neonCyan,
+    marginTop: 16,
+  },
+  resultContainer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  errorText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.sm,
+    color: cyberpunk.error,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  warningText: {
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,70 @@
+/**
+ * Banner shown when a screen is displaying cached data because the
+ * device is offline or the latest refresh failed.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { cyberpunk } from '../../lib/theme/colors';
+import { typography } from '../../lib/theme/typography';
+import { useIsOnline } from '../../lib/hooks/useIsOnline';
+import { formatTimeAgo } from '../../lib/utils/time';
+
+interface OfflineBannerProps {
+  /** When the displayed data was fetched (ms); no banner without cached data */
+  updatedAt: number | undefined;
+  /** True when the last refresh failed while online */
+  refreshFailed?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function OfflineBanner({ updatedAt, refreshFailed = false, style }: OfflineBannerProps) {
+  const isOnline = useIsOnline();
+
+  if (!updatedAt || (isOnline && !refreshFailed)) {
+    return null;
+  }
+
+  const title = isOnline ? 'UPDATE FAILED' : 'OFFLINE';
+  const message = `Showing data from ${formatTimeAgo(updatedAt)}`;
+
+  return (
+    <View
+      style={[styles.container, style]}
+      accessible={true}
+      accessibilityRole="alert"
+      accessibilityLabel={`${title}. ${message}`}
+    >
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.message}>{message}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    borderWidth: 1,
+    borderColor: cyberpunk.warning,
+    borderRadius: 4,
+    // Matches the warning alert background in AlertBanner
+    backgroundColor: 'rgba(255, 184, 0, 0.15)',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  title: {
+    fontFamily: typography.fonts.primary,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.warning,
+    letterSpacing: 2,
+  },
+  message: {
+    flexShrink: 1,
+    fontFamily: typography.fonts.mono,
+    fontSize: typography.sizes.xs,
+    color: cyberpunk.textSecondary,
+  },
+});
@@ -0,0 +1,172 @@
+/**
+ * Shared Blockfrost HTTP client.
+ * All Blockfrost calls (portfolio, staking, export) go through fetchBlockfrost
+ * so they share one rate limiter, retry policy and response cache.
+ * The endpoint and project ID follow the network selected in settings.
+ * Documentation: https://docs.blockfrost.io/
+ */
+
+import { MemoryCache, type ApiCache } from './cache';
+import { TokenBucket } from './rate-limiter';
+import {
+  BlockfrostError,
+  BlockfrostNotFoundError,
+  BlockfrostRateLimitError,
+  BlockfrostServerError,
+  BlockfrostUnauthorizedError,
+  RequestCancelledError,
+  throwIfCancelled,
+} from './errors';
+import { getNetworkConfig } from '../cardano/network';
+import { getActiveNetwork } from '../stores/settings';
+
+export const BLOCKFROST_CONFIG = {
+  /** Sustained request rate allowed by Blockfrost (requests per second) */
+  RATE_LIMIT_PER_SECOND: 10,
+  /** Burst size allowed by Blockfrost before the sustained rate applies */
+  RATE_LIMIT_BURST: 500,
+  /** Maximum retry attempts for 429 and 5xx responses */
+  MAX_RETRIES: 3,
+  /** Base delay for exponential backoff (500ms, 1s, 2s) */
+  RETRY_BASE_DELAY_MS: 500,
+  /** Upper bound for a single backoff delay, including Retry-After hints */
+  RETRY_MAX_DELAY_MS: 10_000,
+  /** Default response cache duration (30 seconds) */
+  DEFAULT_CACHE_TTL_MS: 30 * 1000,
+} as const;
+
+export interface BlockfrostRequestOptions {
+  /** Cache duration for this response. 0 disables caching. */
+  cacheTtlMs?: number;
+  /** Aborts the request, including any pending retry */
+  signal?: AbortSignal;
+}
+
+const rateLimiter = new TokenBucket(
+  BLOCKFROST_CONFIG.RATE_LIMIT_BURST,
+  BLOCKFROST_CONFIG.RATE_LIMIT_PER_SECOND
+);
+
+let cache: ApiCache = new MemoryCache();
+
+/**
+ * Replace the response cache used by all Blockfrost calls.
+ */
+export function setBlockfrostCache(nextCache: ApiCache): void {
+  cache = nextCache;
+}
+
+/**
+ * Clear all cached Blockfrost responses.
+ */
+export async function clearBlockfrostCache(): Promise<void> {
+  await cache.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Backoff delay for a retry attempt. Honors Retry-After (seconds) when present.
+ */
+function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : BLOCKFROST_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+  return Math.min(delay, BLOCKFROST_CONFIG.RETRY_MAX_DELAY_MS);
+}
+
+async function readErrorMessage(response: Response): Promise<string | null> {
+  try {
+    const error = await response.json();
+    if (error && typeof error.message === 'string') {
+      return error.message;
+    }
+  } catch {
+    // Response is not valid JSON, caller uses default message
+  }
+  return null;
+}
+
+/**
+ * Map a failed response to a typed error.
+ */
+async function toBlockfrostError(response: Response): Promise<BlockfrostError> {
+  const message = await readErrorMessage(response);
+  const { status } = response;
+
+  if (status === 404) {
+    return new BlockfrostNotFoundError(message ?? undefined);
+  }
+  if (status === 429) {
+    return new BlockfrostRateLimitError();
+  }
+  if (status === 401 || status === 403) {
+    return new BlockfrostUnauthorizedError(message ?? undefined, status);
+  }
+  if (status >= 500) {
+    return new BlockfrostServerError(message ?? `Blockfrost server error: ${status}`, status);
+  }
+  return new BlockfrostError(message ?? `Blockfrost API error: ${status}`, status);
+}
+
+/**
+ * Fetch a Blockfrost endpoint with rate limiting, retries and caching.
+ *
+ * @param endpoint - Path relative to the API root (e.g. `/accounts/stake1...`)
+ * @param options - Per-request cache settings and abort signal
+ * @throws BlockfrostError subclass for non-2xx responses
+ * @throws RequestCancelledError when the signal is aborted
+ */
+export async function fetchBlockfrost<T>(
+  endpoint: string,
+  options: BlockfrostRequestOptions = {}
+): Promise<T> {
+  const { cacheTtlMs = BLOCKFROST_CONFIG.DEFAULT_CACHE_TTL_MS, signal } = options;
+  const { blockfrostUrl, blockfrostKey } = getNetworkConfig(getActiveNetwork());
+  // Full URL doubles as the cache key, so cached responses never cross networks
+  const url = `${blockfrostUrl}${endpoint}`;
+
+  if (cacheTtlMs > 0) {
+    const cached = await cache.get<T>(url);
+    if (cached !== null) return cached;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter.acquire();
+    throwIfCancelled(signal);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { project_id: blockfrostKey },
+        signal,
+      });
+    } catch (error) {
+      // fetch rejects with a platform AbortError; callers check for one error type
+      if (signal?.aborted) throw new RequestCancelledError();
+      throw error;
+    }
+
+    if (response.ok) {
+      const data: T = await response.json();
+      if (cacheTtlMs > 0) {
+        await cache.set(url, data, cacheTtlMs);
+      }
+      return data;
+    }
+
+    if (isRetryableStatus(response.status) && attempt < BLOCKFROST_CONFIG.MAX_RETRIES) {
+      await sleep(getRetryDelay(response, attempt));
+      continue;
+    }
+
+    throw await toBlockfrostError(response);
+  }
+}
@@ -1,22 +1,25 @@
-import { Transaction, TransactionType } from '../types/transaction';
-
-// Blockfrost API endpoint for Cardano mainnet
-// Documentation: https://docs.blockfrost.io/
-const BASE_URL = 'https://cardano-mainnet.blockfrost.io/api/v0';
-const API_KEY = process.env.EXPO_PUBLIC_BLOCKFROST_KEY || '';
-
-// Rate limit delay between API calls to avoid 429 errors (Blockfrost free tier: 10 req/s)
-const RATE_LIMIT_DELAY_MS = 100;
-// Number of transactions to fetch details for in parallel
+import { Transaction, TransactionAmount, TransactionType } from '../types/transaction';
+import { fetchBlockfrost } from './blockfrost-client';
+import { isCancelledError, isNotFoundError, throwIfCancelled } from './errors';
+import { getEpochStartTimes, getRewardSpendableEpoch, estimateEpochStartTime } from './epochs';
+import { getActiveNetwork } from '../stores/settings';
+import { decodeAssetName, parseAssetUnit } from '../cardano/token-metadata';
+import { parseCip20Message } from '../cardano/cip20';
+
+// Number of transactions to fetch details for in parallel.
+// Request pacing is handled by the shared client's rate limiter.
 const BATCH_SIZE = 10;
 // Blockfrost returns this many transactions per page
 const TRANSACTIONS_PER_PAGE = 100;
 // Maximum pages to fetch (TRANSACTIONS_PER_PAGE * MAX_PAGES = 10,000 tx limit)
 const MAX_PAGES = 100;
-// Maximum retry attempts for rate-limited requests
-const MAX_RETRIES = 3;
+// Blockfrost returns this many rewards per page, oldest epoch first
+const REWARDS_PER_PAGE = 100;
+// Metadata labels larger than this (JSON characters) are stored as a size
+// note only; NFT mints can carry tens of kilobytes per transaction
+const MAX_METADATA_VALUE_LENGTH = 2048;
 
-interface BlockfrostTxRef {
+export interface BlockfrostTxRef {
   tx_hash: string;
   tx_index: number;
   block_height: number;
@@ -33,12 +36,18 @@ interface BlockfrostUtxoInput {
   amount: BlockfrostUtxoAmount[];
   tx_hash: string;
   output_index: number;
+  /** Only spent if the transaction's scripts fail */
+  collateral: boolean;
+  /** CIP-31 reference input, read but never spent */
+  reference?: boolean;
 }
 
 interface BlockfrostUtxoOutput {
   address: string;
   amount: BlockfrostUtxoAmount[];
   output_index: number;
+  /** Collateral return, only created if the transaction's scripts fail */
+  collateral: boolean;
 }
 
 interface BlockfrostTxUtxos {
@@ -52,6 +61,31 @@ interface BlockfrostTxDetails {
   block_height: number;
   block_time: number;
   fees: string;
+  /** Net deposit in lovelace; negative when deposits are refunded */
+  deposit: string;
+  withdrawal_count: number;
+  delegation_count: number;
+  stake_cert_count: number;
+  asset_mint_or_burn_count: number;
+  redeemer_count: number;
+  /** False when a script failed and only collateral was consumed */
+  valid_contract: boolean;
+}
+
+interface BlockfrostTxStakeCert {
+  address: string;
+  /** True for registration, false for deregistration */
+  registration: boolean;
+}
+
+interface BlockfrostTxDelegation {
+  address: string;
+  pool_id: string;
+}
+
+interface BlockfrostTxWithdrawal {
+  address: string;
+  amount: string;
 }
 
 interface BlockfrostReward {
@@ -61,39 +95,45 @@ interface BlockfrostReward {
   type: string;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Everything fetched about one transaction */
+interface BlockfrostTxMetadata {
+  label: string;
+  json_metadata: unknown;
 }
 
-async function fetchBlockfrost<T>(
-  path: string,
-  retryCount = 0
-): Promise<T> {
-  const response = await fetch(`${BASE_URL}${path}`, {
-    headers: { project_id: API_KEY },
-  });
+interface TxData {
+  txRef: BlockfrostTxRef;
+  details: BlockfrostTxDetails;
+  utxos: BlockfrostTxUtxos;
+  stakeCerts: BlockfrostTxStakeCert[];
+  delegations: BlockfrostTxDelegation[];
+  withdrawals: BlockfrostTxWithdrawal[];
+  metadata: BlockfrostTxMetadata[];
+}
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error('Resource not found');
-    }
-    if (response.status === 429) {
-      if (retryCount < MAX_RETRIES) {
-        // Exponential backoff: 100ms, 200ms, 400ms
-        await sleep(RATE_LIMIT_DELAY_MS * Math.pow(2, retryCount));
-        return fetchBlockfrost<T>(path, retryCount + 1);
-      }
-      throw new Error('API rate limit exceeded. Please try again later.');
-    }
-    throw new Error(`Blockfrost error: ${response.status}`);
-  }
+/** The addresses and stake key whose activity is being parsed */
+export interface WalletScope {
+  addresses: string[];
+  /** When null, certificates in transactions the wallet pays for are attributed to it */
+  stakeAddress: string | null;
+}
 
-  return response.json();
+export interface FetchHashesOptions {
+  /** Called with the cumulative count after each page */
+  onProgress?: (current: number) => void;
+  /** Only return transactions in blocks above this height */
+  afterBlockHeight?: number;
+  signal?: AbortSignal;
 }
 
+/**
+ * Fetch an address's transaction references, newest first.
+ * With `afterBlockHeight`, paging stops at the first older transaction, so
+ * only transactions in later blocks are returned.
+ */
 export async function fetchTransactionHashes(
   address: string,
-  onProgress?: (current: number) => void
+  { onProgress, afterBlockHeight, signal }: FetchHashesOptions = {}
 ): Promise<BlockfrostTxRef[]> {
   const allTxs: BlockfrostTxRef[] = [];
   let page = 1;
@@ -101,18 +141,22 @@ export async function fetchTransactionHashes(
   while (page <= MAX_PAGES) {
     try {
       const txs = await fetchBlockfrost<BlockfrostTxRef[]>(
-        `/addresses/${address}/transactions?page=${page}&order=desc`
+        `/addresses/${address}/transactions?page=${page}&order=desc`,
+        { signal }
       );
 
       if (txs.length === 0) break;
-      allTxs.push(...txs);
+      const newTxs =
+        afterBlockHeight === undefined
+          ? txs
+          : txs.filter((tx) => tx.block_height > afterBlockHeight);
+      allTxs.push(...newTxs);
       onProgress?.(allTxs.length);
 
-      if (txs.length < TRANSACTIONS_PER_PAGE) break;
+      if (txs.length < TRANSACTIONS_PER_PAGE || newTxs.length < txs.length) break;
       page++;
-      await sleep(RATE_LIMIT_DELAY_MS);
     } catch (error) {
-      if (error instanceof Error && error.message === 'Resource not found') {
+      if (isNotFoundError(error)) {
         break;
       }
       throw error;
@@ -125,178 +169,376 @@ export async function fetchTransactionHashes(
 export interface FetchTransactionResult {
   transactions: Transaction[];
   failedCount: number;
+  /** References whose details could not be fetched, for a later retry */
+  failedRefs: BlockfrostTxRef[];
+}
+
+/**
+ * Fetch everything needed to parse a transaction. Certificate, delegation
+ * and withdrawal lists are only requested when the transaction has any;
+ * Blockfrost gives no metadata count, so metadata is always requested.
+ */
+async function fetchTxData(txRef: BlockfrostTxRef, signal?: AbortSignal): Promise<TxData> {
+  const [details, utxos] = await Promise.all([
+    fetchBlockfrost<BlockfrostTxDetails>(`/txs/${txRef.tx_hash}`, { signal }),
+    fetchBlockfrost<BlockfrostTxUtxos>(`/txs/${txRef.tx_hash}/utxos`, { signal }),
+  ]);
+
+  const [stakeCerts, delegations, withdrawals, metadata] = await Promise.all([
+    details.stake_cert_count > 0
+      ? fetchBlockfrost<BlockfrostTxStakeCert[]>(`/txs/${txRef.tx_hash}/stakes`, { signal })
+      : [],
+    details.delegation_count > 0
+      ? fetchBlockfrost<BlockfrostTxDelegation[]>(`/txs/${txRef.tx_hash}/delegations`, { signal })
+      : [],
+    details.withdrawal_count > 0
+      ? fetchBlockfrost<BlockfrostTxWithdrawal[]>(`/txs/${txRef.tx_hash}/withdrawals`, { signal })
+      : [],
+    fetchBlockfrost<BlockfrostTxMetadata[]>(`/txs/${txRef.tx_hash}/metadata`, { signal }),
+  ]);
+
+  return { txRef, details, utxos, stakeCerts, delegations, withdrawals, metadata };
 }
 
+/**
+ * Fetch and parse transactions in batches. A transaction that fails to load
+ * is skipped and reported in `failedRefs`; cancelling stops the whole fetch.
+ */
 export async function fetchTransactionDetails(
   txRefs: BlockfrostTxRef[],
-  walletAddresses: string[],
-  onProgress?: (current: number, total: number) => void
+  wallet: WalletScope,
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
 ): Promise<FetchTransactionResult> {
   const transactions: Transaction[] = [];
-  const addressSet = new Set(walletAddresses.map((a) => a.toLowerCase()));
-  let failedCount = 0;
+  const addressSet = new Set(wallet.addresses.map((a) => a.toLowerCase()));
+  const failedRefs: BlockfrostTxRef[] = [];
 
   for (let i = 0; i < txRefs.length; i += BATCH_SIZE) {
+    throwIfCancelled(signal);
     const batch = txRefs.slice(i, i + BATCH_SIZE);
 
     const results = await Promise.all(
       batch.map(async (txRef) => {
         try {
-          const [details, utxos] = await Promise.all([
-            fetchBlockfrost<BlockfrostTxDetails>(`/txs/${txRef.tx_hash}`),
-            fetchBlockfrost<BlockfrostTxUtxos>(`/txs/${txRef.tx_hash}/utxos`),
-          ]);
-          return { details, utxos, txRef };
-        } catch {
+          return await fetchTxData(txRef, signal);
+        } catch (error) {
+          if (isCancelledError(error)) throw error;
           // Individual transaction fetch failures are tracked but don't stop the export
           return null;
         }
       })
     );
 
-    for (const result of results) {
+    results.forEach((result, index) => {
       if (!result) {
-        failedCount++;
-        continue;
+        failedRefs.push(batch[index]);
+        return;
       }
-      const { details, utxos, txRef } = result;
 
-      const tx = parseTransaction(details, utxos, txRef, addressSet);
-      if (tx) {
-        transactions.push(tx);
-      }
-    }
+      transactions.push(...parseTransaction(result, addressSet, wallet.stakeAddress));
+    });
 
     onProgress?.(Math.min(i + BATCH_SIZE, txRefs.length), txRefs.length);
-    // Conservative delay between batches to avoid rate limits after potential retries
-    await sleep(RATE_LIMIT_DELAY_MS * 5);
   }
 
-  return { transactions, failedCount };
+  return { transactions, failedCount: failedRefs.length, failedRefs };
 }
 
-function parseTransaction(
-  details: BlockfrostTxDetails,
+/**
+ * Inputs and outputs that actually moved funds. A valid transaction spends its
+ * regular inputs; a failed script spends only collateral and creates only the
+ * collateral return. Reference inputs are never spent.
+ */
+function getEffectiveUtxos(
   utxos: BlockfrostTxUtxos,
-  txRef: BlockfrostTxRef,
-  walletAddresses: Set<string>
-): Transaction | null {
-  const isInput = utxos.inputs.some((i) =>
-    walletAddresses.has(i.address.toLowerCase())
-  );
-  const isOutput = utxos.outputs.some((o) =>
-    walletAddresses.has(o.address.toLowerCase())
-  );
-
-  const type = classifyTransaction(isInput, isOutput);
-  const netAmount = calculateNetAmount(utxos, walletAddresses, 'lovelace');
-
+  validContract: boolean
+): { inputs: BlockfrostUtxoInput[]; outputs: BlockfrostUtxoOutput[] } {
   return {
+    inputs: utxos.inputs.filter((i) => !i.reference && i.collateral === !validContract),
+    outputs: utxos.outputs.filter((o) => o.collateral === !validContract),
+  };
+}
+
+/**
+ * Metadata keyed by label, with oversized values replaced by a size note.
+ * Undefined when the transaction has no metadata.
+ */
+function mapMetadata(entries: BlockfrostTxMetadata[]): Record<string, unknown> | undefined {
+  if (entries.length === 0) return undefined;
+
+  const metadata: Record<string, unknown> = {};
+  for (const { label, json_metadata } of entries) {
+    const length = JSON.stringify(json_metadata)?.length ?? 0;
+    metadata[label] =
+      length > MAX_METADATA_VALUE_LENGTH ? `[${length} characters not stored]` : json_metadata;
+  }
+  return metadata;
+}
+
+/**
+ * Parse a transaction into one line per asset whose balance it changed.
+ * The ADA line always comes first and carries the fee; native tokens follow
+ * as child lines sharing the same hash, so CSV rows stay one asset each.
+ */
+function parseTransaction(
+  data: TxData,
+  walletAddresses: Set<string>,
+  stakeAddress: string | null
+): Transaction[] {
+  const { details, txRef } = data;
+  const { inputs, outputs } = getEffectiveUtxos(data.utxos, details.valid_contract);
+
+  const isWalletAddress = (address: string) => walletAddresses.has(address.toLowerCase());
+  const isInput = inputs.some((i) => isWalletAddress(i.address));
+  const isOutput = outputs.some((o) => isWalletAddress(o.address));
+
+  // Without a known stake key, certificates in a transaction the wallet
+  // paid for are assumed to be its own
+  const isOwnStakeKey = (address: string) =>
+    stakeAddress ? address === stakeAddress : isInput;
+
+  const stakeCerts = data.stakeCerts.filter((c) => isOwnStakeKey(c.address));
+  const delegation = data.delegations.find((d) => isOwnStakeKey(d.address));
+  const withdrawn = data.withdrawals
+    .filter((w) => isOwnStakeKey(w.address))
+    .reduce((sum, w) => sum + BigInt(w.amount), BigInt(0));
+
+  const netAmounts = calculateNetAmounts(inputs, outputs, isWalletAddress);
+  const mintedAmounts =
+    details.asset_mint_or_burn_count > 0 ? calculateMintedAmounts(inputs, outputs) : new Map();
+
+  // The message is read before oversized labels are dropped
+  const message =
+    parseCip20Message(
+      Object.fromEntries(data.metadata.map((entry) => [entry.label, entry.json_metadata]))
+    ) ?? undefined;
+
+  const base = {
     txHash: details.hash,
     blockHeight: details.block_height,
     blockTime: txRef.block_time,
+    txIndex: txRef.tx_index,
     timestamp: new Date(txRef.block_time * 1000),
+    // Every line carries the message so per-asset CSV rows show it too
+    message,
+  };
+
+  const tokenLines: Transaction[] = [];
+  for (const [unit, netAmount] of netAmounts) {
+    // Tokens that only passed through (e.g. change outputs) net to zero
+    if (unit === 'lovelace' || netAmount === BigInt(0)) continue;
+
+    const minted = mintedAmounts.get(unit) ?? BigInt(0);
+    let type: TransactionType = netAmount > BigInt(0) ? 'receive' : 'send';
+    if (minted > BigInt(0) && netAmount > BigInt(0)) type = 'mint';
+    if (minted < BigInt(0) && netAmount < BigInt(0)) type = 'burn';
+
+    tokenLines.push({
+      ...base,
+      type,
+      inputs: mapAmounts(inputs, unit),
+      outputs: mapAmounts(outputs, unit),
+      netAmount: netAmount.toString(),
+      asset: unit,
+      // Refined from token metadata at export time when available
+      assetTicker: decodeAssetName(parseAssetUnit(unit).assetNameHex) || undefined,
+      assetDecimals: 0,
+    });
+  }
+
+  const type = classifyTransaction({
+    isInput,
+    isOutput,
+    isSelfTransfer:
+      isInput &&
+      inputs.every((i) => isWalletAddress(i.address)) &&
+      outputs.every((o) => isWalletAddress(o.address)),
+    hasRegistration: stakeCerts.some((c) => c.registration),
+    hasDeregistration: stakeCerts.some((c) => !c.registration),
+    hasDelegation: !!delegation,
+    hasWithdrawal: withdrawn > BigInt(0),
+    hasRedeemers: details.redeemer_count > 0,
+    tokenTypes: new Set(tokenLines.map((line) => line.type)),
+  });
+
+  const deposit = BigInt(details.deposit || '0');
+
+  const adaLine: Transaction = {
+    ...base,
     type,
-    inputs: utxos.inputs.map((i) => ({
-      address: i.address,
-      amount: i.amount.find((a) => a.unit === 'lovelace')?.quantity || '0',
-      asset: 'lovelace',
-    })),
-    outputs: utxos.outputs.map((o) => ({
-      address: o.address,
-      amount: o.amount.find((a) => a.unit === 'lovelace')?.quantity || '0',
-      asset: 'lovelace',
-    })),
-    netAmount: netAmount.toString(),
+    inputs: mapAmounts(inputs, 'lovelace'),
+    outputs: mapAmounts(outputs, 'lovelace'),
+    netAmount: (netAmounts.get('lovelace') ?? BigInt(0)).toString(),
     asset: 'lovelace',
     assetTicker: 'ADA',
     fee: isInput ? details.fees : undefined,
+    metadata: mapMetadata(data.metadata),
+    poolId: delegation?.pool_id,
+    stakeAddress: stakeCerts[0]?.address ?? delegation?.address,
+    deposit: stakeCerts.length > 0 && deposit !== BigInt(0) ? deposit.toString() : undefined,
+    withdrawalAmount: withdrawn > BigInt(0) ? withdrawn.toString() : undefined,
+    contractFailed: details.valid_contract ? undefined : true,
   };
+
+  return [adaLine, ...tokenLines];
+}
+
+/**
+ * Map UTxO entries to amounts of a single asset.
+ * Every UTxO holds ADA; for tokens only entries holding the unit are kept.
+ */
+function mapAmounts(
+  entries: { address: string; amount: BlockfrostUtxoAmount[] }[],
+  unit: string
+): TransactionAmount[] {
+  const amounts: TransactionAmount[] = [];
+  for (const entry of entries) {
+    const quantity = entry.amount.find((a) => a.unit === unit)?.quantity;
+    if (!quantity && unit !== 'lovelace') continue;
+    amounts.push({ address: entry.address, amount: quantity || '0', asset: unit });
+  }
+  return amounts;
 }
 
-function classifyTransaction(
-  isInput: boolean,
-  isOutput: boolean
-): TransactionType {
-  if (isInput && !isOutput) return 'send';
-  if (!isInput && isOutput) return 'receive';
-  // Self-transfer: user sends to their own address. Classified as 'send' because
-  // the user pays the fee. In CSV export, this shows as negative net amount (the fee).
-  if (isInput && isOutput) return 'send';
+interface ClassificationInput {
+  isInput: boolean;
+  isOutput: boolean;
+  /** Every spent input and created output belongs to the wallet */
+  isSelfTransfer: boolean;
+  hasRegistration: boolean;
+  hasDeregistration: boolean;
+  hasDelegation: boolean;
+  hasWithdrawal: boolean;
+  hasRedeemers: boolean;
+  /** Types of the transaction's native token lines */
+  tokenTypes: Set<TransactionType>;
+}
+
+/**
+ * Classify the ADA line of a transaction. Stake key actions come first since
+ * they explain deposits and refunds in the net amount, then withdrawals,
+ * script interactions, token mints/burns and finally plain transfers.
+ */
+function classifyTransaction(input: ClassificationInput): TransactionType {
+  if (input.hasDeregistration) return 'stake_deregistration';
+  if (input.hasRegistration) return 'stake_registration';
+  if (input.hasDelegation) return 'stake_delegate';
+  if (input.hasWithdrawal) return 'withdrawal';
+  if (input.hasRedeemers) return 'contract';
+  if (input.tokenTypes.has('mint')) return 'mint';
+  if (input.tokenTypes.has('burn')) return 'burn';
+  // Self-transfer: user sends to their own address. The net amount is the fee.
+  if (input.isSelfTransfer) return 'self_transfer';
+  if (input.isInput) return 'send';
+  if (input.isOutput) return 'receive';
   return 'unknown';
 }
 
-function calculateNetAmount(
-  utxos: BlockfrostTxUtxos,
-  walletAddresses: Set<string>,
-  asset: string
-): bigint {
-  let received = BigInt(0);
-  let sent = BigInt(0);
-
-  for (const output of utxos.outputs) {
-    if (walletAddresses.has(output.address.toLowerCase())) {
-      const amount = output.amount.find((a) => a.unit === asset);
-      if (amount) received += BigInt(amount.quantity);
+/**
+ * Net change per asset unit for the wallet: received outputs minus spent inputs.
+ */
+function calculateNetAmounts(
+  inputs: BlockfrostUtxoInput[],
+  outputs: BlockfrostUtxoOutput[],
+  isWalletAddress: (address: string) => boolean
+): Map<string, bigint> {
+  const netAmounts = new Map<string, bigint>();
+
+  const add = (amounts: BlockfrostUtxoAmount[], sign: bigint) => {
+    for (const amount of amounts) {
+      const current = netAmounts.get(amount.unit) ?? BigInt(0);
+      netAmounts.set(amount.unit, current + sign * BigInt(amount.quantity));
+    }
+  };
+
+  for (const output of outputs) {
+    if (isWalletAddress(output.address)) {
+      add(output.amount, BigInt(1));
     }
   }
 
-  for (const input of utxos.inputs) {
-    if (walletAddresses.has(input.address.toLowerCase())) {
-      const amount = input.amount.find((a) => a.unit === asset);
-      if (amount) sent += BigInt(amount.quantity);
+  for (const input of inputs) {
+    if (isWalletAddress(input.address)) {
+      add(input.amount, BigInt(-1));
     }
   }
 
-  return received - sent;
+  return netAmounts;
 }
 
-// Cardano Shelley era parameters for epoch-to-timestamp conversion.
-// Source: Cardano mainnet protocol parameters.
-// Shelley era started July 29, 2020 at 21:44:51 UTC (epoch 208).
-// Note: These values are fixed for mainnet but could differ on testnets.
-const SHELLEY_START_TIMESTAMP = 1596059091;
-const EPOCH_LENGTH_SECONDS = 432000; // 5 days in seconds
-const SHELLEY_START_EPOCH = 208;
+/**
+ * Tokens created (positive) or destroyed (negative) by the transaction:
+ * the difference between what all outputs hold and what all inputs spent.
+ */
+function calculateMintedAmounts(
+  inputs: BlockfrostUtxoInput[],
+  outputs: BlockfrostUtxoOutput[]
+): Map<string, bigint> {
+  return calculateNetAmounts(inputs, outputs, () => true);
+}
 
 /**
- * Converts a Cardano epoch number to an approximate Unix timestamp.
- * Returns the end of the epoch as an approximation of when rewards are distributed.
- * Note: Actual reward distribution occurs ~2 days after epoch end, so timestamps
- * may be off by up to ~2 days from when users actually received rewards.
+ * Fetch every reward of a stake address, oldest epoch first, up to MAX_PAGES pages.
  */
-function epochToTimestamp(epoch: number): number {
-  return (
-    SHELLEY_START_TIMESTAMP +
-    (epoch - SHELLEY_START_EPOCH + 1) * EPOCH_LENGTH_SECONDS
-  );
+async function fetchAllRewards(
+  stakeAddress: string,
+  signal?: AbortSignal
+): Promise<BlockfrostReward[]> {
+  const rewards: BlockfrostReward[] = [];
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const pageRewards = await fetchBlockfrost<BlockfrostReward[]>(
+      `/accounts/${stakeAddress}/rewards?page=${page}`,
+      { signal }
+    );
+    rewards.push(...pageRewards);
+    if (pageRewards.length < REWARDS_PER_PAGE) break;
+  }
+
+  return rewards;
 }
 
+/**
+ * Staking rewards as transaction lines, dated at the start of the epoch in
+ * which each reward became spendable (two epochs after it was earned).
+ */
 export async function fetchStakingRewards(
-  stakeAddress: string
+  stakeAddress: string,
+  signal?: AbortSignal
 ): Promise<Transaction[]> {
   try {
-    const rewards = await fetchBlockfrost<BlockfrostReward[]>(
-      `/accounts/${stakeAddress}/rewards`
+    const network = getActiveNetwork();
+    const rewards = await fetchAllRewards(stakeAddress, signal);
+    const startTimes = await getEpochStartTimes(
+      rewards.map((reward) => getRewardSpendableEpoch(reward.epoch)),
+      network,
+      signal
     );
 
     // Staking rewards don't have a specific block - they're distributed at epoch boundaries.
     // blockHeight is set to 0 to indicate "not applicable" for rewards.
-    return rewards.map((reward) => ({
-      txHash: `reward_epoch_${reward.epoch}`,
-      blockHeight: 0,
-      blockTime: epochToTimestamp(reward.epoch),
-      timestamp: new Date(epochToTimestamp(reward.epoch) * 1000),
-      type: 'stake_reward' as const,
-      inputs: [],
-      outputs: [],
-      netAmount: reward.amount,
-      asset: 'lovelace',
-      assetTicker: 'ADA',
-      poolId: reward.pool_id,
-    }));
+    return rewards.map((reward) => {
+      const spendableEpoch = getRewardSpendableEpoch(reward.epoch);
+      const blockTime =
+        startTimes.get(spendableEpoch) ?? estimateEpochStartTime(spendableEpoch, network);
+      return {
+        txHash: `reward_epoch_${reward.epoch}`,
+        blockHeight: 0,
+        blockTime,
+        timestamp: new Date(blockTime * 1000),
+        type: 'stake_reward' as const,
+        inputs: [],
+        outputs: [],
+        netAmount: reward.amount,
+        asset: 'lovelace',
+        assetTicker: 'ADA',
+        poolId: reward.pool_id,
+        earnedEpoch: reward.epoch,
+      };
+    });
   } catch (error) {
-    if (error instanceof Error && error.message === 'Resource not found') {
+    if (isNotFoundError(error)) {
       return [];
     }
     throw error;
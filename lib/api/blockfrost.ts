@@ -1,61 +1,9 @@
-// Blockfrost API endpoint for Cardano mainnet
-// Documentation: https://docs.blockfrost.io/
-const BASE_URL = 'https://cardano-mainnet.blockfrost.io/api/v0';
-const API_KEY = process.env.EXPO_PUBLIC_BLOCKFROST_KEY || '';
-
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-}
-
-const cache = new Map<string, CacheEntry<unknown>>();
-const CACHE_TTL = 30 * 1000; // 30 seconds
-
-function getCached<T>(key: string): T | null {
-  const entry = cache.get(key);
-  if (!entry) return null;
-
-  const isExpired = Date.now() - entry.timestamp > CACHE_TTL;
-  if (isExpired) {
-    cache.delete(key);
-    return null;
-  }
-
-  return entry.data as T;
-}
-
-function setCache<T>(key: string, data: T): void {
-  cache.set(key, { data, timestamp: Date.now() });
-}
+/**
+ * Blockfrost account, address and asset lookups.
+ * Requests go through the shared client in blockfrost-client.ts.
+ */
 
-export async function fetchBlockfrost<T>(endpoint: string): Promise<T> {
-  const cacheKey = endpoint;
-  const cached = getCached<T>(cacheKey);
-  if (cached) return cached;
-
-  const response = await fetch(`${BASE_URL}${endpoint}`, {
-    headers: {
-      project_id: API_KEY,
-    },
-  });
-
-  if (!response.ok) {
-    let errorMessage = `Blockfrost API error: ${response.status}`;
-    try {
-      const error = await response.json();
-      if (error && error.message) {
-        errorMessage = error.message;
-      }
-    } catch {
-      // Response is not valid JSON, use default message with status code
-    }
-    throw new Error(errorMessage);
-  }
-
-  const data = await response.json();
-  setCache(cacheKey, data);
-  return data;
-}
+import { fetchBlockfrost } from './blockfrost-client';
 
 export interface AccountInfo {
   stake_address: string;
@@ -0,0 +1,123 @@
+/**
+ * Pluggable response cache for API clients.
+ * The interface is async so persistent backends can implement it.
+ */
+
+export interface ApiCache {
+  /** Return cached value, or null if missing or expired */
+  get<T>(key: string): Promise<T | null>;
+  /** Store a value for ttlMs milliseconds */
+  set<T>(key: string, data: T, ttlMs: number): Promise<void>;
+  /** Remove a single entry */
+  delete(key: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  expiresAt: number;
+}
+
+/** Default upper bound on in-memory entries to keep memory flat during exports */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory TTL cache.
+ * Evicts the oldest entry once maxEntries is reached (Map preserves insertion order).
+ */
+export class MemoryCache implements ApiCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.data as T;
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    // Re-insert so updated keys move to the end of the eviction order
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+
+    this.entries.set(key, { data, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/** Minimal AsyncStorage surface, so this module has no React Native import */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+/**
+ * Persistent TTL cache with one storage entry per key.
+ * Entries are stored separately so large values (e.g. token logos) never
+ * push a single storage row past platform size limits.
+ */
+export class PersistentCache implements ApiCache {
+  constructor(
+    private storage: KeyValueStorage,
+    private keyPrefix: string
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.storage.getItem(this.keyPrefix + key);
+      if (!raw) return null;
+
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (Date.now() > entry.expiresAt) {
+        await this.storage.removeItem(this.keyPrefix + key);
+        return null;
+      }
+      return entry.data;
+    } catch {
+      // Corrupt or unreadable entry - treat as a miss
+      return null;
+    }
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    const entry: CacheEntry<T> = { data, expiresAt: Date.now() + ttlMs };
+    try {
+      await this.storage.setItem(this.keyPrefix + key, JSON.stringify(entry));
+    } catch {
+      // Storage full or unavailable - caching is best effort
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.removeItem(this.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.storage.getAllKeys();
+    await this.storage.multiRemove(keys.filter((k) => k.startsWith(this.keyPrefix)));
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Epoch boundary times.
+ *
+ * Start times come from Blockfrost `/epochs/{n}` and are cached permanently,
+ * since a started epoch's boundaries never change. Epochs that have not
+ * started yet are estimated from the network's Shelley-era parameters.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fetchBlockfrost } from './blockfrost-client';
+import { PersistentCache } from './cache';
+import { isNotFoundError } from './errors';
+import { getNetworkConfig, type CardanoNetwork } from '../cardano/network';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+
+export const EPOCH_CONFIG = {
+  /** Rewards earned in epoch N are paid out at the start of epoch N + 2 */
+  REWARD_SPENDABLE_DELAY_EPOCHS: 2,
+  /** Epoch boundaries are immutable; 100 years stands in for "forever" */
+  CACHE_TTL_MS: 100 * 365 * 24 * 60 * 60 * 1000,
+} as const;
+
+interface BlockfrostEpoch {
+  epoch: number;
+  /** Unix timestamp (seconds) of the epoch's start */
+  start_time: number;
+  end_time: number;
+}
+
+const epochCache = new PersistentCache(AsyncStorage, STORAGE_KEYS.EPOCH_PREFIX);
+
+/**
+ * Start of an epoch (Unix seconds) from the network's Shelley-era parameters.
+ */
+export function estimateEpochStartTime(epoch: number, network: CardanoNetwork): number {
+  const { shelleyStartTimestamp, shelleyStartEpoch, epochLengthSeconds } =
+    getNetworkConfig(network);
+  return shelleyStartTimestamp + (epoch - shelleyStartEpoch) * epochLengthSeconds;
+}
+
+/**
+ * Epoch in which rewards earned during `earnedEpoch` become spendable.
+ */
+export function getRewardSpendableEpoch(earnedEpoch: number): number {
+  return earnedEpoch + EPOCH_CONFIG.REWARD_SPENDABLE_DELAY_EPOCHS;
+}
+
+/**
+ * Start of an epoch (Unix seconds) on the given network, which must be the
+ * active one. Falls back to the estimate for epochs that have not started.
+ */
+export async function getEpochStartTime(
+  epoch: number,
+  network: CardanoNetwork,
+  signal?: AbortSignal
+): Promise<number> {
+  const cacheKey = `${network}:${epoch}`;
+  const cached = await epochCache.get<number>(cacheKey);
+  if (cached !== null) return cached;
+
+  try {
+    const { start_time } = await fetchBlockfrost<BlockfrostEpoch>(`/epochs/${epoch}`, {
+      cacheTtlMs: 0,
+      signal,
+    });
+    await epochCache.set(cacheKey, start_time, EPOCH_CONFIG.CACHE_TTL_MS);
+    return start_time;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return estimateEpochStartTime(epoch, network);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start times for several epochs, fetching each distinct epoch once.
+ */
+export async function getEpochStartTimes(
+  epochs: number[],
+  network: CardanoNetwork,
+  signal?: AbortSignal
+): Promise<Map<number, number>> {
+  const distinct = Array.from(new Set(epochs));
+  return new Map(
+    await Promise.all(
+      distinct.map(async (epoch) => [epoch, await getEpochStartTime(epoch, network, signal)] as const)
+    )
+  );
+}
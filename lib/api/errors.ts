@@ -0,0 +1,91 @@
+/**
+ * Blockfrost API error types.
+ * Call sites should check error classes instead of matching on messages.
+ */
+
+/**
+ * Base error for any non-2xx Blockfrost response.
+ */
+export class BlockfrostError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'BlockfrostError';
+  }
+}
+
+/**
+ * 404 - the requested resource does not exist on chain
+ * (e.g. unused address, unregistered stake key).
+ */
+export class BlockfrostNotFoundError extends BlockfrostError {
+  constructor(message = 'Resource not found') {
+    super(message, 404);
+    this.name = 'BlockfrostNotFoundError';
+  }
+}
+
+/**
+ * 429 - rate limit exceeded after all retries.
+ */
+export class BlockfrostRateLimitError extends BlockfrostError {
+  constructor(message = 'API rate limit exceeded. Please try again later.') {
+    super(message, 429);
+    this.name = 'BlockfrostRateLimitError';
+  }
+}
+
+/**
+ * 401/403 - missing, invalid or wrong-network project ID.
+ */
+export class BlockfrostUnauthorizedError extends BlockfrostError {
+  constructor(message = 'Blockfrost API key is missing or invalid', status = 403) {
+    super(message, status);
+    this.name = 'BlockfrostUnauthorizedError';
+  }
+}
+
+/**
+ * 5xx - Blockfrost backend failure after all retries.
+ */
+export class BlockfrostServerError extends BlockfrostError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'BlockfrostServerError';
+  }
+}
+
+/**
+ * The caller aborted the request (e.g. a cancelled export).
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Throw RequestCancelledError if the signal has been aborted.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * Check if an error is a cancellation.
+ */
+export function isCancelledError(error: unknown): error is RequestCancelledError {
+  return error instanceof RequestCancelledError;
+}
+
+/**
+ * Check if an error is a Blockfrost 404.
+ */
+export function isNotFoundError(error: unknown): error is BlockfrostNotFoundError {
+  return error instanceof BlockfrostNotFoundError;
+}
@@ -0,0 +1,135 @@
+/**
+ * Historical ADA fiat prices (daily close).
+ *
+ * Closes come from the CryptoCompare daily history endpoint, which needs no
+ * API key and returns up to 2000 days per request. Fetched and imported
+ * closes are kept in the price history store, so each day is only fetched
+ * once and exports keep working offline.
+ */
+
+import { usePriceHistoryStore, type FiatCurrency } from '../stores/priceHistoryStore';
+import { usePortfolioHistoryStore } from '../stores/portfolioHistoryStore';
+import { toDateKey, dateKeyToTimestamp } from '../utils/portfolio-history';
+
+export const PRICE_HISTORY_CONFIG = {
+  BASE_URL: 'https://min-api.cryptocompare.com/data/v2/histoday',
+  /** Maximum days returned per request */
+  MAX_DAYS_PER_REQUEST: 2000,
+  /** Safety cap on requests for a single range */
+  MAX_REQUESTS: 5,
+} as const;
+
+const SECONDS_PER_DAY = 86_400;
+
+interface HistodayEntry {
+  /** Start of the UTC day (seconds) */
+  time: number;
+  close: number;
+}
+
+interface HistodayResponse {
+  Response: 'Success' | 'Error';
+  Message?: string;
+  Data?: { Data?: HistodayEntry[] };
+}
+
+/**
+ * Fetch daily closes for an inclusive UTC date range.
+ * Days before ADA was listed (close of 0) are omitted.
+ */
+export async function fetchDailyCloses(
+  currency: FiatCurrency,
+  fromDate: string,
+  toDate: string
+): Promise<Record<string, number>> {
+  const closes: Record<string, number> = {};
+  const fromTs = dateKeyToTimestamp(fromDate);
+  let toTs = dateKeyToTimestamp(toDate);
+
+  for (let request = 0; request < PRICE_HISTORY_CONFIG.MAX_REQUESTS && toTs >= fromTs; request++) {
+    const days = Math.min(
+      Math.floor((toTs - fromTs) / SECONDS_PER_DAY) + 1,
+      PRICE_HISTORY_CONFIG.MAX_DAYS_PER_REQUEST
+    );
+    // limit counts days before toTs, so limit + 1 entries are returned
+    const url =
+      `${PRICE_HISTORY_CONFIG.BASE_URL}?fsym=ADA&tsym=${currency.toUpperCase()}` +
+      `&limit=${days - 1}&toTs=${toTs}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ADA price history: ${response.status}`);
+    }
+    const body = (await response.json()) as HistodayResponse;
+    if (body.Response !== 'Success') {
+      throw new Error(body.Message || 'Failed to fetch ADA price history');
+    }
+
+    const entries = body.Data?.Data ?? [];
+    for (const entry of entries) {
+      if (entry.close > 0 && entry.time >= fromTs) {
+        closes[toDateKey(entry.time)] = entry.close;
+      }
+    }
+
+    if (entries.length === 0) break;
+    toTs = entries[0].time - SECONDS_PER_DAY;
+  }
+
+  return closes;
+}
+
+export interface HistoricalPrices {
+  /** ADA price in the requested currency by UTC date */
+  prices: Record<string, number>;
+  /** Dates that have no price from any source */
+  missingDates: string[];
+  /** Set when fetching failed and stored prices were used */
+  fetchError: string | null;
+}
+
+/**
+ * ADA prices for the given dates, fetching any days not already stored.
+ * Falls back to stored closes, then to prices observed in the app on that
+ * day, when offline or the price API fails.
+ */
+export async function getHistoricalAdaPrices(
+  currency: FiatCurrency,
+  dates: string[]
+): Promise<HistoricalPrices> {
+  const today = toDateKey(Math.floor(Date.now() / 1000));
+  const uniqueDates = Array.from(new Set(dates)).sort();
+  const stored = usePriceHistoryStore.getState().closes[currency];
+  const unknown = uniqueDates.filter((date) => stored[date] === undefined);
+
+  let fetchError: string | null = null;
+  let todayClose: number | undefined;
+  if (unknown.length > 0) {
+    try {
+      const fetched = await fetchDailyCloses(currency, unknown[0], unknown[unknown.length - 1]);
+      // Today's close is not final yet, so it is used but not stored
+      const { [today]: partialClose, ...finalCloses } = fetched;
+      usePriceHistoryStore.getState().addCloses(currency, finalCloses, 'api');
+      todayClose = partialClose;
+    } catch (error) {
+      fetchError = error instanceof Error ? error.message : 'Failed to fetch ADA price history';
+    }
+  }
+
+  const closes = usePriceHistoryStore.getState().closes[currency];
+  const observed = usePortfolioHistoryStore.getState().dailyPrices;
+
+  const prices: Record<string, number> = {};
+  const missingDates: string[] = [];
+  for (const date of uniqueDates) {
+    const price =
+      (date === today ? todayClose : undefined) || closes[date] || observed[date]?.[currency];
+    if (price) {
+      prices[date] = price;
+    } else {
+      missingDates.push(date);
+    }
+  }
+
+  return { prices, missingDates, fetchError };
+}
@@ -0,0 +1,79 @@
+/**
+ * React Query persistence and connectivity wiring.
+ * Selected queries are written to AsyncStorage so a cold start without
+ * connectivity still shows the last known data.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { QueryClient, onlineManager, type Query } from '@tanstack/react-query';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import type { PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+
+/** Persisted queries older than this are discarded on restore */
+export const QUERY_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Bump when a persisted query's data shape changes to discard old caches */
+const QUERY_CACHE_BUSTER = '3';
+
+/** Minimum interval between cache writes */
+const PERSIST_THROTTLE_MS = 1000;
+
+/**
+ * Root query keys worth keeping across restarts: the data shown on first
+ * render of the portfolio, staking and DeFi screens.
+ */
+const PERSISTED_QUERY_ROOTS = new Set(['wallet-balance', 'delegation', 'pool', 'ada-fiat-price']);
+
+function shouldPersistQuery(query: Query): boolean {
+  return (
+    query.state.status === 'success' &&
+    PERSISTED_QUERY_ROOTS.has(String(query.queryKey[0]))
+  );
+}
+
+export function createQueryClient(): QueryClient {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: 2,
+        staleTime: 30 * 1000,
+      },
+    },
+  });
+
+  // Restored queries are garbage collected after gcTime, so persisted ones
+  // keep theirs for the persistence window; the rest use the default
+  for (const root of PERSISTED_QUERY_ROOTS) {
+    queryClient.setQueryDefaults([root], { gcTime: QUERY_CACHE_MAX_AGE_MS });
+  }
+
+  return queryClient;
+}
+
+export const queryPersistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: createAsyncStoragePersister({
+    storage: AsyncStorage,
+    key: STORAGE_KEYS.QUERY_CACHE,
+    throttleTime: PERSIST_THROTTLE_MS,
+  }),
+  maxAge: QUERY_CACHE_MAX_AGE_MS,
+  buster: QUERY_CACHE_BUSTER,
+  dehydrateOptions: {
+    shouldDehydrateQuery: shouldPersistQuery,
+  },
+};
+
+/**
+ * Drive React Query's online state from NetInfo.
+ * While offline, queries pause instead of failing and keep serving cached data.
+ */
+export function setupOnlineManager(): void {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      // isConnected is null until the first check completes
+      setOnline(state.isConnected !== false);
+    })
+  );
+}
@@ -0,0 +1,422 @@
+/**
+ * Local transaction database.
+ *
+ * Parsed transaction lines are kept per wallet along with the highest synced
+ * block height, so each sync only fetches transactions from newer blocks
+ * (and the full history of addresses the wallet has gained since).
+ * Lines are appended across several storage entries (like the token metadata
+ * cache) so a long history never exceeds per-entry size limits.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import type { KeyValueStorage } from './cache';
+import { isCancelledError } from './errors';
+import {
+  fetchTransactionHashes,
+  fetchTransactionDetails,
+  type BlockfrostTxRef,
+  type WalletScope,
+} from './blockfrost-transactions';
+import type { Transaction } from '../types/transaction';
+
+export const TRANSACTION_STORE_CONFIG = {
+  /** Bump when parsing or the stored line shape changes, forcing a full resync */
+  SCHEMA_VERSION: 5,
+  /** Transaction lines per storage entry */
+  LINES_PER_CHUNK: 500,
+  /** Transactions fetched between saves, bounding the work lost to a cancel or crash */
+  CHECKPOINT_SIZE: 100,
+  /** Wait before retrying failed transactions, letting transient errors clear */
+  RETRY_DELAY_MS: 2000,
+} as const;
+
+/**
+ * A line as stored: the timestamp is rebuilt from blockTime. Only the ADA line
+ * keeps its UTxO lists; token lines list the same addresses again.
+ */
+type StoredLine = Omit<Transaction, 'timestamp' | 'inputs' | 'outputs'> &
+  Partial<Pick<Transaction, 'inputs' | 'outputs'>>;
+
+interface StoreMeta {
+  version: number;
+  /** Addresses whose transactions are included */
+  addresses: string[];
+  /** Highest block height discovered (0 when empty) */
+  lastBlockHeight: number;
+  /** Discovered transactions not yet fetched (failed or interrupted), fetched next sync */
+  pendingRefs: BlockfrostTxRef[];
+  /** Chunk entries in append order; only the last one may be partly filled */
+  chunkIds: number[];
+  nextChunkId: number;
+  /** When the last save finished (ms) */
+  syncedAt: number;
+}
+
+/** Sync state carried between saves */
+interface StoreState {
+  meta: StoreMeta | null;
+  /** Lines of the last chunk while it still has room */
+  tail: StoredLine[];
+}
+
+export interface SyncProgress {
+  phase: 'fetching' | 'processing';
+  current: number;
+  total: number;
+}
+
+export interface SyncResult {
+  /** Every known line for the wallet, newest first */
+  transactions: Transaction[];
+  /** Transactions still missing details after a retry; fetched again next sync */
+  failedCount: number;
+  /** Transactions fetched by this sync */
+  fetchedCount: number;
+}
+
+const storage: KeyValueStorage = AsyncStorage;
+
+/** A sync in progress and the scope it was started for */
+interface InflightSync {
+  scopeKey: string;
+  promise: Promise<SyncResult>;
+}
+
+/** Syncs in progress per store, so concurrent callers with the same scope share one fetch */
+const inflightSyncs = new Map<string, InflightSync>();
+
+function getStoreKey(network: string, wallet: WalletScope): string {
+  return `${STORAGE_KEYS.TRANSACTION_STORE_PREFIX}${network}:${wallet.stakeAddress ?? wallet.addresses[0]}`;
+}
+
+function getScopeKey(wallet: WalletScope): string {
+  return JSON.stringify([wallet.stakeAddress, [...wallet.addresses].sort()]);
+}
+
+function getChunkKey(storeKey: string, chunkId: number): string {
+  return `${storeKey}:${chunkId}`;
+}
+
+function toStoredLine({ timestamp: _t, inputs, outputs, ...line }: Transaction): StoredLine {
+  return line.asset === 'lovelace' ? { ...line, inputs, outputs } : line;
+}
+
+function fromStoredLine(line: StoredLine): Transaction {
+  return {
+    ...line,
+    timestamp: new Date(line.blockTime * 1000),
+    inputs: line.inputs ?? [],
+    outputs: line.outputs ?? [],
+  };
+}
+
+async function readMeta(storeKey: string): Promise<StoreMeta | null> {
+  try {
+    const raw = await storage.getItem(`${storeKey}:meta`);
+    const meta = raw ? (JSON.parse(raw) as StoreMeta) : null;
+    return meta?.version === TRANSACTION_STORE_CONFIG.SCHEMA_VERSION ? meta : null;
+  } catch {
+    // Corrupt entry - resync from scratch
+    return null;
+  }
+}
+
+/** Stored chunks in append order, or null if any is missing or unreadable */
+async function readChunks(storeKey: string, meta: StoreMeta): Promise<StoredLine[][] | null> {
+  try {
+    const chunks = await Promise.all(
+      meta.chunkIds.map((chunkId) => storage.getItem(getChunkKey(storeKey, chunkId)))
+    );
+    if (chunks.some((chunk) => chunk === null)) return null;
+    return chunks.map((chunk) => JSON.parse(chunk as string) as StoredLine[]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write lines into chunks under fresh IDs starting at `firstChunkId`.
+ * Returns the IDs used and the last chunk's lines if it has room left.
+ */
+async function writeChunks(
+  storeKey: string,
+  lines: StoredLine[],
+  firstChunkId: number
+): Promise<{ chunkIds: number[]; nextChunkId: number; tail: StoredLine[] }> {
+  let nextChunkId = firstChunkId;
+  const chunkIds: number[] = [];
+  let tail: StoredLine[] = [];
+  for (let start = 0; start < lines.length; start += TRANSACTION_STORE_CONFIG.LINES_PER_CHUNK) {
+    const chunk = lines.slice(start, start + TRANSACTION_STORE_CONFIG.LINES_PER_CHUNK);
+    await storage.setItem(getChunkKey(storeKey, nextChunkId), JSON.stringify(chunk));
+    chunkIds.push(nextChunkId++);
+    tail = chunk.length < TRANSACTION_STORE_CONFIG.LINES_PER_CHUNK ? chunk : [];
+  }
+  return { chunkIds, nextChunkId, tail };
+}
+
+/**
+ * Append lines and save sync state. New chunks get fresh IDs and the meta
+ * entry switches over last, so an interrupted save leaves the previous one
+ * intact. Returns the state now in storage.
+ */
+async function appendToStore(
+  storeKey: string,
+  state: StoreState,
+  lines: StoredLine[],
+  meta: Pick<StoreMeta, 'addresses' | 'lastBlockHeight' | 'pendingRefs'>
+): Promise<StoreState> {
+  const previous = state.meta;
+  // A partly filled last chunk is rewritten under a new ID together with the new lines
+  const replacedIds = previous && state.tail.length > 0 ? previous.chunkIds.slice(-1) : [];
+  const keptIds = previous
+    ? previous.chunkIds.slice(0, previous.chunkIds.length - replacedIds.length)
+    : [];
+
+  try {
+    const written = await writeChunks(
+      storeKey,
+      [...state.tail, ...lines],
+      previous?.nextChunkId ?? 0
+    );
+
+    const nextMeta: StoreMeta = {
+      ...meta,
+      version: TRANSACTION_STORE_CONFIG.SCHEMA_VERSION,
+      chunkIds: [...keptIds, ...written.chunkIds],
+      nextChunkId: written.nextChunkId,
+      syncedAt: Date.now(),
+    };
+    await storage.setItem(`${storeKey}:meta`, JSON.stringify(nextMeta));
+
+    if (replacedIds.length > 0) {
+      await storage.multiRemove(replacedIds.map((chunkId) => getChunkKey(storeKey, chunkId)));
+    }
+    return { meta: nextMeta, tail: written.tail };
+  } catch (error) {
+    // Storage full (Android caps AsyncStorage at ~6MB) or unavailable; the
+    // next sync refetches what was not saved
+    console.warn(`[TransactionStore] Failed to save ${lines.length} transaction lines:`, error);
+    return state;
+  }
+}
+
+/**
+ * Rewrite the store without the given transactions, so they can be fetched
+ * again and appended. They are added to the pending list in case the sync
+ * stops first. Returns the remaining lines and the state now in storage, or
+ * null if the rewrite could not be saved.
+ */
+async function removeFromStore(
+  storeKey: string,
+  meta: StoreMeta,
+  lines: StoredLine[],
+  removedRefs: BlockfrostTxRef[]
+): Promise<{ state: StoreState; lines: StoredLine[] } | null> {
+  const removedHashes = new Set(removedRefs.map((txRef) => txRef.tx_hash));
+  const keptLines = lines.filter((line) => !removedHashes.has(line.txHash));
+
+  try {
+    const written = await writeChunks(storeKey, keptLines, meta.nextChunkId);
+    const nextMeta: StoreMeta = {
+      ...meta,
+      pendingRefs: [...meta.pendingRefs, ...removedRefs],
+      chunkIds: written.chunkIds,
+      nextChunkId: written.nextChunkId,
+      syncedAt: Date.now(),
+    };
+    await storage.setItem(`${storeKey}:meta`, JSON.stringify(nextMeta));
+    await storage.multiRemove(meta.chunkIds.map((chunkId) => getChunkKey(storeKey, chunkId)));
+    return { state: { meta: nextMeta, tail: written.tail }, lines: keptLines };
+  } catch (error) {
+    console.warn('[TransactionStore] Failed to rewrite stored transactions:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove every entry for a store, including any left by older schema versions.
+ */
+async function clearStore(storeKey: string): Promise<void> {
+  try {
+    const keys = await storage.getAllKeys();
+    await storage.multiRemove(keys.filter((key) => key.startsWith(`${storeKey}:`)));
+  } catch {
+    // Leftover entries are overwritten or ignored by later syncs
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runSync(
+  storeKey: string,
+  wallet: WalletScope,
+  onProgress?: (progress: SyncProgress) => void,
+  signal?: AbortSignal,
+  isRetry = false
+): Promise<SyncResult> {
+  const storedMeta = await readMeta(storeKey);
+  const chunks = storedMeta ? await readChunks(storeKey, storedMeta) : null;
+  let meta = chunks !== null ? storedMeta : null;
+  if (!meta) {
+    await clearStore(storeKey);
+  }
+  let storedLines = chunks?.flat() ?? [];
+
+  const knownAddresses = new Set(meta?.addresses ?? []);
+  const addresses = Array.from(new Set([...knownAddresses, ...wallet.addresses]));
+  const scope: WalletScope = { addresses, stakeAddress: wallet.stakeAddress };
+
+  // Known addresses only need blocks after the last sync; an address the
+  // store has never seen may hold older history
+  onProgress?.({ phase: 'fetching', current: 0, total: 0 });
+  const addressProgress = new Map<string, number>();
+  const refsByAddress = await Promise.all(
+    addresses.map((address) =>
+      fetchTransactionHashes(address, {
+        onProgress: (count) => {
+          addressProgress.set(address, count);
+          const current = Array.from(addressProgress.values()).reduce((sum, n) => sum + n, 0);
+          onProgress?.({ phase: 'fetching', current, total: 0 });
+        },
+        afterBlockHeight: meta && knownAddresses.has(address) ? meta.lastBlockHeight : undefined,
+        signal,
+      })
+    )
+  );
+
+  // New transactions plus those left over from earlier syncs, deduplicated
+  const seenHashes = new Set<string>();
+  const txRefs = [...refsByAddress.flat(), ...(meta?.pendingRefs ?? [])].filter((txRef) => {
+    if (seenHashes.has(txRef.tx_hash)) return false;
+    seenHashes.add(txRef.tx_hash);
+    return true;
+  });
+
+  // Stored transactions that also touch a new address were parsed without it
+  // (its outputs counted as sent away), so they are fetched and stored again.
+  // Everything else stays, and every transaction is appended exactly once.
+  const storedHashes = new Set(storedLines.map((line) => line.txHash));
+  const restatedRefs = txRefs.filter((txRef) => storedHashes.has(txRef.tx_hash));
+  if (meta && restatedRefs.length > 0) {
+    const removed = await removeFromStore(storeKey, meta, storedLines, restatedRefs);
+    if (removed) {
+      meta = removed.state.meta;
+      storedLines = removed.lines;
+    } else if (!isRetry) {
+      // Could not rewrite the store; start over rather than store duplicates
+      await clearStore(storeKey);
+      return runSync(storeKey, wallet, onProgress, signal, true);
+    } else {
+      // The clear failed too, so storage is not accepting changes
+      throw new Error('Failed to update saved transactions; device storage may be full');
+    }
+  }
+
+  // Unfetched transactions are kept as pending, so the height can cover them all
+  const lastBlockHeight = txRefs.reduce(
+    (max, txRef) => Math.max(max, txRef.block_height),
+    meta?.lastBlockHeight ?? 0
+  );
+
+  // Every chunk but the last is full, so the remainder is the last chunk's lines
+  const lastChunk = storedLines.slice(
+    Math.floor(storedLines.length / TRANSACTION_STORE_CONFIG.LINES_PER_CHUNK) *
+      TRANSACTION_STORE_CONFIG.LINES_PER_CHUNK
+  );
+  let state: StoreState = { meta, tail: lastChunk };
+  const fetched: Transaction[] = [];
+  const save = async (transactions: Transaction[], pendingRefs: BlockfrostTxRef[]) => {
+    fetched.push(...transactions);
+    state = await appendToStore(storeKey, state, transactions.map(toStoredLine), {
+      addresses,
+      lastBlockHeight,
+      pendingRefs,
+    });
+  };
+
+  onProgress?.({ phase: 'processing', current: 0, total: txRefs.length });
+  let failedRefs: BlockfrostTxRef[] = [];
+  for (let start = 0; start < txRefs.length; start += TRANSACTION_STORE_CONFIG.CHECKPOINT_SIZE) {
+    const end = start + TRANSACTION_STORE_CONFIG.CHECKPOINT_SIZE;
+    const result = await fetchTransactionDetails(
+      txRefs.slice(start, end),
+      scope,
+      (current) =>
+        onProgress?.({ phase: 'processing', current: start + current, total: txRefs.length }),
+      signal
+    );
+    failedRefs.push(...result.failedRefs);
+    await save(result.transactions, [...failedRefs, ...txRefs.slice(end)]);
+  }
+
+  // Retry the transactions that failed once more before reporting them
+  if (failedRefs.length > 0) {
+    await sleep(TRANSACTION_STORE_CONFIG.RETRY_DELAY_MS);
+    onProgress?.({ phase: 'processing', current: 0, total: failedRefs.length });
+    const retry = await fetchTransactionDetails(
+      failedRefs,
+      scope,
+      (current, total) => onProgress?.({ phase: 'processing', current, total }),
+      signal
+    );
+    failedRefs = retry.failedRefs;
+    await save(retry.transactions, failedRefs);
+  } else if (txRefs.length === 0) {
+    // Nothing new; still record the sync
+    await save([], []);
+  }
+
+  const transactions = [...storedLines.map(fromStoredLine), ...fetched].sort(
+    (a, b) => b.blockTime - a.blockTime
+  );
+
+  return {
+    transactions,
+    failedCount: failedRefs.length,
+    fetchedCount: txRefs.length - failedRefs.length,
+  };
+}
+
+/**
+ * Bring a wallet's stored transactions up to date and return all of them.
+ * The first sync fetches full history; later syncs fetch only newer blocks
+ * plus anything an earlier sync failed or was cancelled before fetching.
+ *
+ * @throws RequestCancelledError when `signal` is aborted; progress up to the
+ *   last checkpoint is kept and the next sync resumes from there
+ */
+export function syncWalletTransactions(
+  network: string,
+  wallet: WalletScope,
+  onProgress?: (progress: SyncProgress) => void,
+  signal?: AbortSignal
+): Promise<SyncResult> {
+  const storeKey = getStoreKey(network, wallet);
+  const scopeKey = getScopeKey(wallet);
+  const inflight = inflightSyncs.get(storeKey);
+  if (inflight?.scopeKey === scopeKey) {
+    // Another caller cancelling its sync does not cancel this one
+    return inflight.promise.catch((error) => {
+      if (isCancelledError(error) && !signal?.aborted) {
+        return syncWalletTransactions(network, wallet, onProgress, signal);
+      }
+      throw error;
+    });
+  }
+  if (inflight) {
+    // A sync for a different scope writes to the same store; run after it
+    return inflight.promise
+      .catch(() => undefined)
+      .then(() => syncWalletTransactions(network, wallet, onProgress, signal));
+  }
+
+  const promise = runSync(storeKey, wallet, onProgress, signal).finally(() => {
+    inflightSyncs.delete(storeKey);
+  });
+  inflightSyncs.set(storeKey, { scopeKey, promise });
+  return promise;
+}
@@ -0,0 +1,515 @@
+/**
+ * Cardano address decoding and validation (CIP-19).
+ *
+ * Decodes Shelley bech32 addresses and Byron base58 addresses, verifies
+ * checksums, and exposes the header type, network and credentials.
+ * Lets us validate input and derive stake addresses without an API call.
+ */
+
+import { bech32Decode, bech32Encode } from './bech32';
+import { NETWORK_CONFIG, type CardanoNetwork } from './network';
+
+/** Credential hashes are Blake2b-224 (28 bytes) */
+const CREDENTIAL_HASH_BYTES = 28;
+/** Header byte + payment credential + stake credential */
+const BASE_ADDRESS_BYTES = 1 + CREDENTIAL_HASH_BYTES * 2;
+/** Header byte + single credential (enterprise and reward addresses) */
+const SINGLE_CREDENTIAL_ADDRESS_BYTES = 1 + CREDENTIAL_HASH_BYTES;
+/** Byron header type in the upper nibble */
+const BYRON_HEADER_TYPE = 0b1000;
+/** Reward address header types (key hash, script hash) */
+const REWARD_KEY_HEADER_TYPE = 0b1110;
+/** CBOR tag wrapping the Byron address payload */
+const BYRON_PAYLOAD_TAG = 24;
+/** Byron address attribute key for the protocol magic */
+const BYRON_PROTOCOL_MAGIC_ATTRIBUTE = 2;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export type AddressKind = 'base' | 'pointer' | 'enterprise' | 'reward' | 'byron';
+
+export type CredentialType = 'key' | 'script';
+
+export interface Credential {
+  type: CredentialType;
+  /** Blake2b-224 hash as hex */
+  hash: string;
+}
+
+/** Pointer to a stake registration certificate (pointer addresses) */
+export interface StakePointer {
+  slot: number;
+  txIndex: number;
+  certIndex: number;
+}
+
+export interface DecodedAddress {
+  /** Original address string */
+  address: string;
+  kind: AddressKind;
+  /** Header type from the upper nibble of the first byte (0-15) */
+  headerType: number;
+  /** Network ID: 1 = mainnet, 0 = testnet */
+  networkId: number;
+  /** Byron protocol magic, null for Shelley addresses and Byron mainnet */
+  protocolMagic: number | null;
+  /** Payment credential, null for reward and Byron addresses */
+  paymentCredential: Credential | null;
+  /** Stake credential, null unless base or reward address */
+  stakeCredential: Credential | null;
+  /** Stake pointer, null unless pointer address */
+  pointer: StakePointer | null;
+}
+
+export type AddressErrorCode =
+  | 'INVALID_ENCODING'
+  | 'INVALID_CHECKSUM'
+  | 'INVALID_HEADER'
+  | 'INVALID_LENGTH'
+  | 'INVALID_PREFIX';
+
+export class AddressDecodeError extends Error {
+  constructor(
+    message: string,
+    public code: AddressErrorCode
+  ) {
+    super(message);
+    this.name = 'AddressDecodeError';
+  }
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// =============================================================================
+// SHELLEY (BECH32) ADDRESSES
+// =============================================================================
+
+function readCredential(bytes: Uint8Array, offset: number, isScript: boolean): Credential {
+  return {
+    type: isScript ? 'script' : 'key',
+    hash: bytesToHex(bytes.slice(offset, offset + CREDENTIAL_HASH_BYTES)),
+  };
+}
+
+/**
+ * Read a variable-length natural number (7 bits per byte, big-endian,
+ * high bit set on all but the last byte).
+ */
+function readVariableNat(bytes: Uint8Array, offset: number): { value: number; next: number } {
+  let value = 0;
+  let index = offset;
+  for (;;) {
+    if (index >= bytes.length) {
+      throw new AddressDecodeError('Truncated pointer address', 'INVALID_LENGTH');
+    }
+    const byte = bytes[index++];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) break;
+  }
+  return { value, next: index };
+}
+
+function expectLength(bytes: Uint8Array, length: number): void {
+  if (bytes.length !== length) {
+    throw new AddressDecodeError(
+      `Invalid address length: expected ${length} bytes, got ${bytes.length}`,
+      'INVALID_LENGTH'
+    );
+  }
+}
+
+function decodeShelleyBytes(address: string, prefix: string, bytes: Uint8Array): DecodedAddress {
+  if (bytes.length === 0) {
+    throw new AddressDecodeError('Empty address payload', 'INVALID_LENGTH');
+  }
+
+  const headerType = bytes[0] >> 4;
+  const networkId = bytes[0] & 0x0f;
+  const result: DecodedAddress = {
+    address,
+    kind: 'base',
+    headerType,
+    networkId,
+    protocolMagic: null,
+    paymentCredential: null,
+    stakeCredential: null,
+    pointer: null,
+  };
+
+  switch (headerType) {
+    // Base addresses: payment credential + stake credential
+    case 0b0000:
+    case 0b0001:
+    case 0b0010:
+    case 0b0011:
+      expectLength(bytes, BASE_ADDRESS_BYTES);
+      result.kind = 'base';
+      result.paymentCredential = readCredential(bytes, 1, (headerType & 0b0001) !== 0);
+      result.stakeCredential = readCredential(
+        bytes,
+        1 + CREDENTIAL_HASH_BYTES,
+        (headerType & 0b0010) !== 0
+      );
+      break;
+
+    // Pointer addresses: payment credential + certificate pointer
+    case 0b0100:
+    case 0b0101: {
+      if (bytes.length < SINGLE_CREDENTIAL_ADDRESS_BYTES + 3) {
+        throw new AddressDecodeError('Pointer address too short', 'INVALID_LENGTH');
+      }
+      result.kind = 'pointer';
+      result.paymentCredential = readCredential(bytes, 1, headerType === 0b0101);
+      const slot = readVariableNat(bytes, SINGLE_CREDENTIAL_ADDRESS_BYTES);
+      const txIndex = readVariableNat(bytes, slot.next);
+      const certIndex = readVariableNat(bytes, txIndex.next);
+      if (certIndex.next !== bytes.length) {
+        throw new AddressDecodeError('Trailing bytes in pointer address', 'INVALID_LENGTH');
+      }
+      result.pointer = {
+        slot: slot.value,
+        txIndex: txIndex.value,
+        certIndex: certIndex.value,
+      };
+      break;
+    }
+
+    // Enterprise addresses: payment credential only
+    case 0b0110:
+    case 0b0111:
+      expectLength(bytes, SINGLE_CREDENTIAL_ADDRESS_BYTES);
+      result.kind = 'enterprise';
+      result.paymentCredential = readCredential(bytes, 1, headerType === 0b0111);
+      break;
+
+    // Reward addresses: stake credential only
+    case 0b1110:
+    case 0b1111:
+      expectLength(bytes, SINGLE_CREDENTIAL_ADDRESS_BYTES);
+      result.kind = 'reward';
+      result.stakeCredential = readCredential(bytes, 1, headerType === 0b1111);
+      break;
+
+    default:
+      throw new AddressDecodeError(
+        `Unsupported address header type: ${headerType}`,
+        'INVALID_HEADER'
+      );
+  }
+
+  // The bech32 prefix must agree with the header's address kind and network
+  const isTestnet = networkId === 0;
+  const expectedPrefix = result.kind === 'reward'
+    ? (isTestnet ? 'stake_test' : 'stake')
+    : (isTestnet ? 'addr_test' : 'addr');
+
+  if (networkId > 1 || prefix !== expectedPrefix) {
+    throw new AddressDecodeError(
+      `Address prefix "${prefix}" does not match its header`,
+      'INVALID_PREFIX'
+    );
+  }
+
+  return result;
+}
+
+// =============================================================================
+// BYRON (BASE58 + CBOR) ADDRESSES
+// =============================================================================
+
+function base58Decode(input: string): Uint8Array | null {
+  // Big-endian base conversion; bytes are stored little-endian while accumulating
+  const bytes: number[] = [];
+  for (const char of input) {
+    const value = BASE58_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+
+    let carry = value;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading '1's encode leading zero bytes
+  for (const char of input) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+
+  return Uint8Array.from(bytes.reverse());
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Minimal CBOR reader covering the subset used by Byron addresses
+ * (unsigned ints, byte strings, arrays, maps, tags).
+ */
+class CborReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  private readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new AddressDecodeError('Truncated CBOR data', 'INVALID_ENCODING');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  /** Read a major type and its argument */
+  private readHead(): { major: number; value: number } {
+    const initial = this.readByte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (info < 24) return { major, value: info };
+
+    const length = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (length === 0) {
+      throw new AddressDecodeError('Unsupported CBOR encoding', 'INVALID_ENCODING');
+    }
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 256 + this.readByte();
+    }
+    return { major, value };
+  }
+
+  private expect(major: number): number {
+    const head = this.readHead();
+    if (head.major !== major) {
+      throw new AddressDecodeError('Unexpected CBOR structure', 'INVALID_ENCODING');
+    }
+    return head.value;
+  }
+
+  readUint(): number {
+    return this.expect(0);
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.expect(2);
+    if (this.offset + length > this.bytes.length) {
+      throw new AddressDecodeError('Truncated CBOR data', 'INVALID_ENCODING');
+    }
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  readArrayLength(): number {
+    return this.expect(4);
+  }
+
+  readMapLength(): number {
+    return this.expect(5);
+  }
+
+  readTag(): number {
+    return this.expect(6);
+  }
+}
+
+function decodeByronAddress(address: string): DecodedAddress {
+  const raw = base58Decode(address);
+  if (!raw || raw.length === 0) {
+    throw new AddressDecodeError('Invalid address encoding', 'INVALID_ENCODING');
+  }
+
+  // Outer structure: [ tag24(payload bytes), crc32(payload) ]
+  const outer = new CborReader(raw);
+  if (outer.readArrayLength() !== 2 || outer.readTag() !== BYRON_PAYLOAD_TAG) {
+    throw new AddressDecodeError('Invalid Byron address structure', 'INVALID_ENCODING');
+  }
+  const payload = outer.readBytes();
+  const checksum = outer.readUint();
+  if (!outer.done) {
+    throw new AddressDecodeError('Trailing bytes in Byron address', 'INVALID_LENGTH');
+  }
+  if (crc32(payload) !== checksum) {
+    throw new AddressDecodeError('Invalid address checksum', 'INVALID_CHECKSUM');
+  }
+
+  // Payload: [ address root, attributes map, address type ]
+  const inner = new CborReader(payload);
+  if (inner.readArrayLength() !== 3) {
+    throw new AddressDecodeError('Invalid Byron address payload', 'INVALID_ENCODING');
+  }
+  const root = inner.readBytes();
+  if (root.length !== CREDENTIAL_HASH_BYTES) {
+    throw new AddressDecodeError('Invalid Byron address root', 'INVALID_LENGTH');
+  }
+
+  // Attributes: 1 = HD derivation path (bytes), 2 = protocol magic (CBOR-in-bytes)
+  let protocolMagic: number | null = null;
+  const attributeCount = inner.readMapLength();
+  for (let i = 0; i < attributeCount; i++) {
+    const key = inner.readUint();
+    const value = inner.readBytes();
+    if (key === BYRON_PROTOCOL_MAGIC_ATTRIBUTE) {
+      protocolMagic = new CborReader(value).readUint();
+    }
+  }
+  inner.readUint(); // address type (0 = pubkey, 2 = redeem)
+
+  return {
+    address,
+    kind: 'byron',
+    headerType: BYRON_HEADER_TYPE,
+    networkId: protocolMagic === null ? NETWORK_CONFIG.mainnet.networkId : 0,
+    protocolMagic,
+    paymentCredential: null,
+    stakeCredential: null,
+    pointer: null,
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Decode a Cardano address (bech32 Shelley or base58 Byron).
+ *
+ * @throws AddressDecodeError if the address is malformed or the checksum fails
+ */
+export function decodeAddress(address: string): DecodedAddress {
+  const trimmed = address.trim();
+
+  // Shelley addresses are bech32 with a known prefix; anything else is tried as Byron base58
+  if (/^(addr|addr_test|stake|stake_test)1/i.test(trimmed)) {
+    const decoded = bech32Decode(trimmed);
+    if (!decoded) {
+      throw new AddressDecodeError('Invalid address checksum', 'INVALID_CHECKSUM');
+    }
+    return decodeShelleyBytes(trimmed, decoded.prefix, decoded.bytes);
+  }
+
+  return decodeByronAddress(trimmed);
+}
+
+/**
+ * Check whether a decoded address belongs to the given network.
+ * Shelley testnets share network ID 0, so preprod and preview are only
+ * distinguishable for Byron addresses (via protocol magic).
+ */
+export function isAddressOnNetwork(decoded: DecodedAddress, network: CardanoNetwork): boolean {
+  const config = NETWORK_CONFIG[network];
+  if (decoded.kind === 'byron' && decoded.protocolMagic !== null) {
+    return decoded.protocolMagic === config.protocolMagic;
+  }
+  return decoded.networkId === config.networkId;
+}
+
+/**
+ * Validate an address for a network.
+ * Returns the decoded address on success.
+ */
+export function validateAddress(
+  address: string,
+  network: CardanoNetwork
+): { valid: boolean; error?: string; decoded?: DecodedAddress } {
+  let decoded: DecodedAddress;
+  try {
+    decoded = decodeAddress(address);
+  } catch (error) {
+    if (error instanceof AddressDecodeError) {
+      return { valid: false, error: error.message };
+    }
+    throw error;
+  }
+
+  if (!isAddressOnNetwork(decoded, network)) {
+    return {
+      valid: false,
+      error: `Address is not a ${NETWORK_CONFIG[network].label} address`,
+    };
+  }
+
+  return { valid: true, decoded };
+}
+
+/**
+ * Check if a string is a well-formed Cardano address, optionally for a network.
+ */
+export function isValidAddress(address: string, network?: CardanoNetwork): boolean {
+  try {
+    const decoded = decodeAddress(address);
+    return network ? isAddressOnNetwork(decoded, network) : true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode a stake credential as a reward (stake) address.
+ */
+export function encodeStakeAddress(credential: Credential, networkId: number): string {
+  const headerType = REWARD_KEY_HEADER_TYPE | (credential.type === 'script' ? 1 : 0);
+  const bytes = new Uint8Array(SINGLE_CREDENTIAL_ADDRESS_BYTES);
+  bytes[0] = (headerType << 4) | networkId;
+  bytes.set(hexToBytes(credential.hash), 1);
+  return bech32Encode(networkId === 0 ? 'stake_test' : 'stake', bytes);
+}
+
+/**
+ * Derive the stake address locally from a base or reward address.
+ * Returns null for address kinds that carry no stake credential
+ * (enterprise, Byron) or only a pointer to one.
+ */
+export function deriveStakeAddress(address: string): string | null {
+  let decoded: DecodedAddress;
+  try {
+    decoded = decodeAddress(address);
+  } catch {
+    return null;
+  }
+
+  if (decoded.kind === 'reward') return decoded.address;
+  if (!decoded.stakeCredential) return null;
+  return encodeStakeAddress(decoded.stakeCredential, decoded.networkId);
+}
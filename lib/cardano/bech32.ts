@@ -0,0 +1,126 @@
+/**
+ * Bech32 encoding (BIP-173) as used by Cardano (CIP-5).
+ *
+ * Cardano addresses exceed BIP-173's 90 character limit, so no length
+ * limit is enforced here beyond what the checksum can protect.
+ */
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const CHECKSUM_LENGTH = 6;
+/** Upper bound that keeps checksum guarantees meaningful (CIP-5 recommends 1023) */
+const MAX_BECH32_LENGTH = 1023;
+
+export interface Bech32Decoded {
+  /** Human-readable prefix (e.g. "addr", "stake_test") */
+  prefix: string;
+  /** Decoded payload bytes */
+  bytes: Uint8Array;
+}
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < GENERATORS.length; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= GENERATORS[i];
+      }
+    }
+  }
+  return chk;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < prefix.length; i++) {
+    result.push(prefix.charCodeAt(i) >>> 5);
+  }
+  result.push(0);
+  for (let i = 0; i < prefix.length; i++) {
+    result.push(prefix.charCodeAt(i) & 31);
+  }
+  return result;
+}
+
+function createChecksum(prefix: string, words: number[]): number[] {
+  const values = [...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0];
+  const mod = polymod(values) ^ 1;
+  const checksum: number[] = [];
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    checksum.push((mod >>> (5 * (CHECKSUM_LENGTH - 1 - i))) & 31);
+  }
+  return checksum;
+}
+
+/**
+ * Regroup bits between word sizes (8-bit bytes <-> 5-bit words).
+ * Returns null if padding is invalid when converting back to bytes.
+ */
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+  // Mask keeps the accumulator within 32-bit integer range
+  const maxAcc = (1 << (from + to - 1)) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    acc = ((acc << from) | data[i]) & maxAcc;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((acc >>> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((acc << (to - bits)) & maxValue);
+    }
+  } else if (bits >= from || ((acc << (to - bits)) & maxValue) !== 0) {
+    return null;
+  }
+
+  return result;
+}
+
+/**
+ * Encode bytes as a bech32 string with the given prefix.
+ */
+export function bech32Encode(prefix: string, bytes: Uint8Array): string {
+  const words = convertBits(bytes, 8, 5, true) ?? [];
+  const checksum = createChecksum(prefix, words);
+  return prefix + '1' + [...words, ...checksum].map((w) => CHARSET[w]).join('');
+}
+
+/**
+ * Decode and checksum-verify a bech32 string.
+ * Returns null for malformed input or a bad checksum.
+ */
+export function bech32Decode(input: string): Bech32Decoded | null {
+  if (input.length > MAX_BECH32_LENGTH) return null;
+
+  // Mixed case is invalid per BIP-173
+  const lower = input.toLowerCase();
+  if (lower !== input && input.toUpperCase() !== input) return null;
+
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + CHECKSUM_LENGTH + 1 > lower.length) return null;
+
+  const prefix = lower.slice(0, separator);
+  const words: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const value = CHARSET.indexOf(char);
+    if (value === -1) return null;
+    words.push(value);
+  }
+
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) return null;
+
+  const bytes = convertBits(words.slice(0, -CHECKSUM_LENGTH), 5, 8, false);
+  if (!bytes) return null;
+
+  return { prefix, bytes: Uint8Array.from(bytes) };
+}
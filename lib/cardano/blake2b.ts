@@ -0,0 +1,117 @@
+/**
+ * BLAKE2b hashing (RFC 7693), unkeyed.
+ *
+ * Cardano hashes pool metadata with Blake2b-256. Inputs here are small
+ * (pool metadata is capped at 512 bytes), so 64-bit words use BigInt for
+ * clarity rather than speed.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+const BLOCK_BYTES = 128;
+const MAX_OUTPUT_BYTES = 64;
+
+const IV = [
+  0x6a09e667f3bcc908n,
+  0xbb67ae8584caa73bn,
+  0x3c6ef372fe94f82bn,
+  0xa54ff53a5f1d36f1n,
+  0x510e527fade682d1n,
+  0x9b05688c2b3e6c1fn,
+  0x1f83d9abfb41bd6bn,
+  0x5be0cd19137e2179n,
+];
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+const ROUNDS = 12;
+
+function rotr(value: bigint, bits: bigint): bigint {
+  return ((value >> bits) | (value << (64n - bits))) & MASK_64;
+}
+
+function mix(v: bigint[], a: number, b: number, c: number, d: number, x: bigint, y: bigint): void {
+  v[a] = (v[a] + v[b] + x) & MASK_64;
+  v[d] = rotr(v[d] ^ v[a], 32n);
+  v[c] = (v[c] + v[d]) & MASK_64;
+  v[b] = rotr(v[b] ^ v[c], 24n);
+  v[a] = (v[a] + v[b] + y) & MASK_64;
+  v[d] = rotr(v[d] ^ v[a], 16n);
+  v[c] = (v[c] + v[d]) & MASK_64;
+  v[b] = rotr(v[b] ^ v[c], 63n);
+}
+
+function readWord(block: Uint8Array, offset: number): bigint {
+  let word = 0n;
+  for (let i = 7; i >= 0; i--) {
+    word = (word << 8n) | BigInt(block[offset + i]);
+  }
+  return word;
+}
+
+function compress(h: bigint[], block: Uint8Array, bytesHashed: number, isLast: boolean): void {
+  const m = Array.from({ length: 16 }, (_, i) => readWord(block, i * 8));
+  const v = [...h, ...IV];
+  const counter = BigInt(bytesHashed);
+  v[12] ^= counter & MASK_64;
+  v[13] ^= counter >> 64n;
+  if (isLast) v[14] ^= MASK_64;
+
+  for (let round = 0; round < ROUNDS; round++) {
+    const s = SIGMA[round % SIGMA.length];
+    mix(v, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+    mix(v, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+    mix(v, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+    mix(v, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+    mix(v, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+    mix(v, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+    mix(v, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+    mix(v, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+
+  for (let i = 0; i < 8; i++) {
+    h[i] ^= v[i] ^ v[i + 8];
+  }
+}
+
+/**
+ * Hash bytes with BLAKE2b.
+ *
+ * @param data - Input bytes
+ * @param outputBytes - Digest length (1-64), e.g. 32 for Blake2b-256
+ */
+export function blake2b(data: Uint8Array, outputBytes: number = 32): Uint8Array {
+  if (!Number.isInteger(outputBytes) || outputBytes < 1 || outputBytes > MAX_OUTPUT_BYTES) {
+    throw new Error(`Invalid BLAKE2b output length: ${outputBytes}`);
+  }
+
+  const h = [...IV];
+  // Parameter block: digest length, no key, fanout 1, depth 1
+  h[0] ^= 0x01010000n ^ BigInt(outputBytes);
+
+  const block = new Uint8Array(BLOCK_BYTES);
+  let offset = 0;
+  // The final block is compressed with the last-block flag, even when full or empty
+  while (data.length - offset > BLOCK_BYTES) {
+    compress(h, data.subarray(offset, offset + BLOCK_BYTES), offset + BLOCK_BYTES, false);
+    offset += BLOCK_BYTES;
+  }
+  block.set(data.subarray(offset));
+  compress(h, block, data.length, true);
+
+  const digest = new Uint8Array(outputBytes);
+  for (let i = 0; i < outputBytes; i++) {
+    digest[i] = Number((h[i >> 3] >> BigInt(8 * (i & 7))) & 0xffn);
+  }
+  return digest;
+}
@@ -0,0 +1,37 @@
+/**
+ * CIP-20 transaction messages.
+ *
+ * Wallets attach payment memos under metadata label 674 as
+ * `{ "msg": ["line 1", "line 2"] }`, each string at most 64 bytes.
+ * Messages encrypted with CIP-83 carry `"enc"` and base64 ciphertext lines,
+ * which can only be read with the shared passphrase.
+ * Spec: https://cips.cardano.org/cip/CIP-0020
+ */
+
+export const CIP20_LABEL = '674';
+
+/** Shown instead of the text of an encrypted message */
+export const ENCRYPTED_MESSAGE_PLACEHOLDER = '[encrypted message]';
+
+/**
+ * The message lines in transaction metadata (keyed by label), or null when
+ * there is no well-formed CIP-20 message.
+ */
+export function parseCip20Message(metadata: Record<string, unknown> | undefined): string[] | null {
+  const value = metadata?.[CIP20_LABEL];
+  if (!value || typeof value !== 'object') return null;
+
+  const { msg, enc } = value as { msg?: unknown; enc?: unknown };
+  // A single string is not spec-compliant but some wallets write one
+  const lines = typeof msg === 'string' ? [msg] : msg;
+  if (!Array.isArray(lines) || !lines.every((line) => typeof line === 'string')) {
+    return null;
+  }
+
+  if (typeof enc === 'string' && enc !== '') {
+    return [ENCRYPTED_MESSAGE_PLACEHOLDER];
+  }
+
+  const text = (lines as string[]).map((line) => line.trim()).filter((line) => line !== '');
+  return text.length > 0 ? text : null;
+}
@@ -5,9 +5,16 @@
  * Uses the official Handle.me API for resolution.
  */
 
-// Official Handle.me API endpoint
+import {
+  DEFAULT_NETWORK,
+  getNetworkConfig,
+  isPaymentAddressForNetwork,
+  isStakeAddressForNetwork,
+  type CardanoNetwork,
+} from './network';
+
+// Handle.me API endpoints are per network (see NETWORK_CONFIG.handleApiUrl)
 // Documentation: https://docs.handle.me/
-const HANDLE_API_BASE = 'https://api.handle.me';
 
 // Valid handle characters: a-z, 0-9, underscore, hyphen, period
 const HANDLE_REGEX = /^[a-z0-9_.\-]+$/i;
@@ -16,12 +23,9 @@ const MAX_HANDLE_LENGTH = 15;
 export interface HandleResolution {
   /** The handle that was resolved (without the '$' prefix). */
   handle: string;
-  /**
-   * The primary resolved address. This will be the payment address (addr1...)
-   * if available, otherwise it falls back to the stake address.
-   */
+  /** The resolved payment address (addr1... or addr_test1... on testnets). */
   address: string;
-  /** The stake address (stake1...) associated with the handle, if available. */
+  /** The stake address (stake1... or stake_test1...) associated with the handle, if available. */
   stakeAddress: string | null;
 }
 
@@ -73,10 +77,14 @@ interface HandleApiResponse {
  * Resolve an ADA Handle to a wallet address
  *
  * @param handle - The handle to resolve (with or without $ prefix)
+ * @param network - Network to resolve on (handles are minted per network)
  * @returns The resolved address and stake address
  * @throws HandleResolutionError if resolution fails
  */
-export async function resolveHandle(handle: string): Promise<HandleResolution> {
+export async function resolveHandle(
+  handle: string,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): Promise<HandleResolution> {
   // Remove $ prefix if present
   const cleanHandle = handle.startsWith('$') ? handle.slice(1) : handle;
 
@@ -92,7 +100,7 @@ export async function resolveHandle(handle: string): Promise<HandleResolution> {
   try {
     // Query Handle.me API
     const response = await fetch(
-      `${HANDLE_API_BASE}/handles/${cleanHandle.toLowerCase()}`
+      `${getNetworkConfig(network).handleApiUrl}/handles/${cleanHandle.toLowerCase()}`
     );
 
     if (response.status === 404) {
@@ -111,14 +119,15 @@ export async function resolveHandle(handle: string): Promise<HandleResolution> {
 
     const data: HandleApiResponse = await response.json();
 
-    // Get the resolved payment address (addr1...)
-    // Stake addresses (stake1...) cannot receive payments, so we require a payment address
+    // Get the resolved payment address for this network
+    // Stake addresses cannot receive payments, so we require a payment address
     const address = data.resolved_addresses?.ada ?? null;
     const stakeAddress = data.holder;
 
-    if (!address || !address.startsWith('addr1')) {
+    if (!address || !isPaymentAddressForNetwork(address, network)) {
+      const prefix = getNetworkConfig(network).addressPrefix;
       throw new HandleResolutionError(
-        `Handle $${cleanHandle} has no payment address. Only handles with payment addresses (addr1...) are supported.`,
+        `Handle $${cleanHandle} has no payment address. Only handles with payment addresses (${prefix}1...) are supported.`,
         'NOT_FOUND'
       );
     }
@@ -127,7 +136,8 @@ export async function resolveHandle(handle: string): Promise<HandleResolution> {
       handle: cleanHandle,
       address,
       // The 'holder' field should be a stake address, but validate to be safe
-      stakeAddress: stakeAddress?.startsWith('stake1') ? stakeAddress : null,
+      stakeAddress:
+        stakeAddress && isStakeAddressForNetwork(stakeAddress, network) ? stakeAddress : null,
     };
   } catch (error) {
     if (error instanceof HandleResolutionError) {
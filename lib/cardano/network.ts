@@ -0,0 +1,110 @@
+/**
+ * Cardano network configuration.
+ *
+ * Per-network endpoints, address prefixes and Shelley-era time parameters.
+ * Everything that differs between mainnet and the public testnets lives here.
+ */
+
+export type CardanoNetwork = 'mainnet' | 'preprod' | 'preview';
+
+export interface NetworkConfig {
+  /** Display label */
+  label: string;
+  /** Blockfrost API root (project IDs are network-specific) */
+  blockfrostUrl: string;
+  /** Blockfrost project ID for this network */
+  blockfrostKey: string;
+  /** Handle.me API root */
+  handleApiUrl: string;
+  /** Bech32 human-readable prefix for payment addresses */
+  addressPrefix: string;
+  /** Bech32 human-readable prefix for reward (stake) addresses */
+  stakeAddressPrefix: string;
+  /** Network ID in Shelley address headers (1 = mainnet, 0 = any testnet) */
+  networkId: number;
+  /** Protocol magic, which Byron addresses embed for non-mainnet networks */
+  protocolMagic: number;
+  /** Unix timestamp (seconds) of the first Shelley epoch */
+  shelleyStartTimestamp: number;
+  /** First Shelley epoch number */
+  shelleyStartEpoch: number;
+  /** Shelley epoch length in seconds */
+  epochLengthSeconds: number;
+}
+
+// Expo only inlines EXPO_PUBLIC_* variables referenced by their literal name,
+// so each key must be read explicitly.
+export const NETWORK_CONFIG: Record<CardanoNetwork, NetworkConfig> = {
+  mainnet: {
+    label: 'Mainnet',
+    blockfrostUrl: 'https://cardano-mainnet.blockfrost.io/api/v0',
+    blockfrostKey: process.env.EXPO_PUBLIC_BLOCKFROST_KEY || '',
+    handleApiUrl: 'https://api.handle.me',
+    addressPrefix: 'addr',
+    stakeAddressPrefix: 'stake',
+    networkId: 1,
+    protocolMagic: 764824073,
+    // Shelley era started July 29, 2020 at 21:44:51 UTC (epoch 208)
+    shelleyStartTimestamp: 1596059091,
+    shelleyStartEpoch: 208,
+    epochLengthSeconds: 432000, // 5 days
+  },
+  preprod: {
+    label: 'Preprod',
+    blockfrostUrl: 'https://cardano-preprod.blockfrost.io/api/v0',
+    blockfrostKey: process.env.EXPO_PUBLIC_BLOCKFROST_KEY_PREPROD || '',
+    handleApiUrl: 'https://preprod.api.handle.me',
+    addressPrefix: 'addr_test',
+    stakeAddressPrefix: 'stake_test',
+    networkId: 0,
+    protocolMagic: 1,
+    // Shelley era started June 21, 2022 at 00:00:00 UTC (epoch 4)
+    shelleyStartTimestamp: 1655769600,
+    shelleyStartEpoch: 4,
+    epochLengthSeconds: 432000, // 5 days
+  },
+  preview: {
+    label: 'Preview',
+    blockfrostUrl: 'https://cardano-preview.blockfrost.io/api/v0',
+    blockfrostKey: process.env.EXPO_PUBLIC_BLOCKFROST_KEY_PREVIEW || '',
+    handleApiUrl: 'https://preview.api.handle.me',
+    addressPrefix: 'addr_test',
+    stakeAddressPrefix: 'stake_test',
+    networkId: 0,
+    protocolMagic: 2,
+    // Preview starts directly in Shelley on October 25, 2022 at 00:00:00 UTC
+    shelleyStartTimestamp: 1666656000,
+    shelleyStartEpoch: 0,
+    epochLengthSeconds: 86400, // 1 day
+  },
+};
+
+export const NETWORKS: CardanoNetwork[] = ['mainnet', 'preprod', 'preview'];
+
+export const DEFAULT_NETWORK: CardanoNetwork = 'mainnet';
+
+export function getNetworkConfig(network: CardanoNetwork): NetworkConfig {
+  return NETWORK_CONFIG[network];
+}
+
+/**
+ * Check if a payment address belongs to the given network (prefix only).
+ */
+export function isPaymentAddressForNetwork(address: string, network: CardanoNetwork): boolean {
+  return address.startsWith(`${NETWORK_CONFIG[network].addressPrefix}1`);
+}
+
+/**
+ * Check if a stake address belongs to the given network (prefix only).
+ */
+export function isStakeAddressForNetwork(address: string, network: CardanoNetwork): boolean {
+  return address.startsWith(`${NETWORK_CONFIG[network].stakeAddressPrefix}1`);
+}
+
+/**
+ * Check if a stake address is for any network.
+ * Used where the network does not matter (e.g. choosing a lookup strategy).
+ */
+export function isStakeAddress(address: string): boolean {
+  return address.startsWith('stake1') || address.startsWith('stake_test1');
+}
@@ -0,0 +1,281 @@
+/**
+ * Native token metadata.
+ *
+ * Combines the off-chain token registry (decimals, ticker, logo) with
+ * on-chain CIP-25 / CIP-68 metadata returned by Blockfrost, and caches the
+ * result persistently since token metadata rarely changes.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAssetInfo, type AssetInfo } from '../api/blockfrost';
+import { PersistentCache } from '../api/cache';
+import { isNotFoundError } from '../api/errors';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import { getActiveNetwork, IPFS_GATEWAYS } from '../stores/settings';
+
+// Cardano policy IDs are 28 bytes = 56 hex characters
+const POLICY_ID_HEX_LENGTH = 56;
+// CIP-68 asset names start with a 4-byte (8 hex character) label prefix
+const CIP68_LABEL_HEX_LENGTH = 8;
+// Number of characters to show when an asset name has no printable text
+const HEX_DISPLAY_TRUNCATE_LENGTH = 8;
+
+const TOKEN_METADATA_CONFIG = {
+  /** How long fetched metadata is trusted before refetching */
+  CACHE_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+  /** Assets Blockfrost does not know yet are retried sooner */
+  NOT_FOUND_TTL_MS: 24 * 60 * 60 * 1000, // 1 day
+  /** Bumped when TokenMetadata gains fields, so stale cache entries are ignored */
+  SCHEMA_VERSION: 2,
+} as const;
+
+/** CIP-25 / CIP-68 keys shown elsewhere in the UI rather than as attributes */
+const RESERVED_METADATA_KEYS = new Set([
+  'name',
+  'image',
+  'mediaType',
+  'description',
+  'files',
+  'ticker',
+  'decimals',
+  'logo',
+  'url',
+]);
+
+/** CIP-68 asset name labels (CIP-67 encoded prefixes) */
+const CIP68_LABELS: Record<string, number> = {
+  '000643b0': 100, // reference NFT
+  '000de140': 222, // NFT
+  '0014df10': 333, // fungible token
+  '001bc280': 444, // rich fungible token
+};
+
+export type TokenMetadataSource = 'registry' | 'cip68' | 'cip25' | null;
+
+export interface TokenMetadata {
+  unit: string;
+  policyId: string;
+  assetNameHex: string;
+  /** CIP-14 asset fingerprint (asset1...) */
+  fingerprint: string | null;
+  /** Best available display name */
+  name: string;
+  ticker: string | null;
+  /** Decimal places for display (0 when unknown) */
+  decimals: number;
+  /** Raw logo/image URI: https://, ipfs:// or a data: URI */
+  logo: string | null;
+  description: string | null;
+  /** Where the name/decimals came from */
+  source: TokenMetadataSource;
+  /** CIP-68 label (222 NFT, 333 FT, 444 RFT) when the name carries one */
+  cip68Label: number | null;
+  /** Total minted quantity */
+  totalSupply: string | null;
+  /** NFT image URI (CIP-25 / CIP-68 `image`) */
+  image: string | null;
+  /** Remaining on-chain metadata fields, flattened to display strings */
+  attributes: Array<{ key: string; value: string }>;
+  /** Transaction that first minted the asset */
+  mintTxHash: string | null;
+}
+
+const metadataCache = new PersistentCache(AsyncStorage, STORAGE_KEYS.TOKEN_METADATA_PREFIX);
+
+/**
+ * Split an asset unit into policy ID and hex asset name.
+ */
+export function parseAssetUnit(unit: string): { policyId: string; assetNameHex: string } {
+  return {
+    policyId: unit.slice(0, POLICY_ID_HEX_LENGTH),
+    assetNameHex: unit.slice(POLICY_ID_HEX_LENGTH),
+  };
+}
+
+/**
+ * CIP-68 label encoded in the first 4 bytes of an asset name, if any.
+ */
+export function getCip68Label(assetNameHex: string): number | null {
+  return CIP68_LABELS[assetNameHex.slice(0, CIP68_LABEL_HEX_LENGTH).toLowerCase()] ?? null;
+}
+
+/**
+ * Human-readable asset name: printable ASCII with any CIP-68 prefix removed.
+ * Falls back to a hex prefix for binary names.
+ */
+export function decodeAssetName(assetNameHex: string): string {
+  const hex =
+    getCip68Label(assetNameHex) !== null
+      ? assetNameHex.slice(CIP68_LABEL_HEX_LENGTH)
+      : assetNameHex;
+
+  let str = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    const charCode = parseInt(hex.slice(i, i + 2), 16);
+    if (charCode >= 32 && charCode <= 126) {
+      str += String.fromCharCode(charCode);
+    }
+  }
+  return str || hex.slice(0, HEX_DISPLAY_TRUNCATE_LENGTH);
+}
+
+/**
+ * Resolve a media URI for display, mapping ipfs:// through a gateway.
+ */
+export function resolveMediaUri(
+  uri: string | null,
+  gateway: string = IPFS_GATEWAYS['ipfs.io']
+): string | null {
+  if (!uri) return null;
+  if (uri.startsWith('ipfs://')) {
+    // Some minters write ipfs://ipfs/<cid>
+    return gateway + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  }
+  return uri;
+}
+
+/** On-chain metadata values may be a string or a list of string chunks */
+function readText(value: unknown): string | null {
+  if (typeof value === 'string') return value || null;
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    return value.join('') || null;
+  }
+  return null;
+}
+
+function formatAttributeValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return readText(value) ?? JSON.stringify(value);
+}
+
+/**
+ * Flatten on-chain metadata into display attributes.
+ * A nested `attributes`/`traits` object is unpacked into top-level entries.
+ */
+function readAttributes(onchain: Record<string, unknown>): Array<{ key: string; value: string }> {
+  const attributes: Array<{ key: string; value: string }> = [];
+  for (const [key, value] of Object.entries(onchain)) {
+    if (RESERVED_METADATA_KEYS.has(key) || value === null || value === undefined) continue;
+
+    const isTraitGroup = key === 'attributes' || key === 'traits';
+    if (isTraitGroup && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [traitKey, traitValue] of Object.entries(value as Record<string, unknown>)) {
+        attributes.push({ key: traitKey, value: formatAttributeValue(traitValue) });
+      }
+    } else {
+      attributes.push({ key, value: formatAttributeValue(value) });
+    }
+  }
+  return attributes;
+}
+
+function readDecimals(value: unknown): number | null {
+  const decimals = typeof value === 'string' ? Number(value) : value;
+  return typeof decimals === 'number' && Number.isInteger(decimals) && decimals >= 0
+    ? decimals
+    : null;
+}
+
+/** Metadata for an asset Blockfrost has nothing on */
+function fallbackMetadata(unit: string): TokenMetadata {
+  const { policyId, assetNameHex } = parseAssetUnit(unit);
+  return {
+    unit,
+    policyId,
+    assetNameHex,
+    fingerprint: null,
+    name: decodeAssetName(assetNameHex),
+    ticker: null,
+    decimals: 0,
+    logo: null,
+    description: null,
+    source: null,
+    cip68Label: getCip68Label(assetNameHex),
+    totalSupply: null,
+    image: null,
+    attributes: [],
+    mintTxHash: null,
+  };
+}
+
+/**
+ * Build token metadata from a Blockfrost asset response.
+ * Registry values win over on-chain ones, as the registry is curated.
+ */
+export function parseAssetMetadata(info: AssetInfo): TokenMetadata {
+  const base = fallbackMetadata(info.asset);
+  const registry = info.metadata;
+  const onchain = info.onchain_metadata ?? {};
+  const standard = info.onchain_metadata_standard?.toUpperCase() ?? '';
+
+  let source: TokenMetadataSource = null;
+  if (registry) {
+    source = 'registry';
+  } else if (standard.startsWith('CIP68')) {
+    source = 'cip68';
+  } else if (standard.startsWith('CIP25') || info.onchain_metadata) {
+    source = 'cip25';
+  }
+
+  // Registry logos are bare base64 PNGs
+  const registryLogo = registry?.logo
+    ? registry.logo.includes(':')
+      ? registry.logo
+      : `data:image/png;base64,${registry.logo}`
+    : null;
+
+  return {
+    ...base,
+    fingerprint: info.fingerprint || null,
+    name: registry?.name || readText(onchain.name) || base.name,
+    ticker: registry?.ticker || readText(onchain.ticker),
+    decimals: readDecimals(registry?.decimals) ?? readDecimals(onchain.decimals) ?? 0,
+    logo: registryLogo || readText(onchain.logo) || readText(onchain.image),
+    description: registry?.description || readText(onchain.description),
+    source,
+    totalSupply: info.quantity ?? null,
+    image: readText(onchain.image),
+    attributes: readAttributes(onchain),
+    mintTxHash: info.initial_mint_tx_hash || null,
+  };
+}
+
+/**
+ * Whether metadata describes an NFT: a CIP-68 (222) user token, or an asset
+ * with a total supply of exactly one.
+ */
+export function isNft(metadata: TokenMetadata): boolean {
+  if (metadata.cip68Label === 222) return true;
+  if (metadata.cip68Label === 333 || metadata.cip68Label === 444) return false;
+  return metadata.totalSupply === '1';
+}
+
+/**
+ * Fetch metadata for an asset on the active network, using the persistent cache.
+ */
+export async function getTokenMetadata(unit: string): Promise<TokenMetadata> {
+  const cacheKey = `v${TOKEN_METADATA_CONFIG.SCHEMA_VERSION}:${getActiveNetwork()}:${unit}`;
+  const cached = await metadataCache.get<TokenMetadata>(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const metadata = parseAssetMetadata(await getAssetInfo(unit));
+    await metadataCache.set(cacheKey, metadata, TOKEN_METADATA_CONFIG.CACHE_TTL_MS);
+    return metadata;
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+    const metadata = fallbackMetadata(unit);
+    await metadataCache.set(cacheKey, metadata, TOKEN_METADATA_CONFIG.NOT_FOUND_TTL_MS);
+    return metadata;
+  }
+}
+
+/**
+ * Drop all cached token metadata (e.g. after a registry update).
+ */
+export async function clearTokenMetadataCache(): Promise<void> {
+  await metadataCache.clear();
+}
@@ -23,6 +23,30 @@ export const STORAGE_KEYS = {
 
   /** Price alerts for watchlist pairs */
   PRICE_ALERTS: 'price-alerts-storage',
+
+  /** Reconstructed daily balance snapshots and recorded ADA prices */
+  PORTFOLIO_HISTORY: 'portfolio-history-storage',
+
+  /** Historical daily ADA closes (fetched and imported) */
+  PRICE_HISTORY: 'price-history-storage',
+
+  /** Per-epoch pool parameter snapshots for pool alerts */
+  POOL_SNAPSHOTS: 'pool-snapshots-storage',
+
+  /** Pool alerts already sent as notifications */
+  POOL_ALERTS: 'pool-alerts-storage',
+
+  /** Persisted React Query cache (balances, delegation, pool details, prices) */
+  QUERY_CACHE: 'query-cache-storage',
+
+  /** Prefix for per-wallet synced transaction entries */
+  TRANSACTION_STORE_PREFIX: 'tx-store:',
+
+  /** Prefix for per-asset token metadata cache entries */
+  TOKEN_METADATA_PREFIX: 'token-metadata:',
+
+  /** Prefix for per-epoch start time cache entries */
+  EPOCH_PREFIX: 'epoch:',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
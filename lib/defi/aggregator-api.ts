@@ -121,8 +121,60 @@ export async function getAdaPrice(): Promise<AdaPrices | null> {
 }
 
 /**
- * Search for tokens by name, ticker, or policy ID.
+ * Search the aggregator's token list.
  * POST /tokens
+ *
+ * @throws Error on network failure or a non-OK response
+ */
+async function fetchTokens(query: string, verified: boolean): Promise<TokenSearchResult> {
+  const cacheKey = `tokens-${query}-${verified}`;
+  const cached = getCached<TokenSearchResult>(cacheKey);
+  if (cached) return cached;
+
+  // API format: { query, only_verified }
+  const response = await rateLimitedFetch(`${BASE_URL}/tokens`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: query,
+      only_verified: verified,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Failed to search tokens: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+
+  // Minswap API returns: { tokens: [...], search_after: [] }
+  const rawTokens = data.tokens || [];
+  const tokenArray = Array.isArray(rawTokens) ? rawTokens : [];
+
+  const tokens: Token[] = tokenArray.map((t: Record<string, unknown>) => ({
+    id: (t.token_id || t.id) as string,
+    ticker: (t.ticker || 'UNKNOWN') as string,
+    name: (t.project_name || t.name || t.ticker || 'Unknown Token') as string,
+    decimals: (t.decimals as number) || 0,
+    logo: (t.logo as string) || null,
+    verified: (t.is_verified || false) as boolean,
+    priceInAda: (t.price_by_ada as number) || null,
+  }));
+
+  const result: TokenSearchResult = {
+    tokens,
+    hasMore: tokenArray.length >= 20,
+    total: data.total || tokenArray.length,
+  };
+
+  setCache(cacheKey, result, DEFI_CONFIG.TOKEN_CACHE_TTL_MS);
+  return result;
+}
+
+/**
+ * Search for tokens by name, ticker, or policy ID.
+ * Returns an empty result when the search fails.
  */
 export async function searchTokens(
   query: string,
@@ -130,56 +182,27 @@ export async function searchTokens(
 ): Promise<TokenSearchResult> {
   const { verified = true } = options;
 
-  const cacheKey = `tokens-${query}-${verified}`;
-  const cached = getCached<TokenSearchResult>(cacheKey);
-  if (cached) return cached;
-
   try {
-    // API format: { query, only_verified }
-    const response = await rateLimitedFetch(`${BASE_URL}/tokens`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        query: query,
-        only_verified: verified,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => '');
-      throw new Error(`Failed to search tokens: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    // Minswap API returns: { tokens: [...], search_after: [] }
-    const rawTokens = data.tokens || [];
-    const tokenArray = Array.isArray(rawTokens) ? rawTokens : [];
-
-    const tokens: Token[] = tokenArray.map((t: Record<string, unknown>) => ({
-      id: (t.token_id || t.id) as string,
-      ticker: (t.ticker || 'UNKNOWN') as string,
-      name: (t.project_name || t.name || t.ticker || 'Unknown Token') as string,
-      decimals: (t.decimals as number) || 0,
-      logo: (t.logo as string) || null,
-      verified: (t.is_verified || false) as boolean,
-      priceInAda: (t.price_by_ada as number) || null,
-    }));
-
-    const result: TokenSearchResult = {
-      tokens,
-      hasMore: tokenArray.length >= 20,
-      total: data.total || tokenArray.length,
-    };
-
-    setCache(cacheKey, result, DEFI_CONFIG.TOKEN_CACHE_TTL_MS);
-    return result;
+    return await fetchTokens(query, verified);
   } catch (error) {
     console.error('[DeFi] Failed to search tokens:', error);
     return { tokens: [], hasMore: false, total: 0 };
   }
 }
 
+/**
+ * Get the current price of a token in ADA (per whole token, decimals applied).
+ * Searches by exact token ID including unverified tokens.
+ * Returns null when the token has no liquidity.
+ *
+ * @throws Error when the lookup fails, so a failure is not mistaken for no liquidity
+ */
+export async function getTokenPriceInAda(tokenId: string): Promise<number | null> {
+  const result = await fetchTokens(tokenId, false);
+  const match = result.tokens.find((t) => t.id === tokenId);
+  return match?.priceInAda ?? null;
+}
+
 /**
  * Get a swap estimate from the aggregator.
  * POST /estimate
@@ -33,6 +33,7 @@ export {
 export {
   getAdaPrice,
   searchTokens,
+  getTokenPriceInAda,
   getSwapEstimate,
   getSwapEstimateFromDex,
   compareAllDexes,
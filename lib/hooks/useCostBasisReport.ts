@@ -0,0 +1,115 @@
+import { useState, useCallback } from 'react';
+import { collectWalletTransactions } from './useExportTransactions';
+import type { FiatDisplayCurrency } from '../stores/settings';
+import { buildCSV, shareCSVFile } from '../utils/csv-export';
+import {
+  calculateCostBasis,
+  buildRealizedGainRows,
+  buildAnnualSummaryRows,
+  REALIZED_GAINS_HEADERS,
+  ANNUAL_SUMMARY_HEADERS,
+  type CostBasisMethod,
+  type CostBasisReport,
+} from '../utils/cost-basis';
+import type { Transaction, ExportProgress } from '../types/transaction';
+
+export type ReportFile = 'gains' | 'summary';
+
+/**
+ * Builds realized gain reports for a wallet. Transactions are loaded once
+ * per generate; switching lot matching method recalculates from them.
+ */
+export function useCostBasisReport() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress>({
+    phase: 'fetching',
+    current: 0,
+    total: 0,
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[] | null>(null);
+  const [report, setReport] = useState<CostBasisReport | null>(null);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setWarning(null);
+    setTransactions(null);
+    setReport(null);
+    setProgress({ phase: 'fetching', current: 0, total: 0 });
+  }, []);
+
+  const generate = useCallback(
+    async (
+      walletAddress: string,
+      stakeAddress: string | null,
+      method: CostBasisMethod,
+      fiatCurrency: FiatDisplayCurrency
+    ) => {
+      setIsLoading(true);
+      setError(null);
+      setWarning(null);
+      setReport(null);
+
+      try {
+        // Gains depend on every acquisition, so load full history with rewards and tokens
+        const { transactions: loaded } = await collectWalletTransactions(
+          walletAddress,
+          stakeAddress,
+          { includeStakingRewards: true, assetFilter: 'all', fiatCurrency },
+          setProgress,
+          (message) =>
+            setWarning((existing) => (existing ? `${existing}\n${message}` : message))
+        );
+        setTransactions(loaded);
+        setReport(calculateCostBasis(loaded, method, fiatCurrency));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const changeMethod = useCallback(
+    (method: CostBasisMethod) => {
+      if (!transactions || !report) return;
+      setReport(calculateCostBasis(transactions, method, report.fiatCurrency));
+    },
+    [transactions, report]
+  );
+
+  const exportReport = useCallback(
+    async (file: ReportFile) => {
+      if (!report) return;
+      try {
+        const csv =
+          file === 'gains'
+            ? buildCSV(REALIZED_GAINS_HEADERS, buildRealizedGainRows(report))
+            : buildCSV(ANNUAL_SUMMARY_HEADERS, buildAnnualSummaryRows(report));
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        await shareCSVFile(
+          `cardano-${file === 'gains' ? 'realized-gains' : 'gains-summary'}-${report.method}-${timestamp}.csv`,
+          csv,
+          file === 'gains' ? 'Export Realized Gains' : 'Export Annual Summary'
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    },
+    [report]
+  );
+
+  return {
+    generate,
+    changeMethod,
+    exportReport,
+    isLoading,
+    progress,
+    error,
+    warning,
+    report,
+    reset,
+  };
+}
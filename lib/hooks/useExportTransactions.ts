@@ -1,11 +1,14 @@
-import { useState, useCallback } from 'react';
-import {
-  fetchTransactionHashes,
-  fetchTransactionDetails,
-  fetchStakingRewards,
-} from '../api/blockfrost-transactions';
+import { useState, useCallback, useRef } from 'react';
+import { fetchStakingRewards } from '../api/blockfrost-transactions';
+import { syncWalletTransactions } from '../api/transaction-store';
+import { getActiveNetwork, type FiatDisplayCurrency } from '../stores/settings';
 import { exportTransactionsToCSV } from '../utils/csv-export';
 import { blockfrost } from '../api/blockfrost';
+import { getHistoricalAdaPrices } from '../api/price-history';
+import { FIAT_CURRENCY_KEYS } from '../stores/priceHistoryStore';
+import { toDateKey } from '../utils/portfolio-history';
+import { getTokenMetadata } from '../cardano/token-metadata';
+import { isCancelledError, isNotFoundError, throwIfCancelled } from '../api/errors';
 import {
   Transaction,
   ExportOptions,
@@ -13,6 +16,169 @@ import {
   ExportProgress,
 } from '../types/transaction';
 
+/**
+ * Fill in tickers and decimals for native token lines from token metadata.
+ * Lookups that fail keep the decoded asset name and raw quantity.
+ */
+async function applyTokenMetadata(transactions: Transaction[]): Promise<Transaction[]> {
+  const units = Array.from(
+    new Set(transactions.map((tx) => tx.asset).filter((asset) => asset !== 'lovelace'))
+  );
+  if (units.length === 0) return transactions;
+
+  const metadataByUnit = new Map(
+    await Promise.all(
+      units.map(async (unit) => [unit, await getTokenMetadata(unit).catch(() => null)] as const)
+    )
+  );
+
+  return transactions.map((tx) => {
+    const metadata = metadataByUnit.get(tx.asset);
+    if (!metadata) return tx;
+    return {
+      ...tx,
+      assetTicker: metadata.ticker ?? metadata.name ?? tx.assetTicker,
+      assetDecimals: metadata.decimals,
+    };
+  });
+}
+
+/**
+ * Attach the ADA daily close for each ADA line's date (rewards use their
+ * spendable epoch's start). Returns the lines and a warning when prices are missing.
+ */
+async function applyHistoricalPrices(
+  transactions: Transaction[],
+  fiatCurrency: FiatDisplayCurrency
+): Promise<{ transactions: Transaction[]; warning: string | null }> {
+  const adaLines = transactions.filter((tx) => tx.asset === 'lovelace');
+  if (adaLines.length === 0) return { transactions, warning: null };
+
+  const { prices, missingDates, fetchError } = await getHistoricalAdaPrices(
+    FIAT_CURRENCY_KEYS[fiatCurrency],
+    adaLines.map((tx) => toDateKey(tx.blockTime))
+  );
+
+  let warning: string | null = null;
+  if (missingDates.length > 0) {
+    const reason = fetchError ? ` (${fetchError})` : '';
+    warning = `No ${fiatCurrency} price for ${missingDates.length} day${missingDates.length > 1 ? 's' : ''}${reason}. Import a price CSV in Settings to fill gaps.`;
+  }
+
+  return {
+    transactions: transactions.map((tx) => {
+      if (tx.asset !== 'lovelace') return tx;
+      const price = prices[toDateKey(tx.blockTime)];
+      return price !== undefined ? { ...tx, adaFiatPrice: price } : tx;
+    }),
+    warning,
+  };
+}
+
+/** What to load for a wallet; the subset of ExportOptions that affects fetching */
+export type CollectOptions = Pick<
+  ExportOptions,
+  'includeStakingRewards' | 'assetFilter' | 'fiatCurrency'
+>;
+
+export interface CollectedTransactions {
+  transactions: Transaction[];
+  /** Transactions whose details could not be fetched; a later collect retries them */
+  failedCount: number;
+}
+
+/**
+ * Load every transaction line (and optionally staking rewards) for a wallet,
+ * with token metadata and historical prices applied.
+ * Problems that leave the result incomplete are reported through `onWarning`.
+ * Aborting `signal` throws RequestCancelledError; fetched transactions are
+ * kept in the local store, so the next collect resumes from there.
+ */
+export async function collectWalletTransactions(
+  walletAddress: string | null,
+  stakeAddress: string | null,
+  options: CollectOptions,
+  onProgress: (progress: ExportProgress) => void,
+  onWarning: (warning: string) => void,
+  signal?: AbortSignal
+): Promise<CollectedTransactions> {
+  // Phase 1: Get all addresses for this wallet
+  onProgress({ phase: 'fetching', current: 0, total: 0 });
+
+  // Wallets added by stake address alone are scoped to the account's addresses
+  let allAddresses: string[] = walletAddress ? [walletAddress] : [];
+
+  if (stakeAddress) {
+    try {
+      const accountAddresses =
+        await blockfrost.getAccountAddresses(stakeAddress);
+      const stakeAddresses = accountAddresses.map((a) => a.address);
+      // Merge and deduplicate, preserving original wallet address
+      allAddresses = Array.from(new Set([...allAddresses, ...stakeAddresses]));
+    } catch (err) {
+      if (!walletAddress) {
+        // No address to fall back to; an account never seen on-chain has no transactions
+        if (!isNotFoundError(err)) throw err;
+      } else {
+        // Fall back to single address but warn user with details
+        const reason = err instanceof Error ? err.message : 'Unknown error';
+        onWarning(`Could not fetch all wallet addresses (${reason}). Export may be incomplete.`);
+      }
+    }
+  }
+  throwIfCancelled(signal);
+
+  // Phases 2-3: Sync the local transaction store (only newer blocks are fetched)
+  const { transactions, failedCount } = await syncWalletTransactions(
+    getActiveNetwork(),
+    { addresses: allAddresses, stakeAddress },
+    onProgress,
+    signal
+  );
+
+  if (transactions.length === 0 && !options.includeStakingRewards) {
+    throw new Error('No transactions found for this wallet');
+  }
+  // If including staking rewards, continue even with no txs - we may still have rewards
+
+  // Warn user if some transactions couldn't be fetched
+  if (failedCount > 0) {
+    onWarning(
+      `Could not fetch details for ${failedCount} transaction${failedCount > 1 ? 's' : ''}. Export may be incomplete; retry to fetch them again.`
+    );
+  }
+
+  // Token lines are dropped by the ADA-only filter, so skip their lookups
+  let allTransactions: Transaction[] =
+    options.assetFilter === 'all' ? await applyTokenMetadata(transactions) : transactions;
+
+  // Phase 4: Fetch staking rewards if requested
+  if (options.includeStakingRewards && stakeAddress) {
+    const rewards = await fetchStakingRewards(stakeAddress, signal);
+    allTransactions = [...allTransactions, ...rewards];
+  }
+  throwIfCancelled(signal);
+
+  // Phase 5: Value ADA lines at their historical daily close
+  if (options.fiatCurrency) {
+    onProgress({ phase: 'pricing', current: 0, total: 0 });
+    const priced = await applyHistoricalPrices(allTransactions, options.fiatCurrency);
+    allTransactions = priced.transactions;
+    if (priced.warning) {
+      onWarning(priced.warning);
+    }
+  }
+  throwIfCancelled(signal);
+
+  return { transactions: allTransactions, failedCount };
+}
+
+interface ExportRequest {
+  walletAddress: string;
+  stakeAddress: string | null;
+  options: ExportOptions;
+}
+
 export function useExportTransactions() {
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<ExportProgress>({
@@ -23,11 +189,17 @@ export function useExportTransactions() {
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
   const [result, setResult] = useState<ExportResult | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [failedCount, setFailedCount] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastRequestRef = useRef<ExportRequest | null>(null);
 
   const reset = useCallback(() => {
     setError(null);
     setWarning(null);
     setResult(null);
+    setCancelled(false);
+    setFailedCount(0);
     setProgress({ phase: 'fetching', current: 0, total: 0 });
   }, []);
 
@@ -37,104 +209,30 @@ export function useExportTransactions() {
       stakeAddress: string | null,
       options: ExportOptions
     ) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      lastRequestRef.current = { walletAddress, stakeAddress, options };
       setIsLoading(true);
       setError(null);
       setWarning(null);
       setResult(null);
+      setCancelled(false);
+      setFailedCount(0);
 
       try {
-        // Phase 1: Get all addresses for this wallet
-        setProgress({ phase: 'fetching', current: 0, total: 0 });
-
-        let allAddresses: string[] = [walletAddress];
-
-        if (stakeAddress) {
-          try {
-            const accountAddresses =
-              await blockfrost.getAccountAddresses(stakeAddress);
-            const stakeAddresses = accountAddresses.map((a) => a.address);
-            // Merge and deduplicate, preserving original wallet address
-            allAddresses = Array.from(new Set([walletAddress, ...stakeAddresses]));
-          } catch (err) {
-            // Fall back to single address but warn user with details
-            const reason = err instanceof Error ? err.message : 'Unknown error';
-            setWarning(`Could not fetch all wallet addresses (${reason}). Export may be incomplete.`);
-          }
-        }
-
-        // Phase 2: Fetch transaction hashes from all addresses in parallel
-        const allTxRefs: Awaited<ReturnType<typeof fetchTransactionHashes>> = [];
-        const seenHashes = new Set<string>();
-
-        // Track cumulative progress per address during parallel fetches
-        const addressProgress = new Map<string, number>();
-
-        const allTxRefsByAddress = await Promise.all(
-          allAddresses.map((address) =>
-            fetchTransactionHashes(address, (count) => {
-              // Each callback receives cumulative count for its address (e.g., 100, 200, 300).
-              // Store per-address progress and sum across all addresses for the display counter.
-              addressProgress.set(address, count);
-              const totalProgress = Array.from(addressProgress.values()).reduce(
-                (sum, n) => sum + n,
-                0
-              );
-              setProgress({
-                phase: 'fetching',
-                current: totalProgress,
-                total: 0,
-              });
-            })
-          )
+        const collected = await collectWalletTransactions(
+          walletAddress,
+          stakeAddress,
+          options,
+          setProgress,
+          (message) =>
+            setWarning((existing) => (existing ? `${existing}\n${message}` : message)),
+          controller.signal
         );
+        setFailedCount(collected.failedCount);
+        const allTransactions = collected.transactions;
 
-        // Deduplicate and flatten results
-        for (const txRefs of allTxRefsByAddress) {
-          for (const txRef of txRefs) {
-            if (!seenHashes.has(txRef.tx_hash)) {
-              seenHashes.add(txRef.tx_hash);
-              allTxRefs.push(txRef);
-            }
-          }
-        }
-
-        if (allTxRefs.length === 0 && !options.includeStakingRewards) {
-          setError('No transactions found for this wallet');
-          return;
-        }
-        // If including staking rewards, continue even with no txs - we may still have rewards
-
-        // Phase 3: Fetch transaction details
-        setProgress({
-          phase: 'processing',
-          current: 0,
-          total: allTxRefs.length,
-        });
-
-        const { transactions, failedCount } = await fetchTransactionDetails(
-          allTxRefs,
-          allAddresses,
-          (current, total) => {
-            setProgress({ phase: 'processing', current, total });
-          }
-        );
-
-        // Warn user if some transactions couldn't be fetched
-        if (failedCount > 0) {
-          setWarning(
-            `Could not fetch details for ${failedCount} transaction${failedCount > 1 ? 's' : ''}. Export may be incomplete.`
-          );
-        }
-
-        // Phase 4: Fetch staking rewards if requested
-        let allTransactions: Transaction[] = transactions;
-
-        if (options.includeStakingRewards && stakeAddress) {
-          const rewards = await fetchStakingRewards(stakeAddress);
-          allTransactions = [...transactions, ...rewards];
-        }
-
-        // Phase 5: Generate and share CSV
+        // Phase 6: Generate and share CSV
         setProgress({ phase: 'exporting', current: 0, total: 1 });
 
         const exportResult = await exportTransactionsToCSV(
@@ -148,21 +246,47 @@ export function useExportTransactions() {
           setError(exportResult.error || 'Export failed');
         }
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error');
+        if (isCancelledError(err)) {
+          setCancelled(true);
+        } else {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
       } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
         setIsLoading(false);
       }
     },
     []
   );
 
+  /** Stop the running export; transactions fetched so far stay stored */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Run the last export again. The local store resumes from its checkpoint
+   * and refetches the transactions that failed before.
+   */
+  const retry = useCallback(async () => {
+    const request = lastRequestRef.current;
+    if (!request) return;
+    await exportData(request.walletAddress, request.stakeAddress, request.options);
+  }, [exportData]);
+
   return {
     exportData,
+    cancel,
+    retry,
     isLoading,
     progress,
     error,
     warning,
     result,
+    cancelled,
+    failedCount,
     reset,
   };
 }
@@ -3,9 +3,12 @@
  * Uses React Query for automatic caching and refetching.
  */
 
+import { useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { getAdaPrice, type AdaPrices } from '../defi/aggregator-api';
 import { useSettingsStore, type CurrencyDisplay } from '../stores/settings';
+import { usePortfolioHistoryStore } from '../stores/portfolioHistoryStore';
+import { toDateKey } from '../utils/portfolio-history';
 
 // Re-export for convenience
 export type { AdaPrices };
@@ -39,6 +42,14 @@ export function useFiatPrice() {
     retry: 2,
   });
 
+  // Record the day's price so portfolio history can be valued in fiat later
+  const recordDailyPrice = usePortfolioHistoryStore((state) => state.recordDailyPrice);
+  useEffect(() => {
+    if (query.data) {
+      recordDailyPrice(toDateKey(Math.floor(query.dataUpdatedAt / 1000)), query.data);
+    }
+  }, [query.data, query.dataUpdatedAt, recordDailyPrice]);
+
   return {
     prices: query.data,
     isLoading: query.isLoading,
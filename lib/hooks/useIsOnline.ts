@@ -0,0 +1,15 @@
+/**
+ * Hook for the device's connectivity state.
+ * Reads React Query's onlineManager, which is fed by NetInfo
+ * (see setupOnlineManager in lib/api/query-persistence).
+ */
+
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+export function useIsOnline(): boolean {
+  return useSyncExternalStore(
+    (onStoreChange) => onlineManager.subscribe(onStoreChange),
+    () => onlineManager.isOnline()
+  );
+}
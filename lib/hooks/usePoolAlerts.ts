@@ -1,11 +1,15 @@
 /**
  * Hook for generating pool health alerts.
  * Analyzes the user's current pool and generates actionable alerts.
+ * Records a snapshot of the pool each epoch so later epochs can report
+ * fee increases, pledge cuts and missing blocks.
  */
 
-import { useMemo } from 'react';
-import type { PoolInfo, PoolAlert } from '../staking';
-import { generatePoolAlerts, hasCriticalAlerts, hasAlerts } from '../staking';
+import { useEffect, useMemo } from 'react';
+import type { PoolInfo, PoolAlert, PoolSnapshot } from '../staking';
+import { generatePoolAlerts, createPoolSnapshot, hasCriticalAlerts, hasAlerts } from '../staking';
+import { useSettingsStore } from '../stores/settings';
+import { usePoolSnapshotStore, getPoolSnapshotKey } from '../stores/poolSnapshotStore';
 
 interface UsePoolAlertsResult {
   alerts: PoolAlert[];
@@ -13,6 +17,8 @@ interface UsePoolAlertsResult {
   hasAny: boolean;
 }
 
+const NO_SNAPSHOTS: PoolSnapshot[] = [];
+
 /**
  * Generate alerts for a pool.
  * Memoized to avoid recalculation on every render.
@@ -21,6 +27,19 @@ interface UsePoolAlertsResult {
  * @returns Alert analysis results
  */
 export function usePoolAlerts(pool: PoolInfo | null | undefined): UsePoolAlertsResult {
+  const network = useSettingsStore((state) => state.network);
+  const snapshots = usePoolSnapshotStore((state) =>
+    pool ? (state.snapshots[getPoolSnapshotKey(network, pool.poolId)] ?? NO_SNAPSHOTS) : NO_SNAPSHOTS
+  );
+  const recordSnapshot = usePoolSnapshotStore((state) => state.recordSnapshot);
+
+  useEffect(() => {
+    const snapshot = pool ? createPoolSnapshot(pool) : null;
+    if (pool && snapshot) {
+      recordSnapshot(network, pool.poolId, snapshot);
+    }
+  }, [pool, network, recordSnapshot]);
+
   return useMemo(() => {
     if (!pool) {
       return {
@@ -30,12 +49,12 @@ export function usePoolAlerts(pool: PoolInfo | null | undefined): UsePoolAlertsR
       };
     }
 
-    const alerts = generatePoolAlerts(pool);
+    const alerts = generatePoolAlerts(pool, snapshots);
 
     return {
       alerts,
       hasCritical: hasCriticalAlerts(alerts),
       hasAny: hasAlerts(alerts),
     };
-  }, [pool]);
+  }, [pool, snapshots]);
 }
@@ -0,0 +1,102 @@
+/**
+ * Hook for the pool explorer.
+ * Loads the pool list once per cache window; ROA values are only loaded
+ * when the ROA sort or filter is used, since each pool needs its own request.
+ */
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  stakingApi,
+  STAKING_CONFIG,
+  DEFAULT_POOL_FILTER,
+  POOL_SORT_DEFAULT_DESCENDING,
+  filterPools,
+  sortPools,
+  needsPoolROA,
+  type PoolFilter,
+  type PoolSortKey,
+} from '../staking';
+import { useSettingsStore } from '../stores/settings';
+
+export interface PoolExplorerProgress {
+  phase: 'pools' | 'roa';
+  current: number;
+  total: number;
+}
+
+const NO_ROA: Record<string, number | null> = {};
+
+export function usePoolExplorer() {
+  const network = useSettingsStore((state) => state.network);
+  const [filter, setFilter] = useState<PoolFilter>(DEFAULT_POOL_FILTER);
+  const [sortKey, setSortKey] = useState<PoolSortKey>('stake');
+  const [descending, setDescending] = useState(POOL_SORT_DEFAULT_DESCENDING.stake);
+  const [progress, setProgress] = useState<PoolExplorerProgress | null>(null);
+
+  const listQuery = useQuery({
+    queryKey: ['pool-list', network],
+    queryFn: async () => {
+      try {
+        return await stakingApi.getPoolList((current) =>
+          setProgress({ phase: 'pools', current, total: 0 })
+        );
+      } finally {
+        setProgress(null);
+      }
+    },
+    staleTime: STAKING_CONFIG.POOL_LIST_CACHE_TTL_MS,
+  });
+
+  const pools = listQuery.data?.pools;
+  // Not keyed on the list: pools registered since the last load show no ROA
+  // until it goes stale, rather than refetching every history on each list refresh
+  const roaQuery = useQuery({
+    queryKey: ['pool-roa', network],
+    queryFn: async () => {
+      try {
+        return await stakingApi.getPoolsROA(pools ?? [], (current, total) =>
+          setProgress({ phase: 'roa', current, total })
+        );
+      } finally {
+        setProgress(null);
+      }
+    },
+    enabled: !!pools && needsPoolROA(filter, sortKey),
+    staleTime: STAKING_CONFIG.POOL_ROA_CACHE_TTL_MS,
+  });
+
+  const roaByPool = roaQuery.data ?? NO_ROA;
+  const results = useMemo(
+    () => sortPools(filterPools(pools ?? [], filter, roaByPool), sortKey, descending, roaByPool),
+    [pools, filter, sortKey, descending, roaByPool]
+  );
+
+  /** Select a sort; selecting the current one flips its direction */
+  const changeSort = (key: PoolSortKey) => {
+    if (key === sortKey) {
+      setDescending((current) => !current);
+    } else {
+      setSortKey(key);
+      setDescending(POOL_SORT_DEFAULT_DESCENDING[key]);
+    }
+  };
+
+  return {
+    results,
+    totalCount: pools?.length ?? 0,
+    isTruncated: listQuery.data?.isTruncated ?? false,
+    roaByPool,
+    filter,
+    setFilter,
+    sortKey,
+    descending,
+    changeSort,
+    isLoading: listQuery.isLoading,
+    isFetching: listQuery.isFetching,
+    isLoadingROA: roaQuery.isFetching,
+    error: listQuery.error ?? roaQuery.error,
+    progress,
+    refetch: listQuery.refetch,
+  };
+}
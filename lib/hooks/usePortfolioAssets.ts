@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { isNft, type TokenMetadata } from '../cardano/token-metadata';
+import { useTokenMetadata } from './useTokenMetadata';
+import type { TokenBalance } from './useWalletData';
+
+/**
+ * Split wallet tokens into fungible tokens and NFTs.
+ * Tokens stay in the fungible list until their metadata has loaded.
+ */
+export function usePortfolioAssets(tokens: TokenBalance[] | undefined) {
+  const units = useMemo(() => tokens?.map((t) => t.unit) ?? [], [tokens]);
+  const { metadata } = useTokenMetadata(units);
+
+  return useMemo(() => {
+    const fungible: TokenBalance[] = [];
+    const nfts: TokenMetadata[] = [];
+    for (const token of tokens ?? []) {
+      const tokenMetadata = metadata[token.unit];
+      if (tokenMetadata && isNft(tokenMetadata)) {
+        nfts.push(tokenMetadata);
+      } else {
+        fungible.push(token);
+      }
+    }
+    return { fungible, nfts };
+  }, [tokens, metadata]);
+}
@@ -0,0 +1,144 @@
+/**
+ * Hook for a wallet's reconstructed balance history.
+ * Rebuilds from transactions and rewards at most once a day; the result is
+ * persisted so the chart renders immediately on later visits.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchStakingRewards, type WalletScope } from '../api/blockfrost-transactions';
+import { syncWalletTransactions } from '../api/transaction-store';
+import { blockfrost } from '../api/blockfrost';
+import { isNotFoundError } from '../api/errors';
+import type { CardanoNetwork } from '../cardano/network';
+import type { NetworkWallet } from '../stores/wallet';
+import { usePortfolioHistoryStore } from '../stores/portfolioHistoryStore';
+import { resolveWalletStakeAddress } from './useWalletData';
+import {
+  buildBalanceHistory,
+  type BalanceEvent,
+  type DailySnapshot,
+} from '../utils/portfolio-history';
+
+/** Rebuild history at most once per day */
+const HISTORY_STALE_MS = 24 * 60 * 60 * 1000;
+
+export interface HistoryProgress {
+  phase: 'fetching' | 'processing';
+  current: number;
+  total: number;
+}
+
+interface PortfolioHistoryResult {
+  snapshots: DailySnapshot[];
+  /** Transactions whose details could not be fetched */
+  failedCount: number;
+}
+
+/**
+ * All addresses whose transactions affect the wallet's balance, and the stake
+ * account whose rewards count towards it. Resolved the same way as the
+ * balance, so a wallet saved without a stake address still covers its account.
+ */
+async function resolveWalletScope(wallet: NetworkWallet): Promise<WalletScope> {
+  const addresses = wallet.address ? [wallet.address] : [];
+  const walletIdentifier = wallet.address || wallet.stakeAddress;
+  const stakeAddress = walletIdentifier ? await resolveWalletStakeAddress(walletIdentifier) : null;
+  if (!stakeAddress) return { addresses, stakeAddress: null };
+
+  try {
+    const accountAddresses = await blockfrost.getAccountAddresses(stakeAddress);
+    return {
+      addresses: Array.from(new Set([...addresses, ...accountAddresses.map((a) => a.address)])),
+      stakeAddress,
+    };
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+    return { addresses, stakeAddress };
+  }
+}
+
+/**
+ * Collect every balance-changing event for a wallet.
+ * Withdrawals move ADA from the reward account into UTxOs without changing the
+ * total, so they are subtracted from their transaction's net amount.
+ */
+async function fetchBalanceEvents(
+  wallet: NetworkWallet,
+  network: CardanoNetwork,
+  onProgress: (progress: HistoryProgress) => void
+): Promise<{ events: BalanceEvent[]; failedCount: number }> {
+  const scope = await resolveWalletScope(wallet);
+
+  const { transactions, failedCount } = await syncWalletTransactions(network, scope, onProgress);
+
+  // Every reward, since the history is rebuilt backwards from the current
+  // balance and a missing one would shift all earlier snapshots
+  const rewards = scope.stakeAddress ? await fetchStakingRewards(scope.stakeAddress) : [];
+
+  const events: BalanceEvent[] = [
+    // Only ADA lines; native token lines share the hash but not the unit
+    ...transactions
+      .filter((tx) => tx.asset === 'lovelace')
+      .map((tx) => ({
+        timestamp: tx.blockTime,
+        delta: BigInt(tx.netAmount) - BigInt(tx.withdrawalAmount ?? '0'),
+      })),
+    ...rewards.map((reward) => ({
+      timestamp: reward.blockTime,
+      delta: BigInt(reward.netAmount),
+    })),
+  ];
+
+  return { events, failedCount };
+}
+
+/**
+ * Daily balance history for a wallet.
+ *
+ * @param currentLovelace - Current total balance (UTxOs plus rewards), which
+ *   anchors the reconstruction. The query waits until it is available.
+ */
+export function usePortfolioHistory(
+  wallet: NetworkWallet,
+  network: CardanoNetwork,
+  currentLovelace: string | undefined
+) {
+  const walletIdentifier = wallet.address || wallet.stakeAddress;
+  const walletKey = `${network}:${walletIdentifier}`;
+  const stored = usePortfolioHistoryStore((state) => state.histories[walletKey]);
+  const setHistory = usePortfolioHistoryStore((state) => state.setHistory);
+  const [progress, setProgress] = useState<HistoryProgress | null>(null);
+
+  const query = useQuery({
+    queryKey: ['portfolio-history', walletKey],
+    queryFn: async (): Promise<PortfolioHistoryResult> => {
+      try {
+        const { events, failedCount } = await fetchBalanceEvents(wallet, network, setProgress);
+        const snapshots = buildBalanceHistory(BigInt(currentLovelace ?? '0'), events);
+        setHistory(walletKey, snapshots);
+        return { snapshots, failedCount };
+      } finally {
+        setProgress(null);
+      }
+    },
+    enabled: !!walletIdentifier && currentLovelace !== undefined,
+    initialData: stored ? { snapshots: stored.snapshots, failedCount: 0 } : undefined,
+    initialDataUpdatedAt: stored?.syncedAt,
+    staleTime: HISTORY_STALE_MS,
+    retry: 1,
+  });
+
+  return {
+    snapshots: query.data?.snapshots ?? [],
+    failedCount: query.data?.failedCount ?? 0,
+    syncedAt: stored?.syncedAt ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    progress,
+    refetch: query.refetch,
+  };
+}
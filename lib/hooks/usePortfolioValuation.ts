@@ -0,0 +1,84 @@
+/**
+ * Hook for valuing a wallet's native tokens in ADA.
+ * Prices come from the Minswap aggregator, which only covers mainnet.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { getTokenPriceInAda } from '../defi/aggregator-api';
+import { DEFI_CONFIG } from '../defi/constants';
+import { useSettingsStore } from '../stores/settings';
+import { valuePortfolio, type PortfolioValuation } from '../utils/valuation';
+import { useTokenMetadata } from './useTokenMetadata';
+import type { WalletBalance } from './useWalletData';
+
+/**
+ * Prices per whole token in ADA, keyed by unit.
+ * A null value means the token has no liquidity; missing means still loading
+ * or, for units in `failedUnits`, that the lookup failed.
+ */
+export function useTokenPrices(units: string[]) {
+  const network = useSettingsStore((state) => state.network);
+  // Testnet tokens have no DEX markets
+  const enabled = network === 'mainnet';
+
+  // Memoized on units so useQueries re-runs it only when a price query changes
+  const combine = useCallback(
+    (results: UseQueryResult<number | null>[]) => {
+      const prices: Record<string, number | null> = {};
+      const failedUnits = new Set<string>();
+      results.forEach((result, index) => {
+        if (!enabled) {
+          prices[units[index]] = null;
+        } else if (result.isError) {
+          failedUnits.add(units[index]);
+        } else if (result.data !== undefined) {
+          prices[units[index]] = result.data;
+        }
+      });
+      return {
+        prices,
+        failedUnits,
+        isLoading: results.some((r) => r.isLoading),
+      };
+    },
+    [units, enabled]
+  );
+
+  return useQueries({
+    queries: units.map((unit) => ({
+      queryKey: ['token-price', unit],
+      queryFn: () => getTokenPriceInAda(unit),
+      enabled,
+      staleTime: DEFI_CONFIG.TOKEN_CACHE_TTL_MS,
+      retry: 1,
+    })),
+    combine,
+  });
+}
+
+/**
+ * Value a wallet balance, including native tokens, in ADA.
+ * Returns undefined until the balance itself is available.
+ */
+export function usePortfolioValuation(
+  balance: WalletBalance | undefined
+): PortfolioValuation | undefined {
+  const units = useMemo(() => balance?.tokens.map((t) => t.unit) ?? [], [balance]);
+  const { metadata } = useTokenMetadata(units);
+  const { prices, failedUnits } = useTokenPrices(units);
+
+  return useMemo(() => {
+    if (!balance) return undefined;
+    return valuePortfolio(
+      balance.ada,
+      balance.tokens.map((token) => ({
+        unit: token.unit,
+        quantity: token.quantity,
+        decimals: metadata[token.unit]?.decimals,
+        priceInAda: prices[token.unit],
+        priceFailed: failedUnits.has(token.unit),
+      }))
+    );
+  }, [balance, metadata, prices, failedUnits]);
+}
@@ -0,0 +1,134 @@
+/**
+ * Hook for projecting staking rewards at the current and recommended pools.
+ * Shares the pool and recommendation queries with the staking tool's other
+ * sections, so opening the calculator only adds the reward parameters and
+ * each pool's recent performance.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useQueries } from '@tanstack/react-query';
+import {
+  stakingApi,
+  getPoolRecommendations,
+  projectRewards,
+  compareRewardProjections,
+  STAKING_CONFIG,
+} from '../staking';
+import type { PoolInfo, RewardParameters, RewardProjection, RewardComparison } from '../staking';
+import { useSettingsStore } from '../stores/settings';
+
+interface UseRewardProjectionsResult {
+  parameters: RewardParameters | undefined;
+  currentPool: PoolInfo | undefined;
+  /** Null when not delegating */
+  current: RewardProjection | null;
+  /** Recommended pools, most expected rewards first */
+  comparisons: RewardComparison[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Project rewards for a stake amount at the current pool and each
+ * recommended pool.
+ *
+ * @param currentPoolId - Pool the wallet delegates to, null if none
+ * @param stake - Stake to project in ADA
+ * @param delegatedStake - ADA the wallet already delegates to the current pool
+ */
+export function useRewardProjections(
+  currentPoolId: string | null,
+  stake: number,
+  delegatedStake: number
+): UseRewardProjectionsResult {
+  const network = useSettingsStore((state) => state.network);
+
+  const parametersQuery = useQuery({
+    queryKey: ['reward-parameters', network],
+    queryFn: () => stakingApi.getRewardParameters(),
+    staleTime: STAKING_CONFIG.REWARD_PARAMETERS_CACHE_TTL_MS,
+  });
+  const currentPoolQuery = useQuery({
+    queryKey: ['pool', network, currentPoolId],
+    queryFn: () => {
+      if (!currentPoolId) throw new Error('No pool ID');
+      return stakingApi.getPoolDetails(currentPoolId);
+    },
+    enabled: !!currentPoolId,
+    staleTime: STAKING_CONFIG.POOL_DETAILS_CACHE_TTL_MS,
+  });
+  const recommendationsQuery = useQuery({
+    queryKey: ['poolRecommendations', network, currentPoolId],
+    queryFn: () => getPoolRecommendations(currentPoolId),
+    staleTime: STAKING_CONFIG.POOL_LIST_CACHE_TTL_MS,
+  });
+
+  const parameters = parametersQuery.data;
+  const currentPool = currentPoolQuery.data;
+  const recommendations = recommendationsQuery.data;
+
+  const pools = useMemo(() => {
+    const recommended = recommendations?.map((rec) => rec.pool) ?? [];
+    return currentPool ? [currentPool, ...recommended] : recommended;
+  }, [currentPool, recommendations]);
+
+  // A failed performance lookup falls back to assuming perfect performance
+  const performance = useQueries({
+    queries: pools.map((pool) => ({
+      queryKey: ['pool-performance', network, pool.poolId],
+      queryFn: () => {
+        if (!parameters) throw new Error('Reward parameters not loaded');
+        return stakingApi.getPoolPerformance(pool.poolId, parameters.blocksPerEpoch);
+      },
+      enabled: !!parameters,
+      staleTime: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS,
+      retry: 1,
+    })),
+    combine: (results) => ({
+      byPool: Object.fromEntries(
+        results.map((result, index) => [pools[index].poolId, result.data ?? null])
+      ) as Record<string, number | null>,
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+
+  const { current, comparisons } = useMemo(() => {
+    if (!parameters || performance.isLoading) {
+      return { current: null, comparisons: [] };
+    }
+
+    const currentProjection = currentPool
+      ? projectRewards(
+          parameters,
+          currentPool,
+          stake,
+          performance.byPool[currentPool.poolId],
+          delegatedStake
+        )
+      : null;
+    const alternatives = (recommendations ?? []).map((rec) => ({
+      pool: rec.pool,
+      projection: projectRewards(parameters, rec.pool, stake, performance.byPool[rec.pool.poolId]),
+    }));
+
+    return {
+      current: currentProjection,
+      comparisons: compareRewardProjections(currentProjection, alternatives),
+    };
+  }, [parameters, currentPool, recommendations, performance, stake, delegatedStake]);
+
+  const error = parametersQuery.error ?? currentPoolQuery.error ?? null;
+
+  return {
+    parameters,
+    currentPool,
+    current,
+    comparisons,
+    isLoading:
+      parametersQuery.isLoading ||
+      currentPoolQuery.isLoading ||
+      recommendationsQuery.isLoading ||
+      performance.isLoading,
+    error: error instanceof Error ? error : null,
+  };
+}
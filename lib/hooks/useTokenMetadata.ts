@@ -0,0 +1,36 @@
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { useSettingsStore } from '../stores/settings';
+import { getTokenMetadata, type TokenMetadata } from '../cardano/token-metadata';
+
+// Module level so the combined result keeps its reference until a query changes
+function combineMetadata(results: UseQueryResult<TokenMetadata>[]) {
+  const metadata: Record<string, TokenMetadata> = {};
+  for (const result of results) {
+    if (result.data) {
+      metadata[result.data.unit] = result.data;
+    }
+  }
+  return {
+    metadata,
+    isLoading: results.some((r) => r.isLoading),
+  };
+}
+
+/**
+ * Metadata for a list of asset units, keyed by unit.
+ * Units whose metadata is still loading (or failed) are absent from the map.
+ */
+export function useTokenMetadata(units: string[]) {
+  const network = useSettingsStore((state) => state.network);
+
+  return useQueries({
+    queries: units.map((unit) => ({
+      queryKey: ['token-metadata', network, unit],
+      queryFn: () => getTokenMetadata(unit),
+      // Persistent cache handles expiry; no need to refetch in-session
+      staleTime: Infinity,
+      retry: 1,
+    })),
+    combine: combineMetadata,
+  });
+}
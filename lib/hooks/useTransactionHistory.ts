@@ -0,0 +1,59 @@
+/**
+ * Hook for a wallet's transaction history.
+ * Reads the local transaction store (syncing only newer blocks) and adds
+ * staking rewards and token metadata, grouped into one entry per transaction.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { collectWalletTransactions } from './useExportTransactions';
+import type { CardanoNetwork } from '../cardano/network';
+import type { NetworkWallet } from '../stores/wallet';
+import type { ExportProgress } from '../types/transaction';
+import { groupHistoryEntries, type HistoryEntry } from '../utils/transaction-history';
+
+/** Check for new transactions at most every 5 minutes */
+const HISTORY_STALE_MS = 5 * 60 * 1000;
+
+interface TransactionHistoryResult {
+  entries: HistoryEntry[];
+  /** Problems that leave the history incomplete */
+  warnings: string[];
+}
+
+export function useTransactionHistory(wallet: NetworkWallet, network: CardanoNetwork) {
+  const { address: walletAddress, stakeAddress } = wallet;
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+
+  const query = useQuery({
+    queryKey: ['transaction-history', network, walletAddress, stakeAddress],
+    queryFn: async (): Promise<TransactionHistoryResult> => {
+      const warnings: string[] = [];
+      try {
+        const { transactions } = await collectWalletTransactions(
+          walletAddress,
+          stakeAddress,
+          { includeStakingRewards: true, assetFilter: 'all', fiatCurrency: null },
+          setProgress,
+          (warning) => warnings.push(warning)
+        );
+        return { entries: groupHistoryEntries(transactions), warnings };
+      } finally {
+        setProgress(null);
+      }
+    },
+    enabled: !!(walletAddress || stakeAddress),
+    staleTime: HISTORY_STALE_MS,
+    retry: 1,
+  });
+
+  return {
+    entries: query.data?.entries ?? [],
+    warnings: query.data?.warnings ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    progress,
+    refetch: query.refetch,
+  };
+}
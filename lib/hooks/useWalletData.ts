@@ -1,18 +1,22 @@
-import { useQuery } from '@tanstack/react-query';
-import { blockfrost } from '../api/blockfrost';
-import { useWalletStore } from '../stores/wallet';
-
-// Cardano policy IDs are 28 bytes = 56 hex characters
-const POLICY_ID_HEX_LENGTH = 56;
-// Number of characters to show when truncating hex strings for display
-const HEX_DISPLAY_TRUNCATE_LENGTH = 8;
-// Number of characters to show when truncating asset unit IDs
-const ASSET_UNIT_DISPLAY_TRUNCATE_LENGTH = 12;
+import { useQuery, useQueries } from '@tanstack/react-query';
+import { blockfrost, type AccountAddress, type Utxo } from '../api/blockfrost';
+import { isNotFoundError } from '../api/errors';
+import {
+  useActiveWallet,
+  useNetworkWallets,
+  type NetworkWallet,
+  type SavedWallet,
+} from '../stores/wallet';
+import { isStakeAddress } from '../cardano/network';
+import { decodeAddress, deriveStakeAddress, isValidAddress } from '../cardano/address';
+import { decodeAssetName, parseAssetUnit } from '../cardano/token-metadata';
 
 export interface WalletBalance {
   lovelace: string;
   ada: number;
   rewardsAda: number;
+  /** Withdrawable rewards in lovelace (included in `lovelace`) */
+  rewardsLovelace: string;
   tokens: TokenBalance[];
 }
 
@@ -24,32 +28,6 @@ export interface TokenBalance {
   displayName: string;
 }
 
-function parseAssetUnit(unit: string): { policyId: string; assetName: string } {
-  // Lovelace is just 'lovelace'
-  if (unit === 'lovelace') {
-    return { policyId: '', assetName: '' };
-  }
-  // Other assets: first POLICY_ID_HEX_LENGTH chars are policy ID, rest is asset name (hex)
-  const policyId = unit.slice(0, POLICY_ID_HEX_LENGTH);
-  const assetNameHex = unit.slice(POLICY_ID_HEX_LENGTH);
-  return { policyId, assetName: assetNameHex };
-}
-
-function hexToAscii(hex: string): string {
-  try {
-    let str = '';
-    for (let i = 0; i < hex.length; i += 2) {
-      const charCode = parseInt(hex.slice(i, i + 2), 16);
-      if (charCode >= 32 && charCode <= 126) {
-        str += String.fromCharCode(charCode);
-      }
-    }
-    return str || hex.slice(0, HEX_DISPLAY_TRUNCATE_LENGTH);
-  } catch {
-    return hex.slice(0, HEX_DISPLAY_TRUNCATE_LENGTH);
-  }
-}
-
 function lovelaceToAda(lovelace: bigint): number {
   // Convert BigInt to ADA using string manipulation to avoid precision loss
   const lovelaceStr = lovelace.toString().padStart(7, '0');
@@ -59,55 +37,105 @@ function lovelaceToAda(lovelace: bigint): number {
   return parseFloat(adaStr);
 }
 
-async function fetchWalletBalance(address: string): Promise<WalletBalance> {
-  // Step 1: Get address info to find the stake address
-  const addressInfo = await blockfrost.getAddressInfo(address);
-  const stakeAddress = addressInfo.stake_address;
+/**
+ * Find the stake address for a payment address.
+ * Base addresses embed the stake credential, so it is derived locally.
+ * Pointer addresses only reference a certificate and need an API lookup.
+ */
+async function resolveStakeAddress(address: string): Promise<string | null> {
+  const derived = deriveStakeAddress(address);
+  if (derived) return derived;
+
+  if (isValidAddress(address) && decodeAddress(address).kind === 'pointer') {
+    const addressInfo = await blockfrost.getAddressInfo(address);
+    return addressInfo.stake_address;
+  }
+
+  // Enterprise and Byron addresses have no stake credential
+  return null;
+}
 
+function addUtxoAmounts(balances: Map<string, bigint>, utxos: Utxo[]): void {
+  for (const utxo of utxos) {
+    for (const amount of utxo.amount) {
+      const current = balances.get(amount.unit) || BigInt(0);
+      balances.set(amount.unit, current + BigInt(amount.quantity));
+    }
+  }
+}
+
+/**
+ * Aggregate UTXO balances across every address of a stake key and
+ * read its withdrawable rewards.
+ */
+async function fetchAccountBalances(
+  stakeAddress: string
+): Promise<{ balances: Map<string, bigint>; stakingRewards: bigint }> {
   const balances = new Map<string, bigint>();
   let stakingRewards = BigInt(0);
 
-  if (stakeAddress) {
-    // Step 2: Get ALL addresses associated with this stake key
-    const accountAddresses = await blockfrost.getAccountAddresses(stakeAddress);
-
-    // Step 3: Fetch UTXOs from all addresses in parallel
-    const utxoPromises = accountAddresses.map((addr) =>
-      blockfrost.getAddressUtxos(addr.address)
-    );
-    const allUtxoArrays = await Promise.all(utxoPromises);
-
-    // Aggregate balances from all UTXOs
-    for (const utxos of allUtxoArrays) {
-      for (const utxo of utxos) {
-        for (const amount of utxo.amount) {
-          const current = balances.get(amount.unit) || BigInt(0);
-          balances.set(amount.unit, current + BigInt(amount.quantity));
-        }
-      }
+  // Get ALL addresses associated with this stake key.
+  // An account that has never appeared on-chain returns 404 - treat it as empty.
+  let accountAddresses: AccountAddress[] = [];
+  try {
+    accountAddresses = await blockfrost.getAccountAddresses(stakeAddress);
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
     }
+  }
 
-    // Step 4: Get staking rewards (withdrawable amount)
-    try {
-      const accountInfo = await blockfrost.getAccountInfo(stakeAddress);
-      stakingRewards = BigInt(accountInfo.withdrawable_amount || '0');
-    } catch (error) {
-      // Only ignore 404 errors (account not registered for staking)
-      // Re-throw other errors (network issues, server errors, etc.)
-      const errorMessage = error instanceof Error ? error.message : '';
-      if (!errorMessage.includes('404') && !errorMessage.includes('not found')) {
-        throw error;
-      }
+  // Fetch UTXOs from all addresses in parallel
+  const allUtxoArrays = await Promise.all(
+    accountAddresses.map((addr) => blockfrost.getAddressUtxos(addr.address))
+  );
+  for (const utxos of allUtxoArrays) {
+    addUtxoAmounts(balances, utxos);
+  }
+
+  // Get staking rewards (withdrawable amount)
+  try {
+    const accountInfo = await blockfrost.getAccountInfo(stakeAddress);
+    stakingRewards = BigInt(accountInfo.withdrawable_amount || '0');
+  } catch (error) {
+    // Only ignore 404 errors (account not registered for staking)
+    // Re-throw other errors (network issues, server errors, etc.)
+    if (!isNotFoundError(error)) {
+      throw error;
     }
+  }
+
+  return { balances, stakingRewards };
+}
+
+/**
+ * Stake address of the account a wallet identifier's balance covers, or null
+ * when it is a single address without a stake credential.
+ * A stake address is its own account.
+ */
+export async function resolveWalletStakeAddress(walletIdentifier: string): Promise<string | null> {
+  return isStakeAddress(walletIdentifier)
+    ? walletIdentifier
+    : resolveStakeAddress(walletIdentifier);
+}
+
+/**
+ * Fetch the balance for a wallet identifier.
+ * Accepts a payment address or a stake address; anything with a stake key
+ * is aggregated across all of the account's addresses.
+ */
+async function fetchWalletBalance(walletIdentifier: string): Promise<WalletBalance> {
+  const stakeAddress = await resolveWalletStakeAddress(walletIdentifier);
+
+  let balances = new Map<string, bigint>();
+  let stakingRewards = BigInt(0);
+
+  if (stakeAddress) {
+    ({ balances, stakingRewards } = await fetchAccountBalances(stakeAddress));
   } else {
     // No stake address - just fetch UTXOs for this single address
-    const utxos = await blockfrost.getAddressUtxos(address);
-    for (const utxo of utxos) {
-      for (const amount of utxo.amount) {
-        const current = balances.get(amount.unit) || BigInt(0);
-        balances.set(amount.unit, current + BigInt(amount.quantity));
-      }
-    }
+    const utxos = await blockfrost.getAddressUtxos(walletIdentifier);
+    addUtxoAmounts(balances, utxos);
   }
 
   // Extract lovelace (ADA) and add staking rewards
@@ -122,38 +150,133 @@ async function fetchWalletBalance(address: string): Promise<WalletBalance> {
   for (const [unit, quantity] of balances) {
     if (unit === 'lovelace') continue;
 
-    const { policyId, assetName } = parseAssetUnit(unit);
+    const { policyId, assetNameHex } = parseAssetUnit(unit);
     tokens.push({
       unit,
       quantity: quantity.toString(),
       policyId,
-      assetName,
-      displayName: hexToAscii(assetName) || unit.slice(0, ASSET_UNIT_DISPLAY_TRUNCATE_LENGTH),
+      assetName: assetNameHex,
+      // Refined by token metadata (see useTokenMetadata) once it loads
+      displayName: decodeAssetName(assetNameHex),
     });
   }
 
-  return { lovelace, ada, rewardsAda, tokens };
+  return { lovelace, ada, rewardsAda, rewardsLovelace: stakingRewards.toString(), tokens };
 }
 
-export function useWalletData() {
-  const { address, stakeAddress } = useWalletStore();
-  const walletIdentifier = address || stakeAddress;
+function getWalletIdentifier(wallet: NetworkWallet): string | null {
+  return wallet.address || wallet.stakeAddress;
+}
 
-  return useQuery({
+function walletBalanceQuery(walletIdentifier: string | null) {
+  return {
     queryKey: ['wallet-balance', walletIdentifier],
     queryFn: () => {
       if (!walletIdentifier) {
         throw new Error('No wallet address');
       }
-      // For stake addresses, we'd need a different endpoint
-      // For now, only support regular addresses
-      if (walletIdentifier.startsWith('stake1')) {
-        throw new Error('Stake address balance lookup not yet implemented');
-      }
       return fetchWalletBalance(walletIdentifier);
     },
-    enabled: !!walletIdentifier && !walletIdentifier.startsWith('stake1'),
+    enabled: !!walletIdentifier,
     staleTime: 30 * 1000, // 30 seconds
     retry: 2,
+  };
+}
+
+/**
+ * Sum several wallet balances into one, merging tokens by unit.
+ */
+export function sumWalletBalances(balances: WalletBalance[]): WalletBalance {
+  let totalLovelace = BigInt(0);
+  let totalRewards = BigInt(0);
+  const tokensByUnit = new Map<string, { token: TokenBalance; quantity: bigint }>();
+
+  for (const balance of balances) {
+    totalLovelace += BigInt(balance.lovelace);
+    totalRewards += BigInt(balance.rewardsLovelace);
+    for (const token of balance.tokens) {
+      const existing = tokensByUnit.get(token.unit);
+      tokensByUnit.set(token.unit, {
+        token: existing?.token ?? token,
+        quantity: (existing?.quantity ?? BigInt(0)) + BigInt(token.quantity),
+      });
+    }
+  }
+
+  return {
+    lovelace: totalLovelace.toString(),
+    ada: lovelaceToAda(totalLovelace),
+    rewardsAda: lovelaceToAda(totalRewards),
+    rewardsLovelace: totalRewards.toString(),
+    tokens: Array.from(tokensByUnit.values(), ({ token, quantity }) => ({
+      ...token,
+      quantity: quantity.toString(),
+    })),
+  };
+}
+
+export function useWalletData() {
+  const wallet = useActiveWallet();
+  return useQuery(walletBalanceQuery(getWalletIdentifier(wallet)));
+}
+
+export interface WalletBreakdownEntry {
+  wallet: SavedWallet;
+  balance: WalletBalance | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  /** True when another wallet already covers the same stake key */
+  isDuplicate: boolean;
+}
+
+/**
+ * Balances for every saved wallet on the selected network, plus their total.
+ * Wallets sharing a stake key are counted once in the total, since each
+ * lookup already aggregates every address of the account.
+ * Pass `enabled = false` to skip fetching while the combined view is hidden.
+ */
+export function useAllWalletsData(enabled = true) {
+  const wallets = useNetworkWallets();
+
+  const results = useQueries({
+    queries: wallets.map((wallet) => {
+      const query = walletBalanceQuery(getWalletIdentifier(wallet));
+      return { ...query, enabled: enabled && query.enabled };
+    }),
+  });
+
+  const seenAccounts = new Set<string>();
+  const breakdown: WalletBreakdownEntry[] = wallets.map((wallet, index) => {
+    const account = wallet.stakeAddress ?? wallet.address ?? wallet.id;
+    const isDuplicate = seenAccounts.has(account);
+    seenAccounts.add(account);
+    return {
+      wallet,
+      balance: results[index]?.data,
+      isLoading: results[index]?.isLoading ?? false,
+      error: results[index]?.error ?? null,
+      isDuplicate,
+    };
   });
+
+  const counted = breakdown
+    .filter((entry) => !entry.isDuplicate && entry.balance)
+    .map((entry) => entry.balance as WalletBalance);
+
+  // The stalest counted balance, so the combined view never overstates freshness
+  const updatedTimes = results
+    .filter((_, index) => !breakdown[index].isDuplicate && results[index].data)
+    .map((r) => r.dataUpdatedAt);
+
+  return {
+    total: sumWalletBalances(counted),
+    breakdown,
+    dataUpdatedAt: updatedTimes.length > 0 ? Math.min(...updatedTimes) : 0,
+    isRefetchError: results.some((r) => r.isRefetchError),
+    isLoading: results.some((r) => r.isLoading),
+    isError: results.length > 0 && results.every((r) => r.isError),
+    error: results.find((r) => r.error)?.error ?? null,
+    isRefetching: results.some((r) => r.isRefetching),
+    refetch: () => Promise.all(results.map((r) => r.refetch())),
+  };
 }
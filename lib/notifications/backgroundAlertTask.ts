@@ -1,7 +1,8 @@
 /**
  * Background Alert Task
  *
- * Hourly background task to check price alerts when app is closed.
+ * Hourly background task to check price alerts and the delegated stake
+ * pool's health when app is closed.
  * Note: Requires a development build - does not work in Expo Go.
  */
 
@@ -11,7 +12,17 @@ import { usePriceAlertStore } from '../stores/priceAlertStore';
 import { useWatchlistStore } from '../stores/defiWatchlistStore';
 import { getSwapEstimate } from '../defi/aggregator-api';
 import { checkAlert, buildNotification } from '../defi/alertService';
-import { sendPriceAlertNotification } from './notificationService';
+import { useSettingsStore } from '../stores/settings';
+import { useWalletStore } from '../stores/wallet';
+import { usePoolSnapshotStore, getPoolSnapshotKey } from '../stores/poolSnapshotStore';
+import { usePoolAlertStore, getPoolAlertKey } from '../stores/poolAlertStore';
+import {
+  stakingApi,
+  createPoolSnapshot,
+  generatePoolAlerts,
+  buildPoolAlertNotification,
+} from '../staking';
+import { sendPriceAlertNotification, sendPoolAlertNotification } from './notificationService';
 import type { TokenPair } from '../defi/types';
 
 /** Task name for background fetch */
@@ -34,15 +45,29 @@ const isTaskManagerAvailable = (): boolean => {
 };
 
 /**
- * Define the background task.
- * This runs approximately every hour when app is closed.
- * Note: The interval is a minimum - actual execution timing depends on system
- * resources, device state (battery, power mode), and OS scheduling. The task
- * may be delayed or skipped by the system to conserve battery.
- * Only define if TaskManager is available (not in Expo Go).
+ * Load the persisted stores the checks read. When the OS starts the app only
+ * to run this task, nothing has read them from storage yet.
  */
-if (isTaskManagerAvailable()) {
-  TaskManager.defineTask(BACKGROUND_ALERT_TASK, async () => {
+async function hydrateStores(): Promise<void> {
+  const stores = [
+    usePriceAlertStore,
+    useWatchlistStore,
+    useSettingsStore,
+    useWalletStore,
+    usePoolSnapshotStore,
+    usePoolAlertStore,
+  ];
+  await Promise.all(
+    stores
+      .filter((store) => !store.persist.hasHydrated())
+      .map((store) => store.persist.rehydrate())
+  );
+}
+
+/**
+ * Check active price alerts against current swap rates.
+ */
+async function checkPriceAlerts(): Promise<BackgroundFetch.BackgroundFetchResult> {
   try {
     const alertStore = usePriceAlertStore.getState();
     const watchlistStore = useWatchlistStore.getState();
@@ -167,9 +192,111 @@ if (isTaskManagerAvailable()) {
       ? BackgroundFetch.BackgroundFetchResult.NewData
       : BackgroundFetch.BackgroundFetchResult.NoData;
   } catch (error) {
-    console.error('[BackgroundAlert] Task failed:', error);
+    console.error('[BackgroundAlert] Price check failed:', error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+}
+
+/**
+ * Check the active wallet's delegated pool and notify about new alerts.
+ * Each pool and alert type is notified once while the alert stays active.
+ */
+async function checkPoolHealth(): Promise<BackgroundFetch.BackgroundFetchResult> {
+  try {
+    // Pool alerts follow the same notification switch as price alerts
+    if (!usePriceAlertStore.getState().notificationsEnabled) {
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+
+    const poolAlertStore = usePoolAlertStore.getState();
+    const { network } = useSettingsStore.getState();
+    const { wallets, activeWalletIds } = useWalletStore.getState();
+    const stakeAddress = wallets.find((w) => w.id === activeWalletIds[network])?.stakeAddress;
+
+    if (!stakeAddress) {
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+
+    const delegation = await stakingApi.getUserDelegation(stakeAddress);
+    if (!delegation.poolId) {
+      poolAlertStore.setNotifiedAlerts(network, []);
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+
+    const pool = await stakingApi.getPoolDetails(delegation.poolId);
+
+    // Record this epoch's snapshot so fee, pledge and block changes are caught
+    // even if the staking tool is never opened
+    const snapshotStore = usePoolSnapshotStore.getState();
+    const snapshot = createPoolSnapshot(pool);
+    if (snapshot) {
+      snapshotStore.recordSnapshot(network, pool.poolId, snapshot);
+    }
+    const snapshots =
+      usePoolSnapshotStore.getState().snapshots[getPoolSnapshotKey(network, pool.poolId)] ?? [];
+    const alerts = generatePoolAlerts(pool, snapshots);
+
+    const alreadyNotified = new Set(poolAlertStore.notifiedAlerts);
+    const notifiedKeys: string[] = [];
+    let sentCount = 0;
+
+    for (const alert of alerts) {
+      const key = getPoolAlertKey(network, pool.poolId, alert.type);
+      if (alreadyNotified.has(key)) {
+        notifiedKeys.push(key);
+        continue;
+      }
+
+      const notificationId = await sendPoolAlertNotification(
+        buildPoolAlertNotification(alert, pool)
+      );
+      // Unsent alerts stay out of the list and are retried next run
+      if (notificationId) {
+        notifiedKeys.push(key);
+        sentCount++;
+      }
+    }
+
+    // Resolved alerts drop out, so they notify again if they recur
+    poolAlertStore.setNotifiedAlerts(network, notifiedKeys);
+    poolAlertStore.setLastPoolCheck(Date.now());
+
+    return sentCount > 0
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('[BackgroundAlert] Pool check failed:', error);
     return BackgroundFetch.BackgroundFetchResult.Failed;
   }
+}
+
+/**
+ * Define the background task.
+ * This runs approximately every hour when app is closed.
+ * Note: The interval is a minimum - actual execution timing depends on system
+ * resources, device state (battery, power mode), and OS scheduling. The task
+ * may be delayed or skipped by the system to conserve battery.
+ * Only define if TaskManager is available (not in Expo Go).
+ */
+if (isTaskManagerAvailable()) {
+  TaskManager.defineTask(BACKGROUND_ALERT_TASK, async () => {
+    try {
+      await hydrateStores();
+    } catch (error) {
+      console.error('[BackgroundAlert] Failed to load stores:', error);
+      return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+
+    // Independent checks: a failing price API shouldn't skip the pool check
+    const results = await Promise.all([checkPriceAlerts(), checkPoolHealth()]);
+
+    if (results.includes(BackgroundFetch.BackgroundFetchResult.NewData)) {
+      return BackgroundFetch.BackgroundFetchResult.NewData;
+    }
+    if (results.every((result) => result === BackgroundFetch.BackgroundFetchResult.Failed)) {
+      return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+    return BackgroundFetch.BackgroundFetchResult.NoData;
   });
 }
 
@@ -8,6 +8,7 @@ export {
   requestPermissions,
   checkPermissions,
   sendPriceAlertNotification,
+  sendPoolAlertNotification,
   addNotificationResponseListener,
   addNotificationReceivedListener,
 } from './notificationService';
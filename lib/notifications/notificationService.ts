@@ -7,9 +7,11 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import type { PriceAlertNotification } from '../defi/alertTypes';
+import type { PoolAlertNotification } from '../staking/types';
 
-/** Notification channel ID for Android */
+/** Notification channel IDs for Android */
 const PRICE_ALERT_CHANNEL_ID = 'price-alerts';
+const POOL_ALERT_CHANNEL_ID = 'pool-alerts';
 
 /**
  * Configure notification handling.
@@ -28,8 +30,9 @@ export function configureNotifications(): void {
 }
 
 /**
- * Create Android notification channel.
- * Required for Android 8.0+.
+ * Create Android notification channels.
+ * Required for Android 8.0+. Pool alerts get their own channel so users
+ * can mute them separately from price alerts in system settings.
  */
 export async function setupNotificationChannel(): Promise<void> {
   if (Platform.OS === 'android') {
@@ -40,6 +43,12 @@ export async function setupNotificationChannel(): Promise<void> {
       lightColor: '#00FFFF',
       sound: 'default',
     });
+    await Notifications.setNotificationChannelAsync(POOL_ALERT_CHANNEL_ID, {
+      name: 'Stake Pool Alerts',
+      importance: Notifications.AndroidImportance.DEFAULT,
+      lightColor: '#00FFFF',
+      sound: 'default',
+    });
   }
 }
 
@@ -95,6 +104,35 @@ export async function sendPriceAlertNotification(
   }
 }
 
+/**
+ * Schedule a local notification for a pool health alert.
+ * Returns notification ID on success, null on failure.
+ */
+export async function sendPoolAlertNotification(
+  notification: PoolAlertNotification
+): Promise<string | null> {
+  try {
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        sound: 'default',
+        ...(Platform.OS === 'android' && {
+          channelId: POOL_ALERT_CHANNEL_ID,
+        }),
+      },
+      trigger: null, // Immediate delivery
+    });
+
+    return notificationId;
+  } catch (error) {
+    // Log but don't throw - notification failure shouldn't crash background task
+    console.warn('[Notifications] Failed to send pool alert:', error);
+    return null;
+  }
+}
+
 /**
  * Add listener for notification interactions.
  */
@@ -3,14 +3,133 @@
  * Analyzes pool health and generates actionable alerts for users.
  */
 
-import { STAKING_CONFIG } from './constants';
-import type { PoolInfo, PoolAlert, PoolAlertType, AlertSeverity } from './types';
+import { formatAda } from '../utils/lovelace';
+import { STAKING_CONFIG, ALERT_TYPE_LABELS } from './constants';
+import type {
+  PoolInfo,
+  PoolAlert,
+  PoolAlertType,
+  AlertSeverity,
+  PoolSnapshot,
+  PoolAlertNotification,
+} from './types';
 
 /**
- * Generate alerts based on current pool state.
+ * Snapshot of the pool's current parameters, or null if its epoch is unknown.
+ */
+export function createPoolSnapshot(pool: PoolInfo): PoolSnapshot | null {
+  if (pool.latestEpoch === null) return null;
+  return {
+    epoch: pool.latestEpoch,
+    margin: pool.margin,
+    fixedCost: pool.fixedCost,
+    pledge: pool.pledge,
+    lifetimeBlocks: pool.lifetimeBlocks,
+  };
+}
+
+/**
+ * Fee and pledge alerts from diffing the pool against snapshots of earlier
+ * epochs.
+ */
+function generateSnapshotAlerts(pool: PoolInfo, snapshots: PoolSnapshot[]): PoolAlert[] {
+  const alerts: PoolAlert[] = [];
+
+  // Owners holding less than the declared pledge forfeit the pool's rewards
+  if (BigInt(pool.livePledge) < BigInt(pool.pledge)) {
+    alerts.push({
+      type: 'pledge_decreased',
+      severity: 'critical',
+      message: `Owners hold ${formatAda(pool.livePledge, 0)} ADA, below the declared pledge of ${formatAda(pool.pledge, 0)} ADA. The pool earns no rewards until pledge is met.`,
+      poolId: pool.poolId,
+    });
+  }
+
+  if (pool.latestEpoch === null) return alerts;
+  const currentEpoch = pool.latestEpoch;
+  const earlier = snapshots
+    .filter((snapshot) => snapshot.epoch < currentEpoch)
+    .sort((a, b) => a.epoch - b.epoch);
+  if (earlier.length === 0) return alerts;
+
+  // Report changes against the oldest snapshot so they stay visible for the
+  // whole retention window, not just the epoch they happened in
+  const baseline = earlier[0];
+
+  const feeChanges: string[] = [];
+  if (pool.margin - baseline.margin >= STAKING_CONFIG.MARGIN_INCREASE_WARNING) {
+    feeChanges.push(
+      `margin rose from ${(baseline.margin * 100).toFixed(1)}% to ${(pool.margin * 100).toFixed(1)}%`
+    );
+  }
+  if (BigInt(pool.fixedCost) > BigInt(baseline.fixedCost)) {
+    feeChanges.push(
+      `fixed cost rose from ${formatAda(baseline.fixedCost, 0)} to ${formatAda(pool.fixedCost, 0)} ADA`
+    );
+  }
+  if (feeChanges.length > 0) {
+    const changes = feeChanges.join(' and ');
+    alerts.push({
+      type: 'margin_increase',
+      severity: 'warning',
+      message: `Since epoch ${baseline.epoch}, ${changes}. Compare with other pools.`,
+      poolId: pool.poolId,
+    });
+  }
+
+  // Live pledge shortfalls are reported above; this catches declared cuts
+  if (
+    BigInt(pool.pledge) < BigInt(baseline.pledge) &&
+    BigInt(pool.livePledge) >= BigInt(pool.pledge)
+  ) {
+    alerts.push({
+      type: 'pledge_decreased',
+      severity: 'warning',
+      message: `Declared pledge dropped from ${formatAda(baseline.pledge, 0)} to ${formatAda(pool.pledge, 0)} ADA since epoch ${baseline.epoch}.`,
+      poolId: pool.poolId,
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Alert when the pool made no blocks over the warning window. Uses the
+ * pool's recent history, falling back to snapshots when history is missing
+ * or shorter than the window.
+ */
+function generateBlockAlert(pool: PoolInfo, snapshots: PoolSnapshot[]): PoolAlert | null {
+  const windowEpochs = STAKING_CONFIG.EPOCHS_WITHOUT_BLOCKS_WARNING;
+  let epochsWithoutBlocks: number | null = null;
+
+  if (pool.recentBlocks !== null) {
+    if (pool.recentBlocks === 0) epochsWithoutBlocks = windowEpochs;
+  } else if (pool.latestEpoch !== null) {
+    // Most recent snapshot old enough to cover the window
+    const windowStart = pool.latestEpoch - windowEpochs;
+    const windowSnapshot = snapshots
+      .filter((snapshot) => snapshot.epoch <= windowStart)
+      .sort((a, b) => b.epoch - a.epoch)[0];
+    if (windowSnapshot && windowSnapshot.lifetimeBlocks === pool.lifetimeBlocks) {
+      epochsWithoutBlocks = pool.latestEpoch - windowSnapshot.epoch;
+    }
+  }
+
+  if (epochsWithoutBlocks === null) return null;
+  return {
+    type: 'no_recent_blocks',
+    severity: 'warning',
+    message: `No blocks minted in the last ${epochsWithoutBlocks} epochs. The pool may be offline or too small to be elected regularly.`,
+    poolId: pool.poolId,
+  };
+}
+
+/**
+ * Generate alerts based on current pool state and, when available, snapshots
+ * of the pool from earlier epochs.
  * Returns array of alerts sorted by severity (critical first).
  */
-export function generatePoolAlerts(pool: PoolInfo): PoolAlert[] {
+export function generatePoolAlerts(pool: PoolInfo, snapshots: PoolSnapshot[] = []): PoolAlert[] {
   const alerts: PoolAlert[] = [];
 
   // Check for retiring pool (critical)
@@ -44,6 +163,10 @@ export function generatePoolAlerts(pool: PoolInfo): PoolAlert[] {
     });
   }
 
+  alerts.push(...generateSnapshotAlerts(pool, snapshots));
+  const blockAlert = generateBlockAlert(pool, snapshots);
+  if (blockAlert) alerts.push(blockAlert);
+
   // Sort by severity: critical first, then warning, then info
   const severityOrder: Record<AlertSeverity, number> = {
     critical: 0,
@@ -76,3 +199,21 @@ export function getMostSevereAlert(alerts: PoolAlert[]): PoolAlert | null {
   // Already sorted by severity, so first is most severe
   return alerts[0];
 }
+
+/**
+ * Build the push notification for a pool alert.
+ */
+export function buildPoolAlertNotification(
+  alert: PoolAlert,
+  pool: PoolInfo
+): PoolAlertNotification {
+  return {
+    title: `[${pool.ticker}] ${ALERT_TYPE_LABELS[alert.type]}`,
+    body: alert.message,
+    data: {
+      type: 'pool_alert',
+      poolId: alert.poolId,
+      alertType: alert.type,
+    },
+  };
+}
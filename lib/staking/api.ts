@@ -3,16 +3,34 @@
  * Handles pool information, delegation status, and reward history.
  */
 
-import { fetchBlockfrost } from '../api/blockfrost';
+import { fetchBlockfrost } from '../api/blockfrost-client';
+import { isNotFoundError } from '../api/errors';
+import { blake2b } from '../cardano/blake2b';
 import { STAKING_CONFIG } from './constants';
 import type {
   PoolInfo,
+  PoolSummary,
+  PoolListResult,
+  PoolEpochStats,
+  PoolRelay,
+  PoolCertificate,
+  PoolProfile,
+  MetadataHashStatus,
   DelegationInfo,
   EpochReward,
+  BlockfrostPoolExtended,
   BlockfrostPoolResponse,
   BlockfrostPoolMetadataResponse,
   BlockfrostPoolHistoryItem,
+  BlockfrostPoolRelay,
+  BlockfrostPoolUpdate,
+  BlockfrostTxSummary,
   BlockfrostAccountRewardItem,
+  BlockfrostEpochSummary,
+  BlockfrostProtocolParameters,
+  BlockfrostNetworkResponse,
+  BlockfrostGenesisResponse,
+  RewardParameters,
 } from './types';
 
 /**
@@ -108,6 +126,12 @@ export async function getPoolDetails(poolId: string): Promise<PoolInfo> {
     console.warn(`Failed to fetch history for pool ${poolId}`);
   }
 
+  const blockWindow = history.slice(0, STAKING_CONFIG.EPOCHS_WITHOUT_BLOCKS_WARNING);
+  const recentBlocks =
+    blockWindow.length === STAKING_CONFIG.EPOCHS_WITHOUT_BLOCKS_WARNING
+      ? blockWindow.reduce((sum, epoch) => sum + epoch.blocks, 0)
+      : null;
+
   const last10EpochsROA = calculateROAFromHistory(history);
   const last5EpochsROA = calculateROAFromHistory(
     history.slice(0, STAKING_CONFIG.SHORT_TERM_EPOCHS_FOR_ROA)
@@ -123,6 +147,7 @@ export async function getPoolDetails(poolId: string): Promise<PoolInfo> {
     margin: pool.margin_cost,
     fixedCost: pool.fixed_cost,
     pledge: pool.declared_pledge,
+    livePledge: pool.live_pledge,
     liveStake: pool.live_stake,
     lifetimeBlocks: pool.blocks_minted,
     last10EpochsROA,
@@ -130,6 +155,222 @@ export async function getPoolDetails(poolId: string): Promise<PoolInfo> {
     retiring: pool.retirement.length > 0,
     retireEpoch: pool.retirement.length > 0 ? (parseInt(pool.retirement[0], 10) || null) : null,
     isHistoryComplete,
+    latestEpoch: history[0]?.epoch ?? null,
+    recentBlocks,
+  };
+}
+
+function toPoolSummary(pool: BlockfrostPoolExtended): PoolSummary {
+  return {
+    poolId: pool.pool_id,
+    ticker: pool.metadata?.ticker || null,
+    name: pool.metadata?.name || null,
+    saturation: pool.live_saturation * 100,
+    margin: pool.margin_cost,
+    fixedCost: pool.fixed_cost,
+    pledge: pool.declared_pledge,
+    liveStake: pool.live_stake,
+    lifetimeBlocks: pool.blocks_minted,
+    retiring: !!pool.retirement && pool.retirement.length > 0,
+  };
+}
+
+/**
+ * Page through all registered pools, up to MAX_POOL_PAGES pages.
+ */
+export async function getPoolList(
+  onProgress?: (loaded: number) => void
+): Promise<PoolListResult> {
+  const pools: PoolSummary[] = [];
+
+  for (let page = 1; page <= STAKING_CONFIG.MAX_POOL_PAGES; page++) {
+    const batch = await fetchBlockfrost<BlockfrostPoolExtended[]>(
+      `/pools/extended?count=${STAKING_CONFIG.POOLS_PER_PAGE}&page=${page}`,
+      { cacheTtlMs: STAKING_CONFIG.POOL_LIST_CACHE_TTL_MS }
+    );
+    pools.push(...batch.map(toPoolSummary));
+    onProgress?.(pools.length);
+
+    if (batch.length < STAKING_CONFIG.POOLS_PER_PAGE) {
+      return { pools, isTruncated: false };
+    }
+  }
+
+  return { pools, isTruncated: true };
+}
+
+/**
+ * ROA over the last RECENT_EPOCHS_FOR_ROA epochs for each pool, keyed by
+ * pool ID. Pools that have never minted a block earn nothing and are not
+ * requested; pools whose history fails to load map to null.
+ */
+export async function getPoolsROA(
+  pools: PoolSummary[],
+  onProgress?: (current: number, total: number) => void
+): Promise<Record<string, number | null>> {
+  const roaByPool: Record<string, number | null> = {};
+  const minting = pools.filter((pool) => {
+    if (pool.lifetimeBlocks === 0) roaByPool[pool.poolId] = 0;
+    return pool.lifetimeBlocks > 0;
+  });
+
+  for (let i = 0; i < minting.length; i += STAKING_CONFIG.ROA_BATCH_SIZE) {
+    const batch = minting.slice(i, i + STAKING_CONFIG.ROA_BATCH_SIZE);
+    const results = await Promise.allSettled(
+      batch.map((pool) =>
+        fetchBlockfrost<BlockfrostPoolHistoryItem[]>(
+          `/pools/${pool.poolId}/history?count=${STAKING_CONFIG.RECENT_EPOCHS_FOR_ROA}&order=desc`,
+          // Hundreds of histories would evict everything else from the response cache
+          { cacheTtlMs: 0 }
+        )
+      )
+    );
+    results.forEach((result, index) => {
+      roaByPool[batch[index].poolId] =
+        result.status === 'fulfilled' ? calculateROAFromHistory(result.value) : null;
+    });
+    onProgress?.(Math.min(i + STAKING_CONFIG.ROA_BATCH_SIZE, minting.length), minting.length);
+  }
+
+  return roaByPool;
+}
+
+/**
+ * Get a pool's full per-epoch history, oldest first. Pages newest first so
+ * hitting MAX_POOL_HISTORY_PAGES drops the oldest epochs.
+ */
+export async function getPoolHistory(
+  poolId: string
+): Promise<{ history: PoolEpochStats[]; isTruncated: boolean }> {
+  const history: PoolEpochStats[] = [];
+  const pageSize = STAKING_CONFIG.POOL_HISTORY_PAGE_SIZE;
+
+  for (let page = 1; page <= STAKING_CONFIG.MAX_POOL_HISTORY_PAGES; page++) {
+    const batch = await fetchBlockfrost<BlockfrostPoolHistoryItem[]>(
+      `/pools/${poolId}/history?count=${pageSize}&page=${page}&order=desc`,
+      { cacheTtlMs: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS }
+    );
+    for (const item of batch) {
+      history.push({
+        epoch: item.epoch,
+        blocks: item.blocks,
+        activeStake: item.active_stake,
+        delegators: item.delegators_count,
+        roa: calculateROAFromHistory([item]),
+      });
+    }
+
+    if (batch.length < pageSize) {
+      return { history: history.reverse(), isTruncated: false };
+    }
+  }
+
+  return { history: history.reverse(), isTruncated: true };
+}
+
+function toPoolRelay(relay: BlockfrostPoolRelay): PoolRelay {
+  if (relay.dns_srv) return { address: relay.dns_srv, port: null };
+  return { address: relay.dns ?? relay.ipv4 ?? relay.ipv6 ?? 'unknown', port: relay.port };
+}
+
+async function getPoolCertificates(poolId: string): Promise<PoolCertificate[]> {
+  const updates = await fetchBlockfrost<BlockfrostPoolUpdate[]>(`/pools/${poolId}/updates`, {
+    cacheTtlMs: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS,
+  });
+  // Dates are a nice-to-have; a failed lookup leaves the certificate undated
+  const txs = await Promise.allSettled(
+    updates.map((update) =>
+      fetchBlockfrost<BlockfrostTxSummary>(`/txs/${update.tx_hash}`, {
+        cacheTtlMs: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS,
+      })
+    )
+  );
+
+  return updates.map((update, index) => {
+    const tx = txs[index];
+    return {
+      txHash: update.tx_hash,
+      certIndex: update.cert_index,
+      action: update.action,
+      blockTime: tx.status === 'fulfilled' ? tx.value.block_time : null,
+    };
+  });
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fetch off-chain pool metadata and compare its Blake2b-256 hash with the
+ * hash in the pool's registration certificate.
+ */
+export async function verifyPoolMetadataHash(
+  url: string | null,
+  expectedHash: string | null
+): Promise<MetadataHashStatus> {
+  if (!url || !expectedHash) return 'none';
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), STAKING_CONFIG.METADATA_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) return 'unreachable';
+    // Hash the raw bytes; any re-encoding of the JSON would change the hash
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytesToHex(blake2b(bytes, 32)) === expectedHash.toLowerCase() ? 'valid' : 'mismatch';
+  } catch {
+    return 'unreachable';
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Get a pool's registration details, certificates, relays and full history.
+ * Only the pool itself is required; other sections are null if they fail.
+ */
+export async function getPoolProfile(poolId: string): Promise<PoolProfile> {
+  const [poolResult, metadataResult, relaysResult, certificatesResult, historyResult] =
+    await Promise.allSettled([
+      fetchBlockfrost<BlockfrostPoolResponse>(`/pools/${poolId}`),
+      fetchBlockfrost<BlockfrostPoolMetadataResponse>(`/pools/${poolId}/metadata`),
+      fetchBlockfrost<BlockfrostPoolRelay[]>(`/pools/${poolId}/relays`, {
+        cacheTtlMs: STAKING_CONFIG.POOL_PROFILE_CACHE_TTL_MS,
+      }),
+      getPoolCertificates(poolId),
+      getPoolHistory(poolId),
+    ]);
+
+  if (poolResult.status === 'rejected') {
+    throw new Error(`Failed to fetch pool ${poolId}: ${poolResult.reason}`);
+  }
+  const pool = poolResult.value;
+
+  const metadata = metadataResult.status === 'fulfilled' ? metadataResult.value : null;
+  const metadataUrl = metadata?.url ?? null;
+  const metadataHash = metadata?.hash ?? null;
+  // Blockfrost 404s for pools that never registered metadata
+  const metadataHashStatus =
+    metadataResult.status === 'rejected'
+      ? isNotFoundError(metadataResult.reason)
+        ? 'none'
+        : 'unreachable'
+      : await verifyPoolMetadataHash(metadataUrl, metadataHash);
+
+  return {
+    poolId,
+    vrfKey: pool.vrf_key,
+    rewardAccount: pool.reward_account,
+    owners: pool.owners,
+    relays: relaysResult.status === 'fulfilled' ? relaysResult.value.map(toPoolRelay) : null,
+    certificates: certificatesResult.status === 'fulfilled' ? certificatesResult.value : null,
+    history: historyResult.status === 'fulfilled' ? historyResult.value.history : null,
+    isHistoryTruncated:
+      historyResult.status === 'fulfilled' ? historyResult.value.isTruncated : false,
+    metadataUrl,
+    metadataHash,
+    metadataHashStatus,
   };
 }
 
@@ -163,12 +404,75 @@ export async function getCurrentEpoch(): Promise<number> {
   return epoch.epoch;
 }
 
+/**
+ * Get protocol parameters and network totals for reward projections.
+ * Fees and block production come from the last completed epoch.
+ */
+export async function getRewardParameters(): Promise<RewardParameters> {
+  const options = { cacheTtlMs: STAKING_CONFIG.REWARD_PARAMETERS_CACHE_TTL_MS };
+  const latest = await fetchBlockfrost<BlockfrostEpochSummary>('/epochs/latest', options);
+
+  const [previous, protocol, network, genesis] = await Promise.all([
+    fetchBlockfrost<BlockfrostEpochSummary>(`/epochs/${latest.epoch - 1}`, options),
+    fetchBlockfrost<BlockfrostProtocolParameters>('/epochs/latest/parameters', options),
+    fetchBlockfrost<BlockfrostNetworkResponse>('/network', options),
+    fetchBlockfrost<BlockfrostGenesisResponse>('/genesis', options),
+  ]);
+
+  const blocksPerEpoch = genesis.epoch_length * genesis.active_slots_coefficient;
+
+  return {
+    epoch: protocol.epoch,
+    nOpt: protocol.n_opt,
+    a0: protocol.a0,
+    rho: protocol.rho,
+    tau: protocol.tau,
+    reserves: network.supply.reserves,
+    totalSupply: network.supply.total,
+    activeStake: network.stake.active,
+    fees: previous.fees,
+    eta: blocksPerEpoch > 0 ? Math.min(previous.block_count / blocksPerEpoch, 1) : 1,
+    blocksPerEpoch,
+  };
+}
+
+/**
+ * Blocks a pool made over recent epochs relative to the blocks its active
+ * stake should have made. Null when too few blocks were expected to tell
+ * bad performance from bad luck.
+ */
+export async function getPoolPerformance(
+  poolId: string,
+  blocksPerEpoch: number
+): Promise<number | null> {
+  const history = await fetchBlockfrost<BlockfrostPoolHistoryItem[]>(
+    `/pools/${poolId}/history?count=${STAKING_CONFIG.RECENT_EPOCHS_FOR_ROA}&order=desc`
+  );
+
+  let blocks = 0;
+  let expectedBlocks = 0;
+  for (const epoch of history) {
+    blocks += epoch.blocks;
+    // active_size is the pool's share of the epoch's active stake
+    expectedBlocks += epoch.active_size * blocksPerEpoch;
+  }
+
+  if (expectedBlocks < STAKING_CONFIG.MIN_EXPECTED_BLOCKS_FOR_PERFORMANCE) return null;
+  return blocks / expectedBlocks;
+}
+
 /**
  * Barrel export for staking API functions.
  */
 export const stakingApi = {
   getUserDelegation,
   getPoolDetails,
+  getPoolList,
+  getPoolsROA,
+  getPoolHistory,
+  getPoolProfile,
   getRewardHistory,
   getCurrentEpoch,
+  getRewardParameters,
+  getPoolPerformance,
 };
@@ -26,6 +26,18 @@ export const STAKING_CONFIG = {
   EPOCHS_WITHOUT_BLOCKS_WARNING: 5,
   /** Margin increase threshold for warning (1% = 0.01) */
   MARGIN_INCREASE_WARNING: 0.01,
+  /** Epochs of pool snapshots kept; changes are reported against the oldest */
+  POOL_SNAPSHOT_EPOCHS: 10,
+  /** Pools whose snapshots are kept; those not seen for longest are dropped */
+  MAX_SNAPSHOT_POOLS: 50,
+
+  // Reward projection
+  /** Pools expected to make fewer blocks than this over the ROA window are assumed to perform perfectly */
+  MIN_EXPECTED_BLOCKS_FOR_PERFORMANCE: 10,
+  /** Reward ranges span this percentile to its complement */
+  LUCK_RANGE_PERCENTILE: 0.1,
+  /** Normal z-score of LUCK_RANGE_PERCENTILE's complement, for yearly ranges */
+  LUCK_RANGE_Z: 1.2816,
 
   // Recommendation criteria
   /** Minimum ROA improvement to recommend switching (percentage points) */
@@ -54,12 +66,26 @@ export const STAKING_CONFIG = {
   POOL_LIST_CACHE_TTL_MS: 5 * 60 * 1000,
   /** Pool details cache duration (1 minute) */
   POOL_DETAILS_CACHE_TTL_MS: 60 * 1000,
+  /** Explorer ROA cache duration (1 hour); history only changes once per epoch */
+  POOL_ROA_CACHE_TTL_MS: 60 * 60 * 1000,
+  /** Pool profile cache duration (1 hour); history only changes once per epoch */
+  POOL_PROFILE_CACHE_TTL_MS: 60 * 60 * 1000,
+  /** Reward parameter cache duration (1 hour); protocol parameters change once per epoch */
+  REWARD_PARAMETERS_CACHE_TTL_MS: 60 * 60 * 1000,
+  /** Timeout when fetching off-chain pool metadata to verify its hash */
+  METADATA_FETCH_TIMEOUT_MS: 10_000,
 
   // API pagination
   /** Maximum pages to fetch when paginating pools */
   MAX_POOL_PAGES: 10,
   /** Pools per page from Blockfrost */
   POOLS_PER_PAGE: 100,
+  /** Pool histories fetched in parallel when loading explorer ROA */
+  ROA_BATCH_SIZE: 10,
+  /** Maximum pages to fetch when loading a pool's full history */
+  MAX_POOL_HISTORY_PAGES: 10,
+  /** Epochs per page from Blockfrost */
+  POOL_HISTORY_PAGE_SIZE: 100,
 } as const;
 
 import type { RecommendationReason, PoolAlertType } from './types';
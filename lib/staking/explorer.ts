@@ -0,0 +1,162 @@
+/**
+ * Pool explorer search, filtering and sorting.
+ * Works on the pool list plus ROA values loaded separately; pools whose ROA
+ * is not loaded fail ROA filters and sort last.
+ */
+
+import type { PoolFilter, PoolSortKey, PoolSummary } from './types';
+
+export const POOL_SORT_LABELS: Record<PoolSortKey, string> = {
+  stake: 'Stake',
+  saturation: 'Saturation',
+  margin: 'Margin',
+  fixed_cost: 'Fixed Cost',
+  pledge: 'Pledge',
+  roa: 'ROA',
+  blocks: 'Blocks',
+};
+
+/** Direction each sort starts in: the usually preferred end first */
+export const POOL_SORT_DEFAULT_DESCENDING: Record<PoolSortKey, boolean> = {
+  stake: true,
+  saturation: false,
+  margin: false,
+  fixed_cost: false,
+  pledge: true,
+  roa: true,
+  blocks: true,
+};
+
+export const DEFAULT_POOL_FILTER: PoolFilter = {
+  search: '',
+  maxSaturation: null,
+  maxMargin: null,
+  maxFixedCost: null,
+  minPledge: null,
+  minRoa: null,
+  minBlocks: null,
+  includeRetiring: false,
+};
+
+/** Threshold choices offered per filter; null means any */
+export const POOL_FILTER_PRESETS = {
+  maxSaturation: [
+    { label: 'ANY', value: null },
+    { label: '≤60%', value: 60 },
+    { label: '≤85%', value: 85 },
+  ],
+  maxMargin: [
+    { label: 'ANY', value: null },
+    { label: '≤1%', value: 0.01 },
+    { label: '≤3%', value: 0.03 },
+  ],
+  maxFixedCost: [
+    { label: 'ANY', value: null },
+    { label: '≤170', value: '170000000' },
+    { label: '≤340', value: '340000000' },
+  ],
+  minPledge: [
+    { label: 'ANY', value: null },
+    { label: '≥100K', value: '100000000000' },
+    { label: '≥1M', value: '1000000000000' },
+  ],
+  minRoa: [
+    { label: 'ANY', value: null },
+    { label: '≥2.5%', value: 2.5 },
+    { label: '≥3%', value: 3 },
+  ],
+  minBlocks: [
+    { label: 'ANY', value: null },
+    { label: '≥100', value: 100 },
+    { label: '≥1000', value: 1000 },
+  ],
+} as const satisfies {
+  [K in keyof Omit<PoolFilter, 'search' | 'includeRetiring'>]: readonly {
+    label: string;
+    value: PoolFilter[K];
+  }[];
+};
+
+/**
+ * Whether the filter or sort needs pool ROA values.
+ */
+export function needsPoolROA(filter: PoolFilter, sortKey: PoolSortKey): boolean {
+  return sortKey === 'roa' || filter.minRoa !== null;
+}
+
+function matchesSearch(pool: PoolSummary, query: string): boolean {
+  return (
+    pool.poolId.toLowerCase().includes(query) ||
+    !!pool.ticker?.toLowerCase().includes(query) ||
+    !!pool.name?.toLowerCase().includes(query)
+  );
+}
+
+export function filterPools(
+  pools: PoolSummary[],
+  filter: PoolFilter,
+  roaByPool: Record<string, number | null>
+): PoolSummary[] {
+  const query = filter.search.trim().toLowerCase();
+
+  return pools.filter((pool) => {
+    if (!filter.includeRetiring && pool.retiring) return false;
+    if (filter.maxSaturation !== null && pool.saturation > filter.maxSaturation) return false;
+    if (filter.maxMargin !== null && pool.margin > filter.maxMargin) return false;
+    if (filter.maxFixedCost !== null && BigInt(pool.fixedCost) > BigInt(filter.maxFixedCost)) {
+      return false;
+    }
+    if (filter.minPledge !== null && BigInt(pool.pledge) < BigInt(filter.minPledge)) {
+      return false;
+    }
+    if (filter.minBlocks !== null && pool.lifetimeBlocks < filter.minBlocks) return false;
+    if (filter.minRoa !== null) {
+      const roa = roaByPool[pool.poolId];
+      if (roa === undefined || roa === null || roa < filter.minRoa) return false;
+    }
+    return query === '' || matchesSearch(pool, query);
+  });
+}
+
+/** Compare lovelace strings without converting to Number */
+function compareLovelace(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+}
+
+export function sortPools(
+  pools: PoolSummary[],
+  sortKey: PoolSortKey,
+  descending: boolean,
+  roaByPool: Record<string, number | null>
+): PoolSummary[] {
+  const direction = descending ? -1 : 1;
+
+  const compare = (a: PoolSummary, b: PoolSummary): number => {
+    switch (sortKey) {
+      case 'stake':
+        return compareLovelace(a.liveStake, b.liveStake);
+      case 'saturation':
+        return a.saturation - b.saturation;
+      case 'margin':
+        return a.margin - b.margin;
+      case 'fixed_cost':
+        return compareLovelace(a.fixedCost, b.fixedCost);
+      case 'pledge':
+        return compareLovelace(a.pledge, b.pledge);
+      case 'blocks':
+        return a.lifetimeBlocks - b.lifetimeBlocks;
+      case 'roa':
+        return (roaByPool[a.poolId] ?? 0) - (roaByPool[b.poolId] ?? 0);
+    }
+  };
+
+  const hasValue = (pool: PoolSummary) =>
+    sortKey !== 'roa' || typeof roaByPool[pool.poolId] === 'number';
+
+  return [...pools].sort((a, b) => {
+    // Pools without a loaded ROA go last in either direction
+    if (hasValue(a) !== hasValue(b)) return hasValue(a) ? -1 : 1;
+    return compare(a, b) * direction;
+  });
+}
@@ -4,3 +4,5 @@ export * from './api';
 export * from './recommendations';
 export * from './utils';
 export * from './alerts';
+export * from './explorer';
+export * from './projection';
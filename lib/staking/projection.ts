@@ -0,0 +1,174 @@
+/**
+ * Reward projection.
+ * Models a delegator's rewards with the Shelley reward formula, using the
+ * current protocol parameters and the pool's pledge, fees and performance.
+ */
+
+import { lovelaceToAda } from '../utils/lovelace';
+import { STAKING_CONFIG } from './constants';
+import type {
+  PoolInfo,
+  RewardParameters,
+  RewardProjection,
+  RewardRange,
+  RewardComparison,
+} from './types';
+
+/**
+ * Rewards paid to all pools in an epoch, in ADA: monetary expansion scaled
+ * by block production, plus fees, less the treasury cut.
+ */
+export function getEpochRewardPot(params: RewardParameters): number {
+  const expansion = lovelaceToAda(params.reserves) * params.rho * params.eta;
+  return (expansion + lovelaceToAda(params.fees)) * (1 - params.tau);
+}
+
+/**
+ * Epoch reward in ADA for a pool that makes every block it is expected to.
+ * Stake and pledge count up to the saturation point (1/k of the supply).
+ */
+function getOptimalPoolReward(
+  params: RewardParameters,
+  poolStake: number,
+  pledge: number
+): number {
+  const supply = lovelaceToAda(params.totalSupply);
+  const z0 = 1 / params.nOpt;
+  const sigma = Math.min(poolStake / supply, z0);
+  const s = Math.min(pledge / supply, z0);
+  const pledgeBonus = (s * params.a0 * (sigma - (s * (z0 - sigma)) / z0)) / z0;
+  return (getEpochRewardPot(params) / (1 + params.a0)) * (sigma + pledgeBonus);
+}
+
+interface EpochRewardDistribution {
+  mean: number;
+  standardDeviation: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Distribution of one epoch's member reward over the Poisson-distributed
+ * number of blocks the pool makes. Summed exactly rather than taken at the
+ * mean block count: the fixed cost comes out of each epoch, so a small pool
+ * that averages half a block still pays out in the epochs it makes one.
+ */
+function getEpochRewardDistribution(
+  meanBlocks: number,
+  rewardForBlocks: (blocks: number) => number
+): EpochRewardDistribution {
+  const p = STAKING_CONFIG.LUCK_RANGE_PERCENTILE;
+  // Far enough into the tail that the remaining probability is negligible
+  const maxBlocks = Math.ceil(meanBlocks + 10 * Math.sqrt(meanBlocks) + 10);
+
+  let logPmf = -meanBlocks;
+  let cdf = 0;
+  let mean = 0;
+  let meanSquare = 0;
+  let low: number | null = null;
+  let high: number | null = null;
+
+  for (let blocks = 0; blocks <= maxBlocks; blocks++) {
+    // Log space keeps e^-mean from underflowing for large pools
+    if (blocks > 0) logPmf += Math.log(meanBlocks / blocks);
+    const probability = Math.exp(logPmf);
+    const reward = rewardForBlocks(blocks);
+
+    mean += probability * reward;
+    meanSquare += probability * reward * reward;
+    cdf += probability;
+    // Rewards never decrease with blocks, so block percentiles are reward percentiles
+    if (low === null && cdf >= p) low = reward;
+    if (high === null && cdf >= 1 - p) high = reward;
+  }
+
+  return {
+    mean,
+    standardDeviation: Math.sqrt(Math.max(meanSquare - mean * mean, 0)),
+    low: low ?? 0,
+    high: high ?? rewardForBlocks(maxBlocks),
+  };
+}
+
+/**
+ * Project rewards for delegating a stake amount to a pool.
+ *
+ * @param params - Current reward parameters
+ * @param pool - Pool to delegate to
+ * @param stake - Stake to delegate in ADA
+ * @param performance - Recent blocks made relative to expected, null to assume perfect
+ * @param existingStake - ADA of this wallet already in the pool's live stake
+ */
+export function projectRewards(
+  params: RewardParameters,
+  pool: PoolInfo,
+  stake: number,
+  performance: number | null,
+  existingStake: number = 0
+): RewardProjection {
+  const poolStake = Math.max(lovelaceToAda(pool.liveStake) - existingStake, 0) + stake;
+  const pledgeMet = BigInt(pool.livePledge || '0') >= BigInt(pool.pledge || '0');
+  // Making more blocks than expected is luck, not something to project
+  const cappedPerformance = performance === null ? null : Math.min(performance, 1);
+
+  const activeStake = lovelaceToAda(params.activeStake);
+  const perfectBlocks = activeStake > 0 ? (poolStake / activeStake) * params.blocksPerEpoch : 0;
+  const expectedBlocks = perfectBlocks * (cappedPerformance ?? 1);
+  const optimalReward = pledgeMet
+    ? getOptimalPoolReward(params, poolStake, lovelaceToAda(pool.pledge))
+    : 0;
+  const fixedCost = lovelaceToAda(pool.fixedCost);
+
+  // The pool reward scales with blocks made; the operator takes the fixed
+  // cost and then the margin before the rest is split by stake
+  const memberReward = (blocks: number): number => {
+    if (stake <= 0 || perfectBlocks <= 0) return 0;
+    const poolReward = optimalReward * (blocks / perfectBlocks);
+    return Math.max(poolReward - fixedCost, 0) * (1 - pool.margin) * (stake / poolStake);
+  };
+
+  const epochs = STAKING_CONFIG.EPOCHS_PER_YEAR;
+  const epoch = getEpochRewardDistribution(expectedBlocks, memberReward);
+  // A year sums independent epochs, so its range follows the normal approximation
+  const yearMean = epoch.mean * epochs;
+  const yearSpread = STAKING_CONFIG.LUCK_RANGE_Z * epoch.standardDeviation * Math.sqrt(epochs);
+
+  const perEpoch: RewardRange = {
+    low: epoch.low,
+    expected: epoch.mean,
+    high: epoch.high,
+  };
+  const perYear: RewardRange = {
+    low: Math.max(yearMean - yearSpread, 0),
+    expected: yearMean,
+    high: yearMean + yearSpread,
+  };
+
+  return {
+    poolId: pool.poolId,
+    stake,
+    perEpoch,
+    perYear,
+    annualYield: stake > 0 ? (perYear.expected / stake) * 100 : 0,
+    expectedBlocks,
+    performance: cappedPerformance,
+    pledgeMet,
+  };
+}
+
+/**
+ * Compare projections at other pools against the current pool's, largest
+ * gain in expected ADA per year first.
+ */
+export function compareRewardProjections(
+  current: RewardProjection | null,
+  alternatives: { pool: PoolInfo; projection: RewardProjection }[]
+): RewardComparison[] {
+  return alternatives
+    .map(({ pool, projection }) => ({
+      pool,
+      projection,
+      changePerYear: current ? projection.perYear.expected - current.perYear.expected : null,
+    }))
+    .sort((a, b) => b.projection.perYear.expected - a.projection.perYear.expected);
+}
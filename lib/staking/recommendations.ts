@@ -3,28 +3,15 @@
  * Analyzes pools and suggests alternatives based on ROA, saturation, and fees.
  */
 
-import { fetchBlockfrost } from '../api/blockfrost';
+import { fetchBlockfrost } from '../api/blockfrost-client';
 import { STAKING_CONFIG, RECOMMENDATION_REASON_LABELS } from './constants';
 import { getPoolDetails } from './api';
-import type { PoolInfo, PoolRecommendation, RecommendationReason } from './types';
-
-/**
- * Blockfrost pool list item (extended info endpoint).
- */
-interface BlockfrostPoolExtended {
-  pool_id: string;
-  hex: string;
-  active_stake: string;
-  live_stake: string;
-  live_saturation: number;
-  live_delegators: number;
-  blocks_minted: number;
-  blocks_epoch: number;
-  margin_cost: number;
-  fixed_cost: string;
-  declared_pledge: string;
-  retirement: string[] | null;
-}
+import type {
+  BlockfrostPoolExtended,
+  PoolInfo,
+  PoolRecommendation,
+  RecommendationReason,
+} from './types';
 
 /**
  * Fetch top pools by stake, pre-filtered for active pools.
@@ -20,6 +20,8 @@ export interface PoolInfo {
   fixedCost: string;
   /** Pool pledge in lovelace */
   pledge: string;
+  /** Stake the owners currently hold in lovelace; below pledge means no rewards */
+  livePledge: string;
   /** Current live stake in lovelace */
   liveStake: string;
   /** Total blocks minted over pool lifetime */
@@ -34,6 +36,141 @@ export interface PoolInfo {
   retireEpoch: number | null;
   /** Whether pool history was successfully fetched (false = ROA data unavailable) */
   isHistoryComplete: boolean;
+  /** Latest epoch in the pool's history, null if history was unavailable */
+  latestEpoch: number | null;
+  /**
+   * Blocks minted over the last EPOCHS_WITHOUT_BLOCKS_WARNING epochs, null if
+   * history was unavailable or shorter than that
+   */
+  recentBlocks: number | null;
+}
+
+/**
+ * Pool list entry for the explorer. ROA needs each pool's history, so it is
+ * loaded separately (see getPoolsROA).
+ */
+export interface PoolSummary {
+  poolId: string;
+  /** Null when the pool has no registered metadata */
+  ticker: string | null;
+  name: string | null;
+  /** Saturation percentage (0-100+) */
+  saturation: number;
+  /** Pool margin as decimal (e.g., 0.02 = 2%) */
+  margin: number;
+  /** Fixed cost per epoch in lovelace */
+  fixedCost: string;
+  /** Declared pledge in lovelace */
+  pledge: string;
+  /** Current live stake in lovelace */
+  liveStake: string;
+  lifetimeBlocks: number;
+  retiring: boolean;
+}
+
+/**
+ * Result of paging through the pool list.
+ */
+export interface PoolListResult {
+  pools: PoolSummary[];
+  /** True when MAX_POOL_PAGES was reached before the last page */
+  isTruncated: boolean;
+}
+
+/**
+ * Fields the pool explorer can sort by.
+ */
+export type PoolSortKey =
+  | 'stake'
+  | 'saturation'
+  | 'margin'
+  | 'fixed_cost'
+  | 'pledge'
+  | 'roa'
+  | 'blocks';
+
+/**
+ * Pool explorer filters. Null thresholds are not applied.
+ */
+export interface PoolFilter {
+  /** Matched against ticker, name and pool ID */
+  search: string;
+  /** Maximum saturation percentage */
+  maxSaturation: number | null;
+  /** Maximum margin as decimal */
+  maxMargin: number | null;
+  /** Maximum fixed cost in lovelace */
+  maxFixedCost: string | null;
+  /** Minimum declared pledge in lovelace */
+  minPledge: string | null;
+  /** Minimum ROA percentage */
+  minRoa: number | null;
+  minBlocks: number | null;
+  includeRetiring: boolean;
+}
+
+/**
+ * One epoch of a pool's history.
+ */
+export interface PoolEpochStats {
+  epoch: number;
+  blocks: number;
+  /** Active stake in lovelace */
+  activeStake: string;
+  delegators: number;
+  /** ROA for this epoch alone, annualized, as percentage */
+  roa: number;
+}
+
+/**
+ * Pool relay; address is a DNS name, SRV name or IP address.
+ */
+export interface PoolRelay {
+  address: string;
+  /** Null for SRV relays, which resolve their own ports */
+  port: number | null;
+}
+
+/**
+ * Pool registration or retirement certificate.
+ */
+export interface PoolCertificate {
+  txHash: string;
+  certIndex: number;
+  action: 'registered' | 'deregistered';
+  /** Unix seconds of the certificate's block, null if it could not be loaded */
+  blockTime: number | null;
+}
+
+/**
+ * Result of checking off-chain pool metadata against its on-chain hash.
+ * - valid: the file at the URL hashes to the registered hash
+ * - mismatch: the file was fetched but its hash differs
+ * - unreachable: the file could not be fetched
+ * - none: the pool registered no metadata
+ */
+export type MetadataHashStatus = 'valid' | 'mismatch' | 'unreachable' | 'none';
+
+/**
+ * Registration details and full history for the pool detail screen.
+ * Sections that failed to load are null.
+ */
+export interface PoolProfile {
+  poolId: string;
+  vrfKey: string;
+  rewardAccount: string;
+  /** Owner stake addresses */
+  owners: string[];
+  relays: PoolRelay[] | null;
+  /** Oldest first */
+  certificates: PoolCertificate[] | null;
+  /** Oldest epoch first */
+  history: PoolEpochStats[] | null;
+  /** True when MAX_POOL_HISTORY_PAGES was reached before the pool's first epoch */
+  isHistoryTruncated: boolean;
+  metadataUrl: string | null;
+  metadataHash: string | null;
+  metadataHashStatus: MetadataHashStatus;
 }
 
 /**
@@ -82,6 +219,73 @@ export interface PoolRecommendation {
   improvementVsCurrent: number;
 }
 
+/**
+ * Protocol parameters and network totals used to model epoch rewards.
+ */
+export interface RewardParameters {
+  /** Epoch the protocol parameters were read from */
+  epoch: number;
+  /** Target number of pools (k); stake above 1/k of supply is saturated */
+  nOpt: number;
+  /** Pledge influence factor */
+  a0: number;
+  /** Share of reserves released as rewards each epoch */
+  rho: number;
+  /** Share of the reward pot sent to the treasury */
+  tau: number;
+  /** Reserves in lovelace */
+  reserves: string;
+  /** Max supply less reserves, in lovelace */
+  totalSupply: string;
+  /** Total active stake in lovelace */
+  activeStake: string;
+  /** Fees of the last completed epoch in lovelace */
+  fees: string;
+  /** Blocks made in the last completed epoch relative to blocksPerEpoch, at most 1 */
+  eta: number;
+  /** Expected blocks per epoch (epoch length × active slot coefficient) */
+  blocksPerEpoch: number;
+}
+
+/**
+ * Rewards in ADA at the low and high luck percentiles and the expected value.
+ */
+export interface RewardRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+/**
+ * Modeled rewards for a stake amount delegated to a pool.
+ */
+export interface RewardProjection {
+  poolId: string;
+  /** Delegated stake in ADA */
+  stake: number;
+  perEpoch: RewardRange;
+  /** Over EPOCHS_PER_YEAR epochs, where luck evens out more than in one */
+  perYear: RewardRange;
+  /** Expected annual yield as percentage */
+  annualYield: number;
+  /** Expected blocks per epoch, including the delegated stake */
+  expectedBlocks: number;
+  /** Recent blocks made relative to expected, at most 1; null when assumed perfect */
+  performance: number | null;
+  /** False when the owners hold less than the declared pledge, so the pool earns nothing */
+  pledgeMet: boolean;
+}
+
+/**
+ * Projected rewards at a recommended pool against the current pool.
+ */
+export interface RewardComparison {
+  pool: PoolInfo;
+  projection: RewardProjection;
+  /** Change in expected ADA per year vs the current pool, null when not delegating */
+  changePerYear: number | null;
+}
+
 /**
  * Types of alerts that can be raised about a user's current pool.
  */
@@ -98,6 +302,20 @@ export type PoolAlertType =
  */
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 
+/**
+ * Pool parameters recorded once per epoch, diffed against later epochs to
+ * detect fee increases, pledge cuts and stalled block production.
+ */
+export interface PoolSnapshot {
+  epoch: number;
+  margin: number;
+  /** Fixed cost per epoch in lovelace */
+  fixedCost: string;
+  /** Declared pledge in lovelace */
+  pledge: string;
+  lifetimeBlocks: number;
+}
+
 /**
  * Pool health alert for user notification.
  */
@@ -108,6 +326,19 @@ export interface PoolAlert {
   poolId: string;
 }
 
+/**
+ * Push notification content for a pool alert found in the background.
+ */
+export interface PoolAlertNotification {
+  title: string;
+  body: string;
+  data: {
+    type: 'pool_alert';
+    poolId: string;
+    alertType: PoolAlertType;
+  };
+}
+
 /**
  * Blockfrost pool response shape.
  */
@@ -133,6 +364,33 @@ export interface BlockfrostPoolResponse {
   retirement: string[];
 }
 
+/**
+ * Blockfrost pool list item (extended info endpoint).
+ */
+export interface BlockfrostPoolExtended {
+  pool_id: string;
+  hex: string;
+  active_stake: string;
+  live_stake: string;
+  live_saturation: number;
+  live_delegators: number;
+  blocks_minted: number;
+  blocks_epoch: number;
+  margin_cost: number;
+  fixed_cost: string;
+  declared_pledge: string;
+  retirement: string[] | null;
+  /** Registered metadata, null when the pool has none */
+  metadata?: {
+    url: string | null;
+    hash: string | null;
+    ticker: string | null;
+    name: string | null;
+    description: string | null;
+    homepage: string | null;
+  } | null;
+}
+
 /**
  * Blockfrost pool metadata response shape.
  */
@@ -160,6 +418,80 @@ export interface BlockfrostPoolHistoryItem {
   fees: string;
 }
 
+/**
+ * Blockfrost pool relay item.
+ */
+export interface BlockfrostPoolRelay {
+  ipv4: string | null;
+  ipv6: string | null;
+  dns: string | null;
+  dns_srv: string | null;
+  port: number;
+}
+
+/**
+ * Blockfrost pool certificate update item.
+ */
+export interface BlockfrostPoolUpdate {
+  tx_hash: string;
+  cert_index: number;
+  action: 'registered' | 'deregistered';
+}
+
+/**
+ * Fields of a Blockfrost transaction used to date pool certificates.
+ */
+export interface BlockfrostTxSummary {
+  hash: string;
+  block_height: number;
+  block_time: number;
+}
+
+/**
+ * Fields of a Blockfrost epoch used for reward projections.
+ */
+export interface BlockfrostEpochSummary {
+  epoch: number;
+  block_count: number;
+  /** Lovelace */
+  fees: string;
+}
+
+/**
+ * Reward-related fields of Blockfrost protocol parameters.
+ */
+export interface BlockfrostProtocolParameters {
+  epoch: number;
+  n_opt: number;
+  a0: number;
+  rho: number;
+  tau: number;
+}
+
+/**
+ * Blockfrost network supply and stake totals, in lovelace.
+ */
+export interface BlockfrostNetworkResponse {
+  supply: {
+    max: string;
+    total: string;
+    circulating: string;
+    reserves: string;
+  };
+  stake: {
+    live: string;
+    active: string;
+  };
+}
+
+/**
+ * Fields of the Blockfrost genesis parameters used to count blocks per epoch.
+ */
+export interface BlockfrostGenesisResponse {
+  active_slots_coefficient: number;
+  epoch_length: number;
+}
+
 /**
  * Blockfrost account rewards item.
  */
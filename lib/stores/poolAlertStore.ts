@@ -0,0 +1,62 @@
+/**
+ * Pool Alert Store
+ *
+ * Tracks which pool alerts have already been sent as notifications, so the
+ * background check notifies once per pool and alert type rather than every
+ * run. Uses Zustand with AsyncStorage persistence.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import type { CardanoNetwork } from '../cardano/network';
+import type { PoolAlertType } from '../staking/types';
+
+interface PoolAlertState {
+  /** Notified alerts as `${network}:${poolId}:${alertType}` keys */
+  notifiedAlerts: string[];
+
+  /** Last background pool check timestamp */
+  lastPoolCheck: number | null;
+
+  /**
+   * Replace a network's notified alerts. Alerts left out (resolved, or for
+   * a pool no longer delegated to) notify again if they come back.
+   */
+  setNotifiedAlerts: (network: CardanoNetwork, keys: string[]) => void;
+
+  /** Update last background pool check time */
+  setLastPoolCheck: (timestamp: number) => void;
+}
+
+export function getPoolAlertKey(
+  network: CardanoNetwork,
+  poolId: string,
+  alertType: PoolAlertType
+): string {
+  return `${network}:${poolId}:${alertType}`;
+}
+
+export const usePoolAlertStore = create<PoolAlertState>()(
+  persist(
+    (set) => ({
+      notifiedAlerts: [],
+      lastPoolCheck: null,
+
+      setNotifiedAlerts: (network, keys) =>
+        set((state) => ({
+          notifiedAlerts: [
+            ...state.notifiedAlerts.filter((key) => !key.startsWith(`${network}:`)),
+            ...keys,
+          ],
+        })),
+
+      setLastPoolCheck: (timestamp) => set({ lastPoolCheck: timestamp }),
+    }),
+    {
+      name: STORAGE_KEYS.POOL_ALERTS,
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
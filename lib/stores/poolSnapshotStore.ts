@@ -0,0 +1,60 @@
+/**
+ * Pool Snapshot Store
+ *
+ * Persists one snapshot of each watched pool's parameters per epoch, so pool
+ * alerts can report changes since earlier epochs.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import { STAKING_CONFIG } from '../staking/constants';
+import type { PoolSnapshot } from '../staking/types';
+import type { CardanoNetwork } from '../cardano/network';
+
+interface PoolSnapshotState {
+  /** Snapshots keyed by `${network}:${poolId}`, ascending by epoch */
+  snapshots: Record<string, PoolSnapshot[]>;
+
+  /** Record a snapshot; the first one seen in each epoch is kept */
+  recordSnapshot: (network: CardanoNetwork, poolId: string, snapshot: PoolSnapshot) => void;
+}
+
+export function getPoolSnapshotKey(network: CardanoNetwork, poolId: string): string {
+  return `${network}:${poolId}`;
+}
+
+export const usePoolSnapshotStore = create<PoolSnapshotState>()(
+  persist(
+    (set) => ({
+      snapshots: {},
+
+      recordSnapshot: (network, poolId, snapshot) =>
+        set((state) => {
+          const key = getPoolSnapshotKey(network, poolId);
+          const existing = state.snapshots[key] ?? [];
+          // Pool queries refetch often; avoid rewriting storage within an epoch
+          if (existing.some((s) => s.epoch === snapshot.epoch)) return state;
+
+          const oldestKept = snapshot.epoch - STAKING_CONFIG.POOL_SNAPSHOT_EPOCHS;
+          const poolSnapshots = [...existing, snapshot]
+            .filter((s) => s.epoch > oldestKept)
+            .sort((a, b) => a.epoch - b.epoch);
+
+          const snapshots = { ...state.snapshots, [key]: poolSnapshots };
+          // Keep storage bounded by dropping the pools with the oldest latest snapshot
+          const latestEpoch = (k: string) => snapshots[k][snapshots[k].length - 1].epoch;
+          const keys = Object.keys(snapshots).sort((a, b) => latestEpoch(b) - latestEpoch(a));
+          for (const staleKey of keys.slice(STAKING_CONFIG.MAX_SNAPSHOT_POOLS)) {
+            delete snapshots[staleKey];
+          }
+          return { snapshots };
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.POOL_SNAPSHOTS,
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,69 @@
+/**
+ * Portfolio History Store
+ *
+ * Persists reconstructed daily balance snapshots per wallet, and the ADA
+ * fiat price observed each day so history can be valued in fiat.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import type { AdaPrices } from '../defi/aggregator-api';
+import type { DailySnapshot } from '../utils/portfolio-history';
+
+/** Maximum days of recorded prices to keep (~5 years) */
+const MAX_PRICE_DAYS = 5 * 365;
+
+export interface WalletHistory {
+  /** Sparse end-of-day balances, ascending by date */
+  snapshots: DailySnapshot[];
+  /** When the history was last rebuilt (ms) */
+  syncedAt: number;
+}
+
+interface PortfolioHistoryState {
+  /** Histories keyed by `${network}:${walletIdentifier}` */
+  histories: Record<string, WalletHistory>;
+
+  /** ADA fiat prices by UTC date (YYYY-MM-DD) */
+  dailyPrices: Record<string, AdaPrices>;
+
+  /** Replace a wallet's history */
+  setHistory: (walletKey: string, snapshots: DailySnapshot[]) => void;
+
+  /** Record the ADA price for a date (the first price seen each day is kept) */
+  recordDailyPrice: (date: string, prices: AdaPrices) => void;
+}
+
+export const usePortfolioHistoryStore = create<PortfolioHistoryState>()(
+  persist(
+    (set) => ({
+      histories: {},
+      dailyPrices: {},
+
+      setHistory: (walletKey, snapshots) =>
+        set((state) => ({
+          histories: { ...state.histories, [walletKey]: { snapshots, syncedAt: Date.now() } },
+        })),
+
+      recordDailyPrice: (date, prices) =>
+        set((state) => {
+          // Many components share the price query; avoid rewriting storage on every refetch
+          if (state.dailyPrices[date]) return state;
+
+          const dailyPrices = { ...state.dailyPrices, [date]: prices };
+          const dates = Object.keys(dailyPrices).sort();
+          // Keep storage bounded by dropping the oldest days
+          for (const oldDate of dates.slice(0, Math.max(0, dates.length - MAX_PRICE_DAYS))) {
+            delete dailyPrices[oldDate];
+          }
+          return { dailyPrices };
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.PORTFOLIO_HISTORY,
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,61 @@
+/**
+ * Price History Store
+ *
+ * Persists daily ADA closes per fiat currency, fetched from the price API or
+ * imported from a CSV file, so historical valuations work offline.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import type { AdaPrices } from '../defi/aggregator-api';
+import type { FiatDisplayCurrency } from './settings';
+
+export type FiatCurrency = keyof AdaPrices;
+
+/** Price store currency for each fiat display currency */
+export const FIAT_CURRENCY_KEYS: Record<FiatDisplayCurrency, FiatCurrency> = {
+  USD: 'usd',
+  EUR: 'eur',
+  GBP: 'gbp',
+};
+
+export type PriceSource = 'api' | 'import';
+
+interface PriceHistoryState {
+  /** Daily ADA closes by currency, then UTC date (YYYY-MM-DD) */
+  closes: Record<FiatCurrency, Record<string, number>>;
+
+  /**
+   * Merge closes for a currency.
+   * Imported closes override fetched ones; fetched closes never override imports.
+   */
+  addCloses: (
+    currency: FiatCurrency,
+    closes: Record<string, number>,
+    source: PriceSource
+  ) => void;
+}
+
+const EMPTY_CLOSES: Record<FiatCurrency, Record<string, number>> = { usd: {}, eur: {}, gbp: {} };
+
+export const usePriceHistoryStore = create<PriceHistoryState>()(
+  persist(
+    (set) => ({
+      closes: EMPTY_CLOSES,
+
+      addCloses: (currency, closes, source) =>
+        set((state) => {
+          const existing = state.closes[currency];
+          const merged =
+            source === 'import' ? { ...existing, ...closes } : { ...closes, ...existing };
+          return { closes: { ...state.closes, [currency]: merged } };
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.PRICE_HISTORY,
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -7,10 +7,14 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../constants/storageKeys';
+import { DEFAULT_NETWORK, type CardanoNetwork } from '../cardano/network';
 
 /** Available currency display options */
 export type CurrencyDisplay = 'ADA' | 'USD' | 'EUR' | 'GBP';
 
+/** Display currencies other than ADA */
+export type FiatDisplayCurrency = Exclude<CurrencyDisplay, 'ADA'>;
+
 /** Available refresh interval options in milliseconds */
 export const REFRESH_INTERVALS = {
   '30s': 30_000,
@@ -21,12 +25,23 @@ export const REFRESH_INTERVALS = {
 
 export type RefreshIntervalKey = keyof typeof REFRESH_INTERVALS;
 
+/** Public IPFS gateways for displaying ipfs:// NFT media */
+export const IPFS_GATEWAYS = {
+  'ipfs.io': 'https://ipfs.io/ipfs/',
+  'dweb.link': 'https://dweb.link/ipfs/',
+  'nftstorage.link': 'https://nftstorage.link/ipfs/',
+} as const;
+
+export type IpfsGatewayKey = keyof typeof IPFS_GATEWAYS;
+
 interface SettingsState {
   // Display settings
   /** Whether to show balances in compact format */
   compactBalances: boolean;
   /** Preferred currency display */
   currencyDisplay: CurrencyDisplay;
+  /** Gateway used to load IPFS-hosted images */
+  ipfsGateway: IpfsGatewayKey;
 
   // Game settings
   /** Whether haptic feedback is enabled */
@@ -35,20 +50,26 @@ interface SettingsState {
   // Data settings
   /** Auto-refresh interval for portfolio data */
   refreshInterval: RefreshIntervalKey;
+  /** Cardano network used for all chain queries */
+  network: CardanoNetwork;
 
   // Actions
   toggleCompactBalances: () => void;
   setCurrencyDisplay: (currency: CurrencyDisplay) => void;
+  setIpfsGateway: (gateway: IpfsGatewayKey) => void;
   toggleHapticsEnabled: () => void;
   setRefreshInterval: (interval: RefreshIntervalKey) => void;
+  setNetwork: (network: CardanoNetwork) => void;
   resetToDefaults: () => void;
 }
 
 const DEFAULT_SETTINGS = {
   compactBalances: false,
   currencyDisplay: 'ADA' as CurrencyDisplay,
+  ipfsGateway: 'ipfs.io' as IpfsGatewayKey,
   hapticsEnabled: true,
   refreshInterval: '1m' as RefreshIntervalKey,
+  network: DEFAULT_NETWORK,
 };
 
 export const useSettingsStore = create<SettingsState>()(
@@ -62,12 +83,18 @@ export const useSettingsStore = create<SettingsState>()(
       setCurrencyDisplay: (currency) =>
         set({ currencyDisplay: currency }),
 
+      setIpfsGateway: (gateway) =>
+        set({ ipfsGateway: gateway }),
+
       toggleHapticsEnabled: () =>
         set((state) => ({ hapticsEnabled: !state.hapticsEnabled })),
 
       setRefreshInterval: (interval) =>
         set({ refreshInterval: interval }),
 
+      setNetwork: (network) =>
+        set({ network }),
+
       resetToDefaults: () =>
         set(DEFAULT_SETTINGS),
     }),
@@ -77,3 +104,10 @@ export const useSettingsStore = create<SettingsState>()(
     }
   )
 );
+
+/**
+ * Get the active network outside of React (API clients, background tasks).
+ */
+export function getActiveNetwork(): CardanoNetwork {
+  return useSettingsStore.getState().network;
+}
@@ -2,27 +2,279 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../constants/storageKeys';
+import { cyberpunk } from '../theme/colors';
+import { NETWORKS, type CardanoNetwork } from '../cardano/network';
+import { useSettingsStore } from './settings';
 
-interface WalletState {
+/** Maximum saved wallets per network */
+const MAX_WALLETS_PER_NETWORK = 10;
+
+/** Maximum wallet label length */
+export const WALLET_LABEL_MAX_LENGTH = 24;
+
+/** Colors offered when labelling a wallet, assigned in order by default */
+export const WALLET_COLORS = [
+  cyberpunk.neonCyan,
+  cyberpunk.neonMagenta,
+  cyberpunk.neonYellow,
+  cyberpunk.success,
+  cyberpunk.warning,
+  cyberpunk.electricBlue,
+] as const;
+
+/** Address pair identifying a wallet on-chain */
+export interface NetworkWallet {
   address: string | null;
   stakeAddress: string | null;
-  setAddress: (address: string | null) => void;
-  setStakeAddress: (stakeAddress: string | null) => void;
-  clearWallet: () => void;
+}
+
+/** A wallet saved by the user */
+export interface SavedWallet extends NetworkWallet {
+  id: string;
+  network: CardanoNetwork;
+  label: string;
+  color: string;
+  createdAt: number;
+}
+
+type SelectionByNetwork = Record<CardanoNetwork, string | null>;
+
+const EMPTY_SELECTION: SelectionByNetwork = {
+  mainnet: null,
+  preprod: null,
+  preview: null,
+};
+
+interface WalletState {
+  /** Saved wallets across all networks */
+  wallets: SavedWallet[];
+
+  /** Active wallet ID per network, so switching networks keeps each selection */
+  activeWalletIds: SelectionByNetwork;
+
+  /** Whether the portfolio shows all wallets combined instead of the active one */
+  showAllWallets: boolean;
+
+  /** Save a wallet and make it active. Returns null if the network is full. */
+  addWallet: (
+    network: CardanoNetwork,
+    wallet: NetworkWallet & { label?: string; color?: string }
+  ) => string | null;
+
+  /** Update a wallet's label or color */
+  updateWallet: (walletId: string, changes: Partial<Pick<SavedWallet, 'label' | 'color'>>) => void;
+
+  /** Remove a wallet, selecting another on the same network if it was active */
+  removeWallet: (walletId: string) => void;
+
+  /** Select the active wallet for a network and leave the combined view */
+  setActiveWallet: (network: CardanoNetwork, walletId: string) => void;
+
+  /** Toggle the combined "all wallets" portfolio view */
+  setShowAllWallets: (showAll: boolean) => void;
+}
+
+/** Counter for additional uniqueness in same-millisecond calls */
+let walletIdCounter = 0;
+
+/**
+ * Generate a unique wallet ID.
+ * Uses crypto.randomUUID if available, otherwise timestamp + counter + random.
+ */
+function generateWalletId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    try {
+      return `wallet_${crypto.randomUUID()}`;
+    } catch {
+      // Fall through to fallback
+    }
+  }
+
+  walletIdCounter = (walletIdCounter + 1) % 10000;
+  const timestamp = Date.now().toString(36);
+  const counter = walletIdCounter.toString(36).padStart(3, '0');
+  const random = Math.random().toString(36).substring(2, 8);
+  return `wallet_${timestamp}_${counter}_${random}`;
+}
+
+function walletsForNetwork(wallets: SavedWallet[], network: CardanoNetwork): SavedWallet[] {
+  return wallets.filter((w) => w.network === network);
+}
+
+function createWallet(
+  network: CardanoNetwork,
+  wallet: NetworkWallet,
+  existingCount: number,
+  label?: string,
+  color?: string
+): SavedWallet {
+  return {
+    id: generateWalletId(),
+    network,
+    address: wallet.address,
+    stakeAddress: wallet.stakeAddress,
+    label: label?.trim() || `Wallet ${existingCount + 1}`,
+    color: color ?? WALLET_COLORS[existingCount % WALLET_COLORS.length],
+    createdAt: Date.now(),
+  };
+}
+
+/** Shape persisted before per-network wallets (version 0) */
+interface LegacyWalletStateV0 {
+  address?: string | null;
+  stakeAddress?: string | null;
+}
+
+/** Shape persisted with one wallet per network (version 1) */
+interface LegacyWalletStateV1 {
+  wallets?: Partial<Record<CardanoNetwork, NetworkWallet>>;
+}
+
+/**
+ * Convert a pre-v2 persisted state into the saved-wallet list.
+ * Each connected single wallet becomes the active wallet on its network.
+ */
+function migrateLegacyState(persistedState: unknown, version: number) {
+  const perNetwork: Partial<Record<CardanoNetwork, LegacyWalletStateV0>> =
+    version === 0
+      ? // Single wallet was always a mainnet wallet
+        { mainnet: persistedState as LegacyWalletStateV0 }
+      : ((persistedState ?? {}) as LegacyWalletStateV1).wallets ?? {};
+
+  const wallets: SavedWallet[] = [];
+  const activeWalletIds: SelectionByNetwork = { ...EMPTY_SELECTION };
+
+  for (const network of NETWORKS) {
+    const legacy = perNetwork[network];
+    if (!legacy || !(legacy.address || legacy.stakeAddress)) continue;
+
+    const wallet = createWallet(
+      network,
+      { address: legacy.address ?? null, stakeAddress: legacy.stakeAddress ?? null },
+      0
+    );
+    wallets.push(wallet);
+    activeWalletIds[network] = wallet.id;
+  }
+
+  return { wallets, activeWalletIds, showAllWallets: false };
 }
 
 export const useWalletStore = create<WalletState>()(
   persist(
-    (set) => ({
-      address: null,
-      stakeAddress: null,
-      setAddress: (address) => set({ address }),
-      setStakeAddress: (stakeAddress) => set({ stakeAddress }),
-      clearWallet: () => set({ address: null, stakeAddress: null }),
+    (set, get) => ({
+      wallets: [],
+      activeWalletIds: EMPTY_SELECTION,
+      showAllWallets: false,
+
+      addWallet: (network, { label, color, ...wallet }) => {
+        const { wallets, activeWalletIds } = get();
+        const networkWallets = walletsForNetwork(wallets, network);
+
+        // Reconnecting a saved wallet just selects it
+        const existing = networkWallets.find(
+          (w) => w.address === wallet.address && w.stakeAddress === wallet.stakeAddress
+        );
+        if (existing) {
+          set({
+            activeWalletIds: { ...activeWalletIds, [network]: existing.id },
+            showAllWallets: false,
+          });
+          return existing.id;
+        }
+
+        if (networkWallets.length >= MAX_WALLETS_PER_NETWORK) {
+          return null;
+        }
+
+        const newWallet = createWallet(network, wallet, networkWallets.length, label, color);
+        set({
+          wallets: [...wallets, newWallet],
+          activeWalletIds: { ...activeWalletIds, [network]: newWallet.id },
+          showAllWallets: false,
+        });
+        return newWallet.id;
+      },
+
+      updateWallet: (walletId, changes) => {
+        set((state) => ({
+          wallets: state.wallets.map((w) =>
+            w.id === walletId
+              ? {
+                  ...w,
+                  ...changes,
+                  label: changes.label !== undefined ? changes.label.trim() || w.label : w.label,
+                }
+              : w
+          ),
+        }));
+      },
+
+      removeWallet: (walletId) => {
+        const { wallets, activeWalletIds } = get();
+        const removed = wallets.find((w) => w.id === walletId);
+        if (!removed) return;
+
+        const remaining = wallets.filter((w) => w.id !== walletId);
+        const nextActive =
+          activeWalletIds[removed.network] === walletId
+            ? walletsForNetwork(remaining, removed.network)[0]?.id ?? null
+            : activeWalletIds[removed.network];
+
+        set({
+          wallets: remaining,
+          activeWalletIds: { ...activeWalletIds, [removed.network]: nextActive },
+        });
+      },
+
+      setActiveWallet: (network, walletId) => {
+        set((state) => ({
+          activeWalletIds: { ...state.activeWalletIds, [network]: walletId },
+          showAllWallets: false,
+        }));
+      },
+
+      setShowAllWallets: (showAll) => set({ showAllWallets: showAll }),
     }),
     {
       name: STORAGE_KEYS.WALLET,
       storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      migrate: (persistedState, version) => {
+        if (version < 2) {
+          return migrateLegacyState(persistedState, version);
+        }
+        return persistedState as WalletState;
+      },
     }
   )
 );
+
+/**
+ * Saved wallets on the network currently selected in settings.
+ */
+export function useNetworkWallets(): SavedWallet[] {
+  const network = useSettingsStore((state) => state.network);
+  const wallets = useWalletStore((state) => state.wallets);
+  return wallets.filter((w) => w.network === network);
+}
+
+/**
+ * Active wallet on the network currently selected in settings.
+ * Address fields are null when no wallet is saved for the network.
+ */
+export function useActiveWallet(): NetworkWallet & {
+  network: CardanoNetwork;
+  wallet: SavedWallet | null;
+} {
+  const network = useSettingsStore((state) => state.network);
+  const wallet = useWalletStore(
+    (state) => state.wallets.find((w) => w.id === state.activeWalletIds[network]) ?? null
+  );
+  return {
+    address: wallet?.address ?? null,
+    stakeAddress: wallet?.stakeAddress ?? null,
+    network,
+    wallet,
+  };
+}
@@ -1,8 +1,15 @@
+import type { FiatDisplayCurrency } from '../stores/settings';
+
 export type TransactionType =
   | 'send'
   | 'receive'
   | 'stake_reward'
   | 'stake_delegate'
+  | 'stake_registration'
+  | 'stake_deregistration'
+  | 'withdrawal'
+  | 'self_transfer'
+  | 'contract'
   | 'mint'
   | 'burn'
   | 'unknown';
@@ -17,26 +24,50 @@ export interface Transaction {
   txHash: string;
   blockHeight: number;
   blockTime: number;
+  /** Position within the block, ordering transactions made in the same block */
+  txIndex?: number;
   timestamp: Date;
   type: TransactionType;
   inputs: TransactionAmount[];
   outputs: TransactionAmount[];
   netAmount: string;
+  /** 'lovelace' or a native token unit (policy ID + asset name hex) */
   asset: string;
   assetTicker?: string;
+  /** Decimal places for native token amounts (lovelace is always 6) */
+  assetDecimals?: number;
   fee?: string;
+  /** Transaction metadata keyed by label (set on the ADA line only) */
   metadata?: Record<string, unknown>;
+  /** CIP-20 message lines (metadata label 674) */
+  message?: string[];
   stakeAddress?: string;
   poolId?: string;
+  /** Epoch a staking reward was earned in (it is received two epochs later) */
+  earnedEpoch?: number;
+  /** Stake key deposit in lovelace paid (positive) or refunded (negative) */
+  deposit?: string;
+  /** Rewards withdrawn to the wallet in lovelace (included in netAmount) */
+  withdrawalAmount?: string;
+  /** Set when a script failed and only collateral was consumed */
+  contractFailed?: boolean;
+  /** ADA daily close in the export's fiat currency on the line's date */
+  adaFiatPrice?: number;
 }
 
 export type AssetFilter = 'all' | 'ada_only';
 
+/** CSV layout, see EXPORT_FORMATS in lib/utils/export-formats */
+export type ExportFormatId = 'generic' | 'koinly' | 'cointracking' | 'cointracker';
+
 export interface ExportOptions {
   startDate?: Date;
   endDate?: Date;
   includeStakingRewards: boolean;
   assetFilter: AssetFilter;
+  format: ExportFormatId;
+  /** Fiat currency for historical values (e.g. 'USD'), null for ADA only */
+  fiatCurrency: FiatDisplayCurrency | null;
 }
 
 export interface ExportResult {
@@ -48,7 +79,7 @@ export interface ExportResult {
 }
 
 export interface ExportProgress {
-  phase: 'fetching' | 'processing' | 'exporting';
+  phase: 'fetching' | 'processing' | 'pricing' | 'exporting';
   current: number;
   total: number;
 }
@@ -0,0 +1,420 @@
+/**
+ * Cost basis and realized gain/loss calculation.
+ *
+ * Transaction lines are replayed oldest first. Every asset received opens a
+ * lot; every asset sent (and every fee paid) is a disposal matched against
+ * open lots using FIFO, LIFO or HIFO.
+ *
+ * Values come from each transaction's historical ADA price. Native tokens
+ * have no price source, so they are valued through the ADA side of the
+ * same transaction: tokens bought with ADA cost the ADA spent, and tokens
+ * sold for ADA realize the ADA received. Tokens moved without ADA (gifts,
+ * airdrops, transfers to other wallets you own) are valued at zero. When
+ * several tokens move against the same ADA, nothing says what each was worth,
+ * so the ADA is split equally between them and the report counts these
+ * transactions as approximated.
+ */
+
+import type { Transaction } from '../types/transaction';
+import { formatAmount } from './export-formats';
+import { lovelaceToAda } from './lovelace';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo';
+
+/** Short/long term split; 'unknown' when no lot covered the disposal */
+export type HoldingTerm = 'short' | 'long' | 'unknown';
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; label: string; description: string }[] = [
+  { id: 'fifo', label: 'FIFO', description: 'First in, first out: oldest lots are sold first' },
+  { id: 'lifo', label: 'LIFO', description: 'Last in, first out: newest lots are sold first' },
+  { id: 'hifo', label: 'HIFO', description: 'Highest in, first out: most expensive lots first' },
+];
+
+export const COST_BASIS_CONFIG = {
+  /** Holdings kept longer than this are long term */
+  LONG_TERM_DAYS: 365,
+} as const;
+
+const MS_PER_DAY = 86_400_000;
+
+/** An open acquisition */
+interface Lot {
+  /** Remaining quantity in base units */
+  quantity: bigint;
+  /** Fiat cost per base unit */
+  unitCost: number;
+  acquiredAt: Date;
+}
+
+/** One disposal matched against one lot (or against nothing, when unmatched) */
+export interface RealizedGain {
+  txHash: string;
+  disposedAt: Date;
+  /** Null when the disposal exceeded known holdings */
+  acquiredAt: Date | null;
+  /** 'lovelace' or a native token unit */
+  asset: string;
+  assetTicker: string;
+  assetDecimals: number;
+  /** Quantity in base units */
+  quantity: string;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+  /** Network fees are disposals too, reported separately for clarity */
+  isFee: boolean;
+}
+
+export interface AnnualSummary {
+  year: number;
+  disposalCount: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  /** Gains on disposals with no matching lot (history before the wallet's first transaction) */
+  unknownTermGain: number;
+  /** Staking rewards valued when earned */
+  stakingIncome: number;
+}
+
+export interface CostBasisReport {
+  method: CostBasisMethod;
+  fiatCurrency: string;
+  /** Newest first */
+  gains: RealizedGain[];
+  /** Newest year first */
+  years: AnnualSummary[];
+  /** Transactions valued at zero because their ADA price is unknown */
+  unpricedCount: number;
+  /** Disposals that exceeded known holdings */
+  unmatchedCount: number;
+  /** Transactions whose ADA side was split equally between several tokens */
+  splitValueCount: number;
+}
+
+interface AssetChange {
+  asset: string;
+  assetTicker: string;
+  assetDecimals: number;
+  /** Signed quantity in base units */
+  quantity: bigint;
+  /** Fiat value of the absolute quantity */
+  value: number;
+}
+
+function adaValue(lovelace: bigint, price: number): number {
+  return lovelaceToAda((lovelace < BigInt(0) ? -lovelace : lovelace).toString()) * price;
+}
+
+function getHoldingTerm(acquiredAt: Date, disposedAt: Date): HoldingTerm {
+  const heldDays = (disposedAt.getTime() - acquiredAt.getTime()) / MS_PER_DAY;
+  return heldDays > COST_BASIS_CONFIG.LONG_TERM_DAYS ? 'long' : 'short';
+}
+
+/** Index of the next lot to consume */
+function pickLot(lots: Lot[], method: CostBasisMethod): number {
+  if (method === 'fifo') return 0;
+  if (method === 'lifo') return lots.length - 1;
+
+  let best = 0;
+  for (let i = 1; i < lots.length; i++) {
+    if (lots[i].unitCost > lots[best].unitCost) best = i;
+  }
+  return best;
+}
+
+/**
+ * Split a transaction's lines into per-asset changes.
+ * ADA excludes the fee (disposed separately), stake key deposits (locked,
+ * not disposed of) and reward withdrawals (acquired when each reward was earned).
+ * `splitValue` is set when the ADA value was shared equally between tokens.
+ */
+function getAssetChanges(
+  lines: Transaction[],
+  price: number
+): { changes: AssetChange[]; splitValue: boolean } {
+  const changes: AssetChange[] = [];
+  let adaChange: AssetChange | null = null;
+
+  for (const tx of lines) {
+    let quantity = BigInt(tx.netAmount);
+    if (tx.asset === 'lovelace') {
+      quantity +=
+        BigInt(tx.fee ?? '0') + BigInt(tx.deposit ?? '0') - BigInt(tx.withdrawalAmount ?? '0');
+    }
+    if (quantity === BigInt(0)) continue;
+
+    const change: AssetChange = {
+      asset: tx.asset,
+      assetTicker: tx.asset === 'lovelace' ? 'ADA' : tx.assetTicker || tx.asset,
+      assetDecimals: tx.assetDecimals ?? 0,
+      quantity,
+      value: tx.asset === 'lovelace' ? adaValue(quantity, price) : 0,
+    };
+    if (tx.asset === 'lovelace') adaChange = change;
+    changes.push(change);
+  }
+
+  // Tokens take their value from the ADA that moved the other way
+  if (adaChange) {
+    const ada = adaChange;
+    const adaReceived = ada.quantity > BigInt(0);
+    const counterparts = changes.filter(
+      (change) => change.asset !== 'lovelace' && change.quantity > BigInt(0) !== adaReceived
+    );
+    for (const change of counterparts) {
+      change.value = ada.value / counterparts.length;
+    }
+    return { changes, splitValue: counterparts.length > 1 };
+  }
+
+  return { changes, splitValue: false };
+}
+
+function summarizeYears(gains: RealizedGain[], incomeByYear: Map<number, number>): AnnualSummary[] {
+  const years = new Map<number, AnnualSummary>();
+  const getYear = (year: number): AnnualSummary => {
+    let summary = years.get(year);
+    if (!summary) {
+      summary = {
+        year,
+        disposalCount: 0,
+        proceeds: 0,
+        costBasis: 0,
+        gain: 0,
+        shortTermGain: 0,
+        longTermGain: 0,
+        unknownTermGain: 0,
+        stakingIncome: 0,
+      };
+      years.set(year, summary);
+    }
+    return summary;
+  };
+
+  for (const gain of gains) {
+    const summary = getYear(gain.disposedAt.getUTCFullYear());
+    summary.disposalCount++;
+    summary.proceeds += gain.proceeds;
+    summary.costBasis += gain.costBasis;
+    summary.gain += gain.gain;
+    if (gain.term === 'long') summary.longTermGain += gain.gain;
+    else if (gain.term === 'short') summary.shortTermGain += gain.gain;
+    else summary.unknownTermGain += gain.gain;
+  }
+
+  for (const [year, income] of incomeByYear) {
+    getYear(year).stakingIncome += income;
+  }
+
+  return Array.from(years.values()).sort((a, b) => b.year - a.year);
+}
+
+/**
+ * Build a realized gain report from transaction lines (including staking
+ * rewards) carrying `adaFiatPrice` in `fiatCurrency`.
+ */
+export function calculateCostBasis(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  fiatCurrency: string
+): CostBasisReport {
+  // Group lines by transaction, oldest first; a block's transactions keep their on-chain order
+  const ordered = [...transactions].sort(
+    (a, b) => a.blockTime - b.blockTime || (a.txIndex ?? 0) - (b.txIndex ?? 0)
+  );
+  const linesByHash = new Map<string, Transaction[]>();
+  for (const tx of ordered) {
+    const lines = linesByHash.get(tx.txHash);
+    if (lines) lines.push(tx);
+    else linesByHash.set(tx.txHash, [tx]);
+  }
+
+  const lotsByAsset = new Map<string, Lot[]>();
+  const gains: RealizedGain[] = [];
+  const incomeByYear = new Map<number, number>();
+  let unpricedCount = 0;
+  let unmatchedCount = 0;
+  let splitValueCount = 0;
+
+  const dispose = (tx: Transaction, change: AssetChange, isFee: boolean) => {
+    const lots = lotsByAsset.get(change.asset) ?? [];
+    let remaining = -change.quantity;
+    const proceedsPerUnit = change.value / Number(remaining);
+    const base = {
+      txHash: tx.txHash,
+      disposedAt: tx.timestamp,
+      asset: change.asset,
+      assetTicker: change.assetTicker,
+      assetDecimals: change.assetDecimals,
+      isFee,
+    };
+
+    while (remaining > BigInt(0) && lots.length > 0) {
+      const index = pickLot(lots, method);
+      const lot = lots[index];
+      const used = lot.quantity < remaining ? lot.quantity : remaining;
+      const proceeds = proceedsPerUnit * Number(used);
+      const costBasis = lot.unitCost * Number(used);
+
+      gains.push({
+        ...base,
+        acquiredAt: lot.acquiredAt,
+        quantity: used.toString(),
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        term: getHoldingTerm(lot.acquiredAt, tx.timestamp),
+      });
+
+      lot.quantity -= used;
+      remaining -= used;
+      if (lot.quantity === BigInt(0)) lots.splice(index, 1);
+    }
+
+    if (remaining > BigInt(0)) {
+      const proceeds = proceedsPerUnit * Number(remaining);
+      unmatchedCount++;
+      gains.push({
+        ...base,
+        acquiredAt: null,
+        quantity: remaining.toString(),
+        proceeds,
+        costBasis: 0,
+        gain: proceeds,
+        term: 'unknown',
+      });
+    }
+  };
+
+  for (const lines of linesByHash.values()) {
+    const tx = lines.find((line) => line.asset === 'lovelace') ?? lines[0];
+    const price = tx.adaFiatPrice ?? 0;
+    if (tx.adaFiatPrice === undefined) unpricedCount++;
+
+    const { changes, splitValue } = getAssetChanges(lines, price);
+    if (splitValue) splitValueCount++;
+
+    // Disposals first: the wallet held these before the transaction
+    for (const change of changes) {
+      if (change.quantity < BigInt(0)) dispose(tx, change, false);
+    }
+
+    const fee = BigInt(tx.fee ?? '0');
+    if (fee > BigInt(0)) {
+      const feeChange: AssetChange = {
+        asset: 'lovelace',
+        assetTicker: 'ADA',
+        assetDecimals: 0,
+        quantity: -fee,
+        value: adaValue(fee, price),
+      };
+      dispose(tx, feeChange, true);
+    }
+
+    for (const change of changes) {
+      if (change.quantity <= BigInt(0)) continue;
+      const lots = lotsByAsset.get(change.asset) ?? [];
+      lots.push({
+        quantity: change.quantity,
+        unitCost: change.value / Number(change.quantity),
+        acquiredAt: tx.timestamp,
+      });
+      lotsByAsset.set(change.asset, lots);
+
+      if (tx.type === 'stake_reward') {
+        const year = tx.timestamp.getUTCFullYear();
+        incomeByYear.set(year, (incomeByYear.get(year) ?? 0) + change.value);
+      }
+    }
+  }
+
+  gains.reverse();
+
+  return {
+    method,
+    fiatCurrency,
+    gains,
+    years: summarizeYears(gains, incomeByYear),
+    unpricedCount,
+    unmatchedCount,
+    splitValueCount,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CSV layouts
+// ---------------------------------------------------------------------------
+
+function formatFiat(value: number): string {
+  return value.toFixed(2);
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : 'Unknown';
+}
+
+export const REALIZED_GAINS_HEADERS = [
+  'Date Acquired',
+  'Date Disposed',
+  'Asset',
+  'Quantity',
+  'Proceeds',
+  'Cost Basis',
+  'Gain/Loss',
+  'Term',
+  'Fee',
+  'Currency',
+  'Transaction Hash',
+  'Unit',
+];
+
+export function buildRealizedGainRows(report: CostBasisReport): string[][] {
+  return report.gains.map((gain) => [
+    formatDate(gain.acquiredAt),
+    formatDate(gain.disposedAt),
+    gain.assetTicker,
+    formatAmount(gain.quantity, gain.asset, gain.assetDecimals),
+    formatFiat(gain.proceeds),
+    formatFiat(gain.costBasis),
+    formatFiat(gain.gain),
+    gain.term,
+    gain.isFee ? 'yes' : '',
+    report.fiatCurrency,
+    gain.txHash,
+    gain.asset === 'lovelace' ? '' : gain.asset,
+  ]);
+}
+
+export const ANNUAL_SUMMARY_HEADERS = [
+  'Year',
+  'Disposals',
+  'Proceeds',
+  'Cost Basis',
+  'Gain/Loss',
+  'Short-Term Gain',
+  'Long-Term Gain',
+  'Unknown-Term Gain',
+  'Staking Income',
+  'Currency',
+  'Method',
+];
+
+export function buildAnnualSummaryRows(report: CostBasisReport): string[][] {
+  return report.years.map((summary) => [
+    summary.year.toString(),
+    summary.disposalCount.toString(),
+    formatFiat(summary.proceeds),
+    formatFiat(summary.costBasis),
+    formatFiat(summary.gain),
+    formatFiat(summary.shortTermGain),
+    formatFiat(summary.longTermGain),
+    formatFiat(summary.unknownTermGain),
+    formatFiat(summary.stakingIncome),
+    report.fiatCurrency,
+    report.method.toUpperCase(),
+  ]);
+}
@@ -1,41 +1,7 @@
 import { File, Paths } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { Transaction, ExportOptions, ExportResult } from '../types/transaction';
-
-const CSV_HEADERS = [
-  'Date',
-  'Type',
-  'Asset',
-  'Amount',
-  'Fee',
-  'Transaction Hash',
-  'Block',
-  'Notes',
-];
-
-const LOVELACE_DIVISOR = BigInt(1_000_000);
-// Number of decimal places for ADA amounts
-const ADA_DECIMAL_PLACES = 6;
-// Number of characters to show from pool ID in notes
-const POOL_ID_PREFIX_LENGTH = 10;
-
-/**
- * Formats a lovelace amount as ADA with 6 decimal places.
- * Uses BigInt arithmetic to avoid precision loss for large amounts.
- */
-function formatAmount(lovelace: string, asset: string): string {
-  if (asset === 'lovelace') {
-    const lovelaceBigInt = BigInt(lovelace);
-    const isNegative = lovelaceBigInt < BigInt(0);
-    const absLovelace = isNegative ? -lovelaceBigInt : lovelaceBigInt;
-    const intPart = absLovelace / LOVELACE_DIVISOR;
-    const fracPart = absLovelace % LOVELACE_DIVISOR;
-    const fracStr = fracPart.toString().padStart(ADA_DECIMAL_PLACES, '0');
-    const sign = isNegative ? '-' : '';
-    return `${sign}${intPart}.${fracStr}`;
-  }
-  return lovelace;
-}
+import { EXPORT_FORMATS, type ExportFormatId } from './export-formats';
 
 /**
  * Escapes a CSV field to prevent injection and handle special characters.
@@ -61,36 +27,47 @@ function escapeCSVField(field: string): string {
   return escaped;
 }
 
-function generateNotes(tx: Transaction): string {
-  const notes: string[] = [];
+/**
+ * Join a header row and unescaped data rows into CSV text.
+ */
+export function buildCSV(headers: string[], rows: string[][]): string {
+  const lines: string[] = [headers.join(',')];
 
-  if (tx.type === 'stake_reward' && tx.poolId) {
-    notes.push(`Pool: ${tx.poolId.slice(0, POOL_ID_PREFIX_LENGTH)}...`);
+  for (const row of rows) {
+    lines.push(row.map(escapeCSVField).join(','));
   }
 
-  return notes.join('; ');
+  return lines.join('\n');
 }
 
-export function generateCSV(transactions: Transaction[]): string {
-  const rows: string[] = [CSV_HEADERS.join(',')];
-
-  for (const tx of transactions) {
-    const row = [
-      tx.timestamp.toISOString(),
-      tx.type,
-      tx.assetTicker || tx.asset,
-      formatAmount(tx.netAmount, tx.asset),
-      tx.fee ? formatAmount(tx.fee, 'lovelace') : '',
-      tx.txHash,
-      tx.blockHeight.toString(),
-      generateNotes(tx),
-    ];
-
-    const escapedRow = row.map(escapeCSVField);
-    rows.push(escapedRow.join(','));
-  }
+export function generateCSV(
+  transactions: Transaction[],
+  formatId: ExportFormatId = 'generic',
+  fiatCurrency: string | null = null
+): string {
+  const format = EXPORT_FORMATS[formatId];
+  return buildCSV(format.headers, format.buildRows(transactions, fiatCurrency));
+}
 
-  return rows.join('\n');
+/**
+ * Write CSV text to the cache directory and open the share sheet.
+ */
+export async function shareCSVFile(
+  filename: string,
+  csv: string,
+  dialogTitle: string
+): Promise<void> {
+  const file = new File(Paths.cache, filename);
+
+  await file.write(csv);
+
+  const canShare = await Sharing.isAvailableAsync();
+  if (canShare) {
+    await Sharing.shareAsync(file.uri, {
+      mimeType: 'text/csv',
+      dialogTitle,
+    });
+  }
 }
 
 function filterTransactions(
@@ -141,21 +118,11 @@ export async function exportTransactionsToCSV(
       };
     }
 
-    const csv = generateCSV(filtered);
+    const csv = generateCSV(filtered, options.format, options.fiatCurrency);
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `cardano-transactions-${timestamp}.csv`;
-    const file = new File(Paths.cache, filename);
-
-    await file.write(csv);
-
-    const canShare = await Sharing.isAvailableAsync();
-    if (canShare) {
-      await Sharing.shareAsync(file.uri, {
-        mimeType: 'text/csv',
-        dialogTitle: 'Export Cardano Transactions',
-      });
-    }
+    const filename = `cardano-transactions-${options.format}-${timestamp}.csv`;
+    await shareCSVFile(filename, csv, 'Export Cardano Transactions');
 
     const dateRange = filtered.reduce(
       (acc, tx) => ({
@@ -168,7 +135,8 @@ export async function exportTransactionsToCSV(
     return {
       success: true,
       filename,
-      transactionCount: filtered.length,
+      // Token lines share their transaction's hash
+      transactionCount: new Set(filtered.map((tx) => tx.txHash)).size,
       dateRange,
     };
   } catch (error) {
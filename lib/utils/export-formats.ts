@@ -0,0 +1,445 @@
+/**
+ * CSV export format registry.
+ *
+ * Each format turns parsed transaction lines into rows for one tool. Tax
+ * tools want one row per economic event, so their formats first merge the
+ * per-asset lines of a transaction into a single ledger entry.
+ */
+
+import type { ExportFormatId, Transaction, TransactionType } from '../types/transaction';
+
+export type { ExportFormatId };
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  /** Short name for the format selector */
+  label: string;
+  description: string;
+  headers: string[];
+  /**
+   * Build CSV rows (unescaped) from transaction lines sorted newest first.
+   * `fiatCurrency` is the currency of each line's `adaFiatPrice`, or null
+   * when fiat values are not included.
+   */
+  buildRows(transactions: Transaction[], fiatCurrency: string | null): string[][];
+}
+
+// Number of decimal places for ADA amounts
+const ADA_DECIMAL_PLACES = 6;
+// Number of decimal places for fiat values
+const FIAT_DECIMAL_PLACES = 2;
+// Number of characters to show from pool ID in notes
+const POOL_ID_PREFIX_LENGTH = 10;
+
+/**
+ * Formats an integer amount with the given number of decimal places.
+ * Uses BigInt arithmetic to avoid precision loss for large amounts.
+ */
+function formatUnits(quantity: string, decimals: number): string {
+  const value = BigInt(quantity);
+  if (decimals <= 0) return value.toString();
+
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const isNegative = value < BigInt(0);
+  const absValue = isNegative ? -value : value;
+  const intPart = absValue / divisor;
+  const fracPart = absValue % divisor;
+  const fracStr = fracPart.toString().padStart(decimals, '0');
+  const sign = isNegative ? '-' : '';
+  return `${sign}${intPart}.${fracStr}`;
+}
+
+/**
+ * Formats a lovelace amount as ADA with 6 decimal places, or a native
+ * token amount using its registered decimals.
+ */
+export function formatAmount(amount: string, asset: string, decimals = 0): string {
+  return formatUnits(amount, asset === 'lovelace' ? ADA_DECIMAL_PLACES : decimals);
+}
+
+/**
+ * Fiat value of a decimal ADA amount at the line's historical price.
+ * Empty when no price is known.
+ */
+function formatFiatValue(adaAmount: string, price: number | undefined): string {
+  if (price === undefined) return '';
+  return (Number(adaAmount) * price).toFixed(FIAT_DECIMAL_PLACES);
+}
+
+function generateNotes(tx: Transaction): string {
+  const notes: string[] = [];
+
+  if (tx.message) {
+    notes.push(`Message: ${tx.message.join(' ')}`);
+  }
+
+  if (tx.poolId) {
+    notes.push(`Pool: ${tx.poolId.slice(0, POOL_ID_PREFIX_LENGTH)}...`);
+  }
+
+  if (tx.earnedEpoch !== undefined) {
+    notes.push(`Earned in epoch ${tx.earnedEpoch}`);
+  }
+
+  if (tx.deposit) {
+    const deposit = BigInt(tx.deposit);
+    notes.push(
+      deposit < BigInt(0)
+        ? `Deposit refund: ${formatAmount((-deposit).toString(), 'lovelace')} ADA`
+        : `Deposit: ${formatAmount(tx.deposit, 'lovelace')} ADA`
+    );
+  }
+
+  if (tx.withdrawalAmount) {
+    notes.push(`Rewards withdrawn: ${formatAmount(tx.withdrawalAmount, 'lovelace')} ADA`);
+  }
+
+  if (tx.contractFailed) {
+    notes.push('Script failed: collateral consumed');
+  }
+
+  // Tickers are not unique on Cardano, so token rows carry the full unit
+  if (tx.asset !== 'lovelace') {
+    notes.push(`Unit: ${tx.asset}`);
+  }
+
+  return notes.join('; ');
+}
+
+// ---------------------------------------------------------------------------
+// Ledger entries shared by the tax tool formats
+// ---------------------------------------------------------------------------
+
+interface AssetAmount {
+  /** Positive decimal amount */
+  amount: string;
+  currency: string;
+  /** 'lovelace' or the native token unit */
+  unit: string;
+}
+
+/** One economic event: everything a transaction sent and received */
+interface LedgerEntry {
+  /** The transaction's ADA line (or the reward line) */
+  tx: Transaction;
+  sent: AssetAmount[];
+  received: AssetAmount[];
+  /** Fee in ADA, when paid by the wallet */
+  fee: string | null;
+  description: string;
+}
+
+/** A single tax tool row: at most one asset in each direction */
+interface LedgerRow {
+  entry: LedgerEntry;
+  sent: AssetAmount | null;
+  received: AssetAmount | null;
+  fee: string | null;
+  /** The row only records a network fee (e.g. delegation, self-transfer) */
+  isFeeOnly: boolean;
+}
+
+function toAssetAmount(quantity: bigint, tx: Transaction): AssetAmount {
+  return {
+    amount: formatAmount(quantity.toString(), tx.asset, tx.assetDecimals),
+    currency: tx.assetTicker || tx.asset,
+    unit: tx.asset,
+  };
+}
+
+/**
+ * Merge the per-asset lines of each transaction into ledger entries.
+ * ADA amounts exclude the fee (reported separately), stake key deposits
+ * (locked, not disposed of) and reward withdrawals (already reported as
+ * staking income when each reward was earned).
+ */
+function buildLedgerEntries(transactions: Transaction[]): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  const entryByHash = new Map<string, LedgerEntry>();
+
+  for (const tx of transactions) {
+    let entry = entryByHash.get(tx.txHash);
+    if (!entry) {
+      entry = { tx, sent: [], received: [], fee: null, description: tx.type };
+      entryByHash.set(tx.txHash, entry);
+      entries.push(entry);
+    }
+
+    let quantity = BigInt(tx.netAmount);
+    if (tx.asset === 'lovelace') {
+      const fee = BigInt(tx.fee ?? '0');
+      quantity += fee + BigInt(tx.deposit ?? '0') - BigInt(tx.withdrawalAmount ?? '0');
+      if (fee > BigInt(0)) {
+        entry.fee = formatAmount(fee.toString(), 'lovelace');
+      }
+      const notes = generateNotes(tx);
+      entry.description = notes ? `${tx.type}: ${notes}` : tx.type;
+    }
+
+    if (quantity > BigInt(0)) {
+      entry.received.push(toAssetAmount(quantity, tx));
+    } else if (quantity < BigInt(0)) {
+      entry.sent.push(toAssetAmount(-quantity, tx));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Split ledger entries into rows with at most one sent and one received
+ * asset. A one-for-one exchange stays a single trade row; the fee is
+ * attached to the first row of its entry.
+ */
+function buildLedgerRows(transactions: Transaction[]): LedgerRow[] {
+  const rows: LedgerRow[] = [];
+
+  for (const entry of buildLedgerEntries(transactions)) {
+    if (entry.sent.length === 0 && entry.received.length === 0) {
+      if (entry.fee) {
+        rows.push({ entry, sent: null, received: null, fee: entry.fee, isFeeOnly: true });
+      }
+      continue;
+    }
+
+    if (entry.sent.length === 1 && entry.received.length === 1) {
+      rows.push({
+        entry,
+        sent: entry.sent[0],
+        received: entry.received[0],
+        fee: entry.fee,
+        isFeeOnly: false,
+      });
+      continue;
+    }
+
+    const legs = [
+      ...entry.sent.map((sent) => ({ sent, received: null })),
+      ...entry.received.map((received) => ({ sent: null, received })),
+    ];
+    legs.forEach((leg, index) => {
+      rows.push({ entry, ...leg, fee: index === 0 ? entry.fee : null, isFeeOnly: false });
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Fiat value of a ledger row, taken from its ADA leg (or its fee for
+ * fee-only rows). Rows without an ADA leg are left unvalued, since native
+ * tokens have no price source.
+ */
+function getRowFiatValue(row: LedgerRow): string {
+  const price = row.entry.tx.adaFiatPrice;
+  if (row.isFeeOnly) return formatFiatValue(row.fee ?? '0', price);
+  const adaLeg = [row.sent, row.received].find((leg) => leg?.unit === 'lovelace');
+  return adaLeg ? formatFiatValue(adaLeg.amount, price) : '';
+}
+
+/** YYYY-MM-DD HH:mm:ss in UTC */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/** MM/DD/YYYY HH:mm:ss in UTC */
+function formatUsDateTime(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)} ${iso.slice(11, 19)}`;
+}
+
+function isIncomeType(type: TransactionType): boolean {
+  return type === 'stake_reward';
+}
+
+// ---------------------------------------------------------------------------
+// Formats
+// ---------------------------------------------------------------------------
+
+const genericFormat: ExportFormat = {
+  id: 'generic',
+  label: 'GENERIC',
+  description: 'One row per asset with signed amounts',
+  headers: [
+    'Date',
+    'Type',
+    'Asset',
+    'Amount',
+    'Fee',
+    'Transaction Hash',
+    'Block',
+    'Notes',
+    'ADA Price',
+    'Fiat Value',
+    'Fiat Currency',
+  ],
+  buildRows: (transactions, fiatCurrency) =>
+    transactions.map((tx) => {
+      const amount = formatAmount(tx.netAmount, tx.asset, tx.assetDecimals);
+      const price = tx.asset === 'lovelace' ? tx.adaFiatPrice : undefined;
+
+      return [
+        tx.timestamp.toISOString(),
+        tx.type,
+        tx.assetTicker || tx.asset,
+        amount,
+        tx.fee ? formatAmount(tx.fee, 'lovelace') : '',
+        tx.txHash,
+        tx.blockHeight.toString(),
+        generateNotes(tx),
+        price !== undefined ? price.toString() : '',
+        formatFiatValue(amount, price),
+        price !== undefined && fiatCurrency ? fiatCurrency : '',
+      ];
+    }),
+};
+
+/**
+ * Koinly universal format.
+ * Fee-only transactions are reported as a sent 'cost' so the fee is deductible.
+ */
+const koinlyFormat: ExportFormat = {
+  id: 'koinly',
+  label: 'KOINLY',
+  description: 'Koinly universal CSV with staking and cost labels',
+  headers: [
+    'Date',
+    'Sent Amount',
+    'Sent Currency',
+    'Received Amount',
+    'Received Currency',
+    'Fee Amount',
+    'Fee Currency',
+    'Net Worth Amount',
+    'Net Worth Currency',
+    'Label',
+    'Description',
+    'TxHash',
+  ],
+  buildRows: (transactions, fiatCurrency) =>
+    buildLedgerRows(transactions).map((row) => {
+      const { entry, sent, received, fee, isFeeOnly } = row;
+      const netWorth = getRowFiatValue(row);
+      const feeAsSent = isFeeOnly ? { amount: fee ?? '', currency: 'ADA', unit: 'lovelace' } : null;
+      const sentAmount = sent ?? feeAsSent;
+      let label = '';
+      if (isIncomeType(entry.tx.type)) label = 'staking';
+      else if (isFeeOnly) label = 'cost';
+      else if (entry.tx.contractFailed) label = 'lost';
+
+      return [
+        `${formatUtcDateTime(entry.tx.timestamp)} UTC`,
+        sentAmount?.amount ?? '',
+        sentAmount?.currency ?? '',
+        received?.amount ?? '',
+        received?.currency ?? '',
+        isFeeOnly ? '' : (fee ?? ''),
+        isFeeOnly || !fee ? '' : 'ADA',
+        netWorth,
+        netWorth && fiatCurrency ? fiatCurrency : '',
+        label,
+        entry.description,
+        entry.tx.txHash.startsWith('reward_') ? '' : entry.tx.txHash,
+      ];
+    }),
+};
+
+function getCoinTrackingType(row: LedgerRow): string {
+  if (isIncomeType(row.entry.tx.type)) return 'Staking';
+  if (row.isFeeOnly) return 'Other Fee';
+  if (row.entry.tx.contractFailed) return 'Lost';
+  if (row.sent && row.received) return 'Trade';
+  return row.received ? 'Deposit' : 'Withdrawal';
+}
+
+/** CoinTracking custom CSV import */
+const coinTrackingFormat: ExportFormat = {
+  id: 'cointracking',
+  label: 'COINTRACKING',
+  description: 'CoinTracking CSV with Staking, Trade and Other Fee types',
+  headers: [
+    'Type',
+    'Buy Amount',
+    'Buy Currency',
+    'Sell Amount',
+    'Sell Currency',
+    'Fee',
+    'Fee Currency',
+    'Exchange',
+    'Trade-Group',
+    'Comment',
+    'Date',
+    'Tx-ID',
+    'Buy Value in Account Currency',
+    'Sell Value in Account Currency',
+  ],
+  buildRows: (transactions) =>
+    buildLedgerRows(transactions).map((row) => {
+      const { entry, sent, received, fee, isFeeOnly } = row;
+      // Fee-only rows carry the fee as the sold amount
+      const sellAmount = isFeeOnly ? { amount: fee ?? '', currency: 'ADA', unit: 'lovelace' } : sent;
+      // Both sides of a trade are worth the same at the time of the trade
+      const value = getRowFiatValue(row);
+
+      return [
+        getCoinTrackingType(row),
+        received?.amount ?? '',
+        received?.currency ?? '',
+        sellAmount?.amount ?? '',
+        sellAmount?.currency ?? '',
+        isFeeOnly ? '' : (fee ?? ''),
+        isFeeOnly || !fee ? '' : 'ADA',
+        'Cardano Wallet',
+        '',
+        entry.description,
+        formatUtcDateTime(entry.tx.timestamp),
+        entry.tx.txHash.startsWith('reward_') ? '' : entry.tx.txHash,
+        received ? value : '',
+        sellAmount ? value : '',
+      ];
+    }),
+};
+
+/** CoinTracker (cointracker.io) CSV import */
+const coinTrackerFormat: ExportFormat = {
+  id: 'cointracker',
+  label: 'COINTRACKER',
+  description: 'CoinTracker CSV with staked and lost tags',
+  headers: [
+    'Date',
+    'Received Quantity',
+    'Received Currency',
+    'Sent Quantity',
+    'Sent Currency',
+    'Fee Amount',
+    'Fee Currency',
+    'Tag',
+  ],
+  buildRows: (transactions) =>
+    buildLedgerRows(transactions).map(({ entry, sent, received, fee, isFeeOnly }) => {
+      let tag = '';
+      if (isIncomeType(entry.tx.type)) tag = 'staked';
+      else if (entry.tx.contractFailed) tag = 'lost';
+
+      return [
+        formatUsDateTime(entry.tx.timestamp),
+        received?.amount ?? '',
+        received?.currency ?? '',
+        sent?.amount ?? '',
+        sent?.currency ?? '',
+        fee ?? '',
+        fee ? 'ADA' : '',
+        tag,
+      ];
+    }),
+};
+
+export const EXPORT_FORMATS: Record<ExportFormatId, ExportFormat> = {
+  generic: genericFormat,
+  koinly: koinlyFormat,
+  cointracking: coinTrackingFormat,
+  cointracker: coinTrackerFormat,
+};
+
+/** Display order for the format selector */
+export const EXPORT_FORMAT_IDS: ExportFormatId[] = ['generic', 'koinly', 'cointracking', 'cointracker'];
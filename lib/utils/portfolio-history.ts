@@ -0,0 +1,120 @@
+/**
+ * Portfolio balance history reconstruction.
+ *
+ * Balances are rebuilt backwards from the current balance, undoing each
+ * balance-changing event. Anchoring on the present keeps recent history
+ * exact even when very old transactions are missing.
+ */
+
+const SECONDS_PER_DAY = 86_400;
+
+/** A change to the wallet's total ADA (UTxOs plus reward account) */
+export interface BalanceEvent {
+  /** Unix timestamp in seconds */
+  timestamp: number;
+  /** Lovelace change, negative for outflows */
+  delta: bigint;
+}
+
+/** End-of-day balance for a UTC date */
+export interface DailySnapshot {
+  /** UTC date, YYYY-MM-DD */
+  date: string;
+  /** Lovelace as a string (BigInt is not JSON serializable) */
+  lovelace: string;
+}
+
+export type HistoryRange = '7d' | '30d' | '1y' | 'all';
+
+/** Days covered by each range (null = since the first snapshot) */
+export const HISTORY_RANGE_DAYS: Record<HistoryRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '1y': 365,
+  all: null,
+};
+
+/**
+ * UTC date key (YYYY-MM-DD) for a Unix timestamp in seconds.
+ */
+export function toDateKey(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+export function dateKeyToTimestamp(dateKey: string): number {
+  return Date.parse(`${dateKey}T00:00:00Z`) / 1000;
+}
+
+/**
+ * Rebuild sparse end-of-day snapshots from the current balance and past events.
+ * Returns snapshots in ascending date order: one per day with activity, one for
+ * today, and one for the day before the first event (the starting balance).
+ */
+export function buildBalanceHistory(
+  currentLovelace: bigint,
+  events: BalanceEvent[],
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): DailySnapshot[] {
+  const sorted = [...events].sort((a, b) => b.timestamp - a.timestamp);
+  const byDate = new Map<string, bigint>();
+  let balance = currentLovelace;
+
+  byDate.set(toDateKey(nowSeconds), balance);
+
+  for (const event of sorted) {
+    // The first event seen for a day (walking backwards) is its last one,
+    // so the running balance here is that day's closing balance
+    const dateKey = toDateKey(event.timestamp);
+    if (!byDate.has(dateKey)) {
+      byDate.set(dateKey, balance);
+    }
+    balance -= event.delta;
+  }
+
+  if (sorted.length > 0) {
+    const firstEvent = sorted[sorted.length - 1];
+    const dayBefore = toDateKey(firstEvent.timestamp - SECONDS_PER_DAY);
+    if (!byDate.has(dayBefore)) {
+      byDate.set(dayBefore, balance);
+    }
+  }
+
+  return Array.from(byDate, ([date, lovelace]) => ({ date, lovelace: lovelace.toString() })).sort(
+    (a, b) => a.date.localeCompare(b.date)
+  );
+}
+
+/**
+ * Expand sparse snapshots into one point per day for a range ending today.
+ * Days without a snapshot carry the previous day's balance forward.
+ */
+export function fillDailySeries(
+  snapshots: DailySnapshot[],
+  range: HistoryRange,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): DailySnapshot[] {
+  if (snapshots.length === 0) return [];
+
+  const todayStart = dateKeyToTimestamp(toDateKey(nowSeconds));
+  const rangeDays = HISTORY_RANGE_DAYS[range];
+  const firstSnapshotStart = dateKeyToTimestamp(snapshots[0].date);
+  const start =
+    rangeDays === null
+      ? firstSnapshotStart
+      : Math.max(firstSnapshotStart, todayStart - (rangeDays - 1) * SECONDS_PER_DAY);
+
+  const series: DailySnapshot[] = [];
+  let index = 0;
+  let lovelace = snapshots[0].lovelace;
+
+  for (let day = start; day <= todayStart; day += SECONDS_PER_DAY) {
+    const dateKey = toDateKey(day);
+    while (index < snapshots.length && snapshots[index].date <= dateKey) {
+      lovelace = snapshots[index].lovelace;
+      index++;
+    }
+    series.push({ date: dateKey, lovelace });
+  }
+
+  return series;
+}
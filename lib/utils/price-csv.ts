@@ -0,0 +1,92 @@
+/**
+ * Parse daily ADA price files for offline historical valuation.
+ *
+ * Accepts the CSV downloads offered by most price sites: one row per day with
+ * a date column (YYYY-MM-DD, ISO date-time or Unix timestamp) and a price.
+ * The price column is the one headed "close" or "price"; without a header,
+ * the second column is used.
+ */
+
+import { toDateKey } from './portfolio-history';
+
+export interface PriceCsvResult {
+  /** Prices by UTC date (YYYY-MM-DD) */
+  closes: Record<string, number>;
+  /** Non-empty rows that could not be read */
+  skippedRows: number;
+}
+
+const PRICE_HEADERS = ['close', 'price', 'closing price', 'close price'];
+const DATE_HEADERS = ['date', 'time', 'timestamp', 'day', 'snapped_at'];
+
+/** Split a CSV line, honouring double-quoted fields */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function parseDate(value: string): string | null {
+  if (/^\d{9,13}$/.test(value)) {
+    const seconds = value.length > 10 ? Number(value) / 1000 : Number(value);
+    return toDateKey(seconds);
+  }
+  const match = /^(\d{4}-\d{2}-\d{2})/.exec(value);
+  return match ? match[1] : null;
+}
+
+function parsePrice(value: string): number | null {
+  const price = Number(value.replace(/[$€£\s]/g, ''));
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+export function parsePriceCsv(text: string): PriceCsvResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const closes: Record<string, number> = {};
+  let skippedRows = 0;
+  if (lines.length === 0) return { closes, skippedRows };
+
+  const header = splitCsvLine(lines[0]).map((field) => field.toLowerCase());
+  const hasHeader = parseDate(splitCsvLine(lines[0])[0] ?? '') === null;
+
+  let dateIndex = 0;
+  let priceIndex = 1;
+  if (hasHeader) {
+    const headedDate = header.findIndex((field) => DATE_HEADERS.includes(field));
+    const headedPrice = header.findIndex((field) => PRICE_HEADERS.includes(field));
+    if (headedDate >= 0) dateIndex = headedDate;
+    if (headedPrice >= 0) priceIndex = headedPrice;
+  }
+
+  for (const line of lines.slice(hasHeader ? 1 : 0)) {
+    const fields = splitCsvLine(line);
+    const date = parseDate(fields[dateIndex] ?? '');
+    const price = parsePrice(fields[priceIndex] ?? '');
+    if (date && price !== null) {
+      closes[date] = price;
+    } else {
+      skippedRows++;
+    }
+  }
+
+  return { closes, skippedRows };
+}
@@ -0,0 +1,18 @@
+/**
+ * Relative time formatting for "last updated" labels.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Format a past timestamp (ms) as a short relative time, e.g. "5m ago".
+ */
+export function formatTimeAgo(timestamp: number, now: number = Date.now()): string {
+  const elapsed = Math.max(0, now - timestamp);
+  if (elapsed < MINUTE_MS) return 'just now';
+  if (elapsed < HOUR_MS) return `${Math.floor(elapsed / MINUTE_MS)}m ago`;
+  if (elapsed < DAY_MS) return `${Math.floor(elapsed / HOUR_MS)}h ago`;
+  return `${Math.floor(elapsed / DAY_MS)}d ago`;
+}
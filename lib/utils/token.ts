@@ -0,0 +1,76 @@
+/**
+ * Native token quantity utilities.
+ * Token quantities are integers in base units; decimals come from metadata.
+ */
+
+/**
+ * Insert thousand separators into a string of digits.
+ */
+function groupThousands(digits: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * Convert a base-unit quantity to a display number.
+ * Only use for display and valuation - may lose precision for huge supplies.
+ */
+export function tokenQuantityToNumber(quantity: string, decimals: number): number {
+  const value = BigInt(quantity || '0');
+  if (decimals <= 0) return Number(value);
+  const divisor = 10n ** BigInt(decimals);
+  const whole = value / divisor;
+  const remainder = value % divisor;
+  return Number(whole) + Number(remainder) / Number(divisor);
+}
+
+/**
+ * Format a base-unit quantity exactly, with separators and trimmed trailing zeros.
+ * e.g. ("1234500000", 6) -> "1,234.5"
+ */
+export function formatTokenQuantity(
+  quantity: string,
+  decimals: number,
+  maxFractionDigits: number = decimals
+): string {
+  const value = BigInt(quantity || '0');
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString();
+
+  if (decimals <= 0) {
+    return (negative ? '-' : '') + groupThousands(digits);
+  }
+
+  const padded = digits.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded
+    .slice(-decimals)
+    .slice(0, Math.max(0, maxFractionDigits))
+    .replace(/0+$/, '');
+
+  return (negative ? '-' : '') + groupThousands(whole) + (fraction ? `.${fraction}` : '');
+}
+
+/**
+ * Format a base-unit quantity with short notation (K, M, B) for lists.
+ */
+export function formatTokenQuantityShort(quantity: string, decimals: number): string {
+  const amount = tokenQuantityToNumber(quantity, decimals);
+  if (amount >= 1_000_000_000) {
+    return `${(amount / 1_000_000_000).toFixed(2)}B`;
+  }
+  if (amount >= 1_000_000) {
+    return `${(amount / 1_000_000).toFixed(2)}M`;
+  }
+  if (amount >= 1_000) {
+    return `${(amount / 1_000).toFixed(2)}K`;
+  }
+  return formatTokenQuantity(quantity, decimals, Math.min(decimals, 4));
+}
+
+/**
+ * Shorten an asset fingerprint for display (asset1abcd...wxyz).
+ */
+export function formatFingerprint(fingerprint: string): string {
+  if (fingerprint.length <= 20) return fingerprint;
+  return `${fingerprint.slice(0, 10)}...${fingerprint.slice(-6)}`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Transaction history grouping and filtering.
+ *
+ * Parsed transactions arrive as one line per asset, so the history list first
+ * groups lines sharing a hash into one entry, then filters entries by type,
+ * asset, date range and free-text search.
+ */
+
+import type { Transaction, TransactionType } from '../types/transaction';
+
+/** One transaction (or staking reward) with all of its asset lines */
+export interface HistoryEntry {
+  txHash: string;
+  blockTime: number;
+  timestamp: Date;
+  type: TransactionType;
+  /** The ADA line first, then native token lines */
+  lines: Transaction[];
+}
+
+export interface HistoryFilter {
+  /** Types to show; empty shows every type */
+  types: TransactionType[];
+  /** 'lovelace' or a token unit; null shows every asset */
+  asset: string | null;
+  /** Inclusive Unix timestamp bounds (seconds); null is unbounded */
+  startTime: number | null;
+  endTime: number | null;
+  /** Matched against the tx hash, CIP-20 message and every input, output and stake address */
+  search: string;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  types: [],
+  asset: null,
+  startTime: null,
+  endTime: null,
+  search: '',
+};
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  send: 'Sent',
+  receive: 'Received',
+  stake_reward: 'Staking Reward',
+  stake_delegate: 'Delegation',
+  stake_registration: 'Stake Registration',
+  stake_deregistration: 'Stake Deregistration',
+  withdrawal: 'Reward Withdrawal',
+  self_transfer: 'Self Transfer',
+  contract: 'Contract',
+  mint: 'Mint',
+  burn: 'Burn',
+  unknown: 'Unknown',
+};
+
+export interface HistoryAsset {
+  unit: string;
+  ticker: string;
+}
+
+/**
+ * Group transaction lines by hash, newest first.
+ */
+export function groupHistoryEntries(transactions: Transaction[]): HistoryEntry[] {
+  const entries = new Map<string, HistoryEntry>();
+
+  for (const line of transactions) {
+    const entry = entries.get(line.txHash);
+    if (!entry) {
+      entries.set(line.txHash, {
+        txHash: line.txHash,
+        blockTime: line.blockTime,
+        timestamp: line.timestamp,
+        type: line.type,
+        lines: [line],
+      });
+    } else if (line.asset === 'lovelace') {
+      // The ADA line carries the transaction's overall type
+      entry.type = line.type;
+      entry.lines.unshift(line);
+    } else {
+      entry.lines.push(line);
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => b.blockTime - a.blockTime);
+}
+
+/**
+ * Assets that moved in any entry, ADA first, then tokens by ticker.
+ */
+export function getHistoryAssets(entries: HistoryEntry[]): HistoryAsset[] {
+  const assets = new Map<string, string>();
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      if (line.netAmount !== '0' && !assets.has(line.asset)) {
+        assets.set(line.asset, line.assetTicker ?? line.asset.slice(0, 8));
+      }
+    }
+  }
+
+  return Array.from(assets, ([unit, ticker]) => ({ unit, ticker })).sort((a, b) => {
+    if (a.unit === 'lovelace') return -1;
+    if (b.unit === 'lovelace') return 1;
+    return a.ticker.localeCompare(b.ticker);
+  });
+}
+
+function matchesSearch(entry: HistoryEntry, query: string): boolean {
+  if (entry.txHash.toLowerCase().includes(query)) return true;
+  return entry.lines.some(
+    (line) =>
+      line.message?.some((text) => text.toLowerCase().includes(query)) ||
+      line.stakeAddress?.toLowerCase().includes(query) ||
+      line.inputs.some((input) => input.address.toLowerCase().includes(query)) ||
+      line.outputs.some((output) => output.address.toLowerCase().includes(query))
+  );
+}
+
+export function filterHistoryEntries(
+  entries: HistoryEntry[],
+  filter: HistoryFilter
+): HistoryEntry[] {
+  const query = filter.search.trim().toLowerCase();
+
+  return entries.filter((entry) => {
+    if (filter.types.length > 0 && !filter.types.includes(entry.type)) return false;
+    if (filter.startTime !== null && entry.blockTime < filter.startTime) return false;
+    if (filter.endTime !== null && entry.blockTime > filter.endTime) return false;
+    if (
+      filter.asset !== null &&
+      !entry.lines.some((line) => line.asset === filter.asset && line.netAmount !== '0')
+    ) {
+      return false;
+    }
+    return query === '' || matchesSearch(entry, query);
+  });
+}
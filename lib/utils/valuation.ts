@@ -0,0 +1,122 @@
+/**
+ * Portfolio valuation: native tokens priced in ADA, totals and allocation.
+ * Fiat conversion happens at display time via formatFiatValue.
+ */
+
+import { tokenQuantityToNumber } from './token';
+
+/**
+ * - priced: has a DEX price
+ * - unpriced: no liquidity found, excluded from totals
+ * - failed: price lookup failed, excluded from totals
+ * - pending: price or metadata still loading
+ */
+export type TokenPriceStatus = 'priced' | 'unpriced' | 'failed' | 'pending';
+
+export interface TokenValuation {
+  unit: string;
+  /** Quantity in whole tokens (decimals applied) */
+  amount: number;
+  /** Price per whole token in ADA */
+  priceInAda: number | null;
+  /** Holding value in ADA */
+  valueAda: number | null;
+  /** Share of total portfolio value (0-100) */
+  allocationPercent: number | null;
+  status: TokenPriceStatus;
+}
+
+export interface PortfolioValuation {
+  /** ADA balance including rewards */
+  adaBalance: number;
+  /** Combined value of priced tokens in ADA */
+  tokensValueAda: number;
+  /** ADA balance plus priced tokens */
+  totalValueAda: number;
+  /** ADA's share of total value (0-100) */
+  adaAllocationPercent: number;
+  /** Valuations keyed by unit */
+  tokens: Record<string, TokenValuation>;
+  unpricedCount: number;
+  /** Tokens whose price lookup failed */
+  failedCount: number;
+  pendingCount: number;
+}
+
+export interface ValuationInput {
+  unit: string;
+  quantity: string;
+  /** Decimals from token metadata; undefined while loading */
+  decimals: number | undefined;
+  /** Price per whole token; undefined while loading, null when unpriced */
+  priceInAda: number | null | undefined;
+  /** The price lookup failed, so the token may still have a market */
+  priceFailed?: boolean;
+}
+
+/**
+ * Value a set of token holdings alongside an ADA balance.
+ */
+export function valuePortfolio(adaBalance: number, holdings: ValuationInput[]): PortfolioValuation {
+  const tokens: Record<string, TokenValuation> = {};
+  let tokensValueAda = 0;
+  let unpricedCount = 0;
+  let failedCount = 0;
+  let pendingCount = 0;
+
+  for (const holding of holdings) {
+    const decimals = holding.decimals ?? 0;
+    const amount = tokenQuantityToNumber(holding.quantity, decimals);
+
+    let status: TokenPriceStatus;
+    if (holding.priceFailed) {
+      status = 'failed';
+      failedCount++;
+    } else if (holding.priceInAda === undefined || holding.decimals === undefined) {
+      status = 'pending';
+      pendingCount++;
+    } else if (holding.priceInAda === null || holding.priceInAda <= 0) {
+      status = 'unpriced';
+      unpricedCount++;
+    } else {
+      status = 'priced';
+    }
+
+    const priceInAda = status === 'priced' ? (holding.priceInAda as number) : null;
+    const valueAda = priceInAda !== null ? amount * priceInAda : null;
+    if (valueAda !== null) {
+      tokensValueAda += valueAda;
+    }
+
+    tokens[holding.unit] = {
+      unit: holding.unit,
+      amount,
+      priceInAda,
+      valueAda,
+      allocationPercent: null,
+      status,
+    };
+  }
+
+  const totalValueAda = adaBalance + tokensValueAda;
+
+  // Allocation needs the final total, so fill it in afterwards
+  if (totalValueAda > 0) {
+    for (const valuation of Object.values(tokens)) {
+      if (valuation.valueAda !== null) {
+        valuation.allocationPercent = (valuation.valueAda / totalValueAda) * 100;
+      }
+    }
+  }
+
+  return {
+    adaBalance,
+    tokensValueAda,
+    totalValueAda,
+    adaAllocationPercent: totalValueAda > 0 ? (adaBalance / totalValueAda) * 100 : 0,
+    tokens,
+    unpricedCount,
+    failedCount,
+    pendingCount,
+  };
+}